@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { trpc } from "@/lib/trpc/client";
 import { AccountCreationModal } from "@/components/AccountCreationModal";
 import { FundingModal } from "@/components/FundingModal";
@@ -45,6 +46,9 @@ export default function DashboardPage() {
               <h1 className="text-xl font-semibold">SecureBank Dashboard</h1>
             </div>
             <div className="flex items-center">
+              <Link href="/security" className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900">
+                Security
+              </Link>
               <button
                 onClick={handleLogout}
                 className="ml-4 px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
@@ -73,24 +77,38 @@ export default function DashboardPage() {
                       <dt className="text-sm font-medium text-gray-500 truncate">
                         {account.accountType.charAt(0).toUpperCase() + account.accountType.slice(1)} Account
                       </dt>
-                      <dd className="mt-1 text-3xl font-semibold text-gray-900">{formatCurrency(account.balance)}</dd>
+                      <dd className="mt-1 text-3xl font-semibold text-gray-900">
+                        {formatCurrency(account.availableBalance)}
+                      </dd>
+                      <dd className="mt-1 text-xs text-gray-500">Available balance</dd>
+                      {account.availableBalance !== account.balance && (
+                        <dd className="mt-1 text-sm text-gray-500">Ledger balance: {formatCurrency(account.balance)}</dd>
+                      )}
                       <dd className="mt-1 text-sm text-gray-500">Account: ****{account.accountNumber.slice(-4)}</dd>
                       <dd className="mt-1 text-sm text-gray-500">
                         Status:{" "}
                         <span
                           className={`font-medium ${
-                            account.status === "active" ? "text-green-600" : "text-yellow-600"
+                            account.status === "active"
+                              ? "text-green-600"
+                              : account.status === "pending"
+                                ? "text-yellow-600"
+                                : "text-red-600"
                           }`}
                         >
                           {account.status}
                         </span>
                       </dd>
+                      {account.status !== "active" && account.statusReason && (
+                        <dd className="mt-1 text-sm text-yellow-700">{account.statusReason}</dd>
+                      )}
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
                           setFundingAccountId(account.id);
                         }}
-                        className="mt-4 w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+                        disabled={account.status !== "active"}
+                        className="mt-4 w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         Fund Account
                       </button>
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+
+type ForgotPasswordFormData = {
+  email: string;
+};
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>();
+  const requestResetMutation = trpc.auth.requestPasswordReset.useMutation();
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      setError("");
+      await requestResetMutation.mutateAsync(data);
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not send the reset email");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Reset your password</h2>
+
+        {requestResetMutation.data ? (
+          <p className="text-sm text-gray-700">{requestResetMutation.data.message}</p>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                {...register("email", {
+                  required: "Email is required",
+                  pattern: {
+                    value: /^\S+@\S+$/i,
+                    message: "Invalid email address",
+                  },
+                })}
+                type="email"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+              <p className="mt-1 text-sm text-gray-500">We will email you a link to choose a new password.</p>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={requestResetMutation.isPending}
+              className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {requestResetMutation.isPending ? "Sending..." : "Send reset link"}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link href="/login" className="font-medium text-blue-600 hover:text-blue-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
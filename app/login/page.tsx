@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { TRPCClientError } from "@trpc/client";
 import { useForm } from "react-hook-form";
 import { trpc } from "@/lib/trpc/client";
 import Link from "next/link";
@@ -14,6 +15,9 @@ type LoginFormData = {
 export default function LoginPage() {
   const router = useRouter();
   const [error, setError] = useState("");
+  // Set when the password was accepted but the account has 2FA on.
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
 
   // Query current user to check authentication status
   const { data: currentUser, isLoading: isCheckingAuth } = trpc.auth.me.useQuery();
@@ -31,14 +35,36 @@ export default function LoginPage() {
     formState: { errors },
   } = useForm<LoginFormData>();
   const loginMutation = trpc.auth.login.useMutation();
+  const verifyCodeMutation = trpc.auth.verifyLoginCode.useMutation();
 
   const onSubmit = async (data: LoginFormData) => {
     try {
       setError("");
-      await loginMutation.mutateAsync(data);
+      const result = await loginMutation.mutateAsync(data);
+      if ("twoFactorRequired" in result) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
       router.push("/dashboard");
-    } catch (err: any) {
-      setError(err.message || "Invalid credentials");
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Invalid credentials");
+    }
+  };
+
+  const onSubmitCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!challengeToken) return;
+    try {
+      setError("");
+      await verifyCodeMutation.mutateAsync({ challengeToken, code });
+      router.push("/dashboard");
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Invalid authentication code");
+      // An expired or locked-out challenge cannot be retried; start again from the password.
+      if (err instanceof TRPCClientError && err.data?.code === "UNAUTHORIZED") {
+        setChallengeToken(null);
+        setCode("");
+      }
     }
   };
 
@@ -66,6 +92,40 @@ export default function LoginPage() {
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Sign in to your account</h2>
         </div>
 
+        {challengeToken ? (
+          <form className="mt-8 space-y-6" onSubmit={onSubmitCode}>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                autoComplete="one-time-code"
+                autoFocus
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={verifyCodeMutation.isPending || code.trim() === ""}
+              className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {verifyCodeMutation.isPending ? "Verifying..." : "Verify"}
+            </button>
+          </form>
+        ) : (
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-4">
             <div>
@@ -96,6 +156,11 @@ export default function LoginPage() {
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
               />
               {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+              <div className="mt-1 text-right text-sm">
+                <Link href="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+                  Forgot password?
+                </Link>
+              </div>
             </div>
           </div>
 
@@ -113,6 +178,7 @@ export default function LoginPage() {
             {loginMutation.isPending ? "Signing in..." : "Sign In"}
           </button>
         </form>
+        )}
 
         <p className="text-center text-sm text-gray-600">
           Don't have an account?{" "}
@@ -0,0 +1,130 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+
+type ResetPasswordFormData = {
+  password: string;
+  confirmPassword: string;
+};
+
+function ResetPassword() {
+  const token = useSearchParams().get("token") ?? "";
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>();
+  const password = watch("password");
+  const resetMutation = trpc.auth.resetPassword.useMutation();
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      setError("");
+      await resetMutation.mutateAsync({ token, password: data.password });
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not reset your password");
+    }
+  };
+
+  if (resetMutation.isSuccess) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-700">Your password has been changed and every device was signed out.</p>
+        <Link href="/login" className="font-medium text-blue-600 hover:text-blue-500">
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-700">This password reset link is incomplete.</p>
+        <Link href="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+            New password
+          </label>
+          <input
+            {...register("password", {
+              required: "Password is required",
+              minLength: {
+                value: 8,
+                message: "Password must be at least 8 characters",
+              },
+              validate: {
+                hasLowercase: (value) => /[a-z]/.test(value) || "Password must include a lowercase letter",
+                hasUppercase: (value) => /[A-Z]/.test(value) || "Password must include an uppercase letter",
+                hasDigit: (value) => /\d/.test(value) || "Password must include a digit",
+                hasSymbol: (value) => /[^A-Za-z0-9]/.test(value) || "Password must include a symbol",
+              },
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+          />
+          {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+            Confirm new password
+          </label>
+          <input
+            {...register("confirmPassword", {
+              required: "Please confirm your password",
+              validate: (value) => value === password || "Passwords do not match",
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+          />
+          {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={resetMutation.isPending}
+        className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {resetMutation.isPending ? "Saving..." : "Set new password"}
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Choose a new password</h2>
+        <Suspense>
+          <ResetPassword />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+
+// Unlocking takes a click rather than happening on page load, so link scanners in mail clients cannot
+// use up the token.
+function UnlockAccount() {
+  const token = useSearchParams().get("token") ?? "";
+  const [error, setError] = useState("");
+  const unlockMutation = trpc.auth.unlockAccount.useMutation();
+
+  const handleUnlock = async () => {
+    try {
+      setError("");
+      await unlockMutation.mutateAsync({ token });
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not unlock your account");
+    }
+  };
+
+  if (unlockMutation.isSuccess) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-700">Your account is unlocked. You can sign in again.</p>
+        <Link href="/login" className="font-medium text-blue-600 hover:text-blue-500">
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-700">
+        Sign-in to your account was locked after too many failed attempts. If those attempts were yours, unlock it
+        below.
+      </p>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <button
+        onClick={handleUnlock}
+        disabled={!token || unlockMutation.isPending}
+        className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {unlockMutation.isPending ? "Unlocking..." : "Unlock my account"}
+      </button>
+    </div>
+  );
+}
+
+export default function UnlockAccountPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Unlock your account</h2>
+        <Suspense>
+          <UnlockAccount />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { trpc } from "@/lib/trpc/client";
-import { validateCardNumber } from "@/lib/validation/payment";
+import { validateCardDetails, validateCardNumber, validateRoutingNumber, type CardField } from "@/lib/validation/payment";
 
 interface FundingModalProps {
   accountId: number;
@@ -13,26 +13,77 @@ interface FundingModalProps {
 
 type FundingFormData = {
   amount: string;
+  // Id of a saved funding source, or "" to enter new details.
+  savedSourceId: string;
+  saveSource: boolean;
   fundingType: "card" | "bank";
   accountNumber: string;
   routingNumber?: string;
+  expiration?: string;
+  cvv?: string;
+  postalCode?: string;
 };
 
+// "MM/YY" from the expiration input; anything else parses to NaN and fails validation.
+function parseExpiration(value = "") {
+  const match = value.match(/^(\d{2})\/(\d{2})$/);
+  return {
+    expirationMonth: match ? Number(match[1]) : NaN,
+    expirationYear: match ? 2000 + Number(match[2]) : NaN,
+  };
+}
+
+function toCardDetails(values: FundingFormData) {
+  return {
+    number: values.accountNumber ?? "",
+    ...parseExpiration(values.expiration),
+    cvv: values.cvv ?? "",
+    postalCode: values.postalCode ?? "",
+  };
+}
+
+// Runs the full card check and returns the message for one field, so each input shows its own error.
+function cardFieldError(field: CardField, values: FundingFormData) {
+  if (values.fundingType !== "card") return true;
+  const validation = validateCardDetails(toCardDetails(values));
+  return validation.isValid || validation.errors[field] || true;
+}
+
 export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProps) {
   const [error, setError] = useState("");
+  // One key per modal instance so double-clicks and retried requests replay the same deposit.
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  // Remembered so a retry after a failed deposit does not try to save the same source again.
+  const [newlySavedSourceId, setNewlySavedSourceId] = useState<number>();
   const {
     register,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<FundingFormData>({
     defaultValues: {
+      savedSourceId: "",
+      saveSource: false,
       fundingType: "card",
     },
   });
 
   const fundingType = watch("fundingType");
+  const usingSavedSource = watch("savedSourceId") !== "";
+  const routingValidation = validateRoutingNumber(watch("routingNumber") ?? "");
+  const savedSourcesQuery = trpc.paymentMethods.list.useQuery();
+  const addSourceMutation = trpc.paymentMethods.add.useMutation();
   const fundAccountMutation = trpc.account.fundAccount.useMutation();
+  const savedSources = savedSourcesQuery.data ?? [];
+
+  // Start from the user's default source once the list arrives.
+  const defaultSourceId = savedSources.find((source) => source.isDefault)?.id;
+  useEffect(() => {
+    if (defaultSourceId !== undefined) {
+      setValue("savedSourceId", String(defaultSourceId));
+    }
+  }, [defaultSourceId, setValue]);
 
   const onSubmit = async (data: FundingFormData) => {
     setError("");
@@ -40,6 +91,17 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
     try {
       const amount = parseFloat(data.amount);
 
+      if (data.savedSourceId) {
+        await fundAccountMutation.mutateAsync({
+          accountId,
+          amount,
+          fundingSourceId: Number(data.savedSourceId),
+          idempotencyKey,
+        });
+        onSuccess();
+        return;
+      }
+
       if (data.fundingType === "bank" && !data.routingNumber) {
         setError("Routing number is required");
         return;
@@ -50,6 +112,9 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
           ? {
               type: "card" as const,
               accountNumber: data.accountNumber,
+              ...parseExpiration(data.expiration),
+              cvv: data.cvv!,
+              postalCode: data.postalCode!.trim(),
             }
           : {
               type: "bank" as const,
@@ -57,15 +122,25 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
               routingNumber: data.routingNumber!,
             };
 
-      await fundAccountMutation.mutateAsync({
-        accountId,
-        amount,
-        fundingSource,
-      });
+      if (data.saveSource) {
+        let fundingSourceId = newlySavedSourceId;
+        if (fundingSourceId === undefined) {
+          fundingSourceId = (await addSourceMutation.mutateAsync({ fundingSource })).id;
+          setNewlySavedSourceId(fundingSourceId);
+        }
+        await fundAccountMutation.mutateAsync({ accountId, amount, fundingSourceId, idempotencyKey });
+      } else {
+        await fundAccountMutation.mutateAsync({
+          accountId,
+          amount,
+          fundingSource,
+          idempotencyKey,
+        });
+      }
 
       onSuccess();
-    } catch (err: any) {
-      setError(err.message || "Failed to fund account");
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Failed to fund account");
     }
   };
 
@@ -106,63 +181,148 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
             {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Funding Source</label>
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
-                <span>Credit/Debit Card</span>
-              </label>
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
-                <span>Bank Account</span>
-              </label>
+          {savedSources.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Pay With</label>
+              <select
+                {...register("savedSourceId")}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              >
+                {savedSources.map((source) => (
+                  <option key={source.id} value={source.id}>
+                    {source.nickname}
+                    {source.isDefault ? " (default)" : ""}
+                  </option>
+                ))}
+                <option value="">Enter new details</option>
+              </select>
             </div>
-          </div>
+          )}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              {fundingType === "card" ? "Card Number" : "Account Number"}
-            </label>
-            <input
-              {...register("accountNumber", {
-                required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
-                pattern: {
-                  value: /^\d+$/,
-                  message: fundingType === "card" ? "Card number must contain only digits" : "Invalid account number",
-                },
-                validate: {
-                  validCard: (value) => {
-                    if (fundingType !== "card") return true;
-                    const validation = validateCardNumber(value);
-                    return validation.isValid || validation.message;
-                  },
-                },
-              })}
-              type="text"
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
-              placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
-            />
-            {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
-          </div>
+          {!usingSavedSource && (
+            <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Funding Source</label>
+              <div className="space-y-2">
+                <label className="flex items-center">
+                  <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
+                  <span>Credit/Debit Card</span>
+                </label>
+                <label className="flex items-center">
+                  <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
+                  <span>Bank Account</span>
+                </label>
+              </div>
+            </div>
 
-          {fundingType === "bank" && (
             <div>
-              <label className="block text-sm font-medium text-gray-700">Routing Number</label>
+              <label className="block text-sm font-medium text-gray-700">
+                {fundingType === "card" ? "Card Number" : "Account Number"}
+              </label>
               <input
-                {...register("routingNumber", {
-                  required: "Routing number is required",
+                {...register("accountNumber", {
+                  required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
                   pattern: {
-                    value: /^\d{9}$/,
-                    message: "Routing number must be 9 digits",
+                    value: /^\d+$/,
+                    message: fundingType === "card" ? "Card number must contain only digits" : "Invalid account number",
+                  },
+                  validate: {
+                    validCard: (value) => {
+                      if (fundingType !== "card") return true;
+                      const validation = validateCardNumber(value);
+                      return validation.isValid || validation.message;
+                    },
                   },
                 })}
                 type="text"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
-                placeholder="123456789"
+                placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
               />
-              {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+              {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
             </div>
+
+            {fundingType === "card" && (
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Expiration</label>
+                  <input
+                    {...register("expiration", {
+                      required: "Expiration is required",
+                      pattern: {
+                        value: /^\d{2}\/\d{2}$/,
+                        message: "Use MM/YY",
+                      },
+                      validate: (_, values) => cardFieldError("expiration", values),
+                    })}
+                    type="text"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                    placeholder="MM/YY"
+                  />
+                  {errors.expiration && <p className="mt-1 text-sm text-red-600">{errors.expiration.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">CVV</label>
+                  <input
+                    {...register("cvv", {
+                      required: "CVV is required",
+                      validate: (_, values) => cardFieldError("cvv", values),
+                    })}
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="cc-csc"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                    placeholder="123"
+                  />
+                  {errors.cvv && <p className="mt-1 text-sm text-red-600">{errors.cvv.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Billing ZIP</label>
+                  <input
+                    {...register("postalCode", {
+                      required: "Billing ZIP is required",
+                      validate: (_, values) => cardFieldError("postalCode", values),
+                    })}
+                    type="text"
+                    autoComplete="postal-code"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                    placeholder="12345"
+                  />
+                  {errors.postalCode && <p className="mt-1 text-sm text-red-600">{errors.postalCode.message}</p>}
+                </div>
+              </div>
+            )}
+
+            {fundingType === "bank" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Routing Number</label>
+                <input
+                  {...register("routingNumber", {
+                    required: "Routing number is required",
+                    pattern: {
+                      value: /^\d{9}$/,
+                      message: "Routing number must be 9 digits",
+                    },
+                    validate: (value) => {
+                      const validation = validateRoutingNumber(value ?? "");
+                      return validation.isValid || validation.message;
+                    },
+                  })}
+                  type="text"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                  placeholder="123456789"
+                />
+                {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+                {!errors.routingNumber && routingValidation.isValid && (
+                  <p className="mt-1 text-sm text-gray-600">{routingValidation.bankName}</p>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input {...register("saveSource")} type="checkbox" className="mr-2" />
+              <span>Save for future deposits</span>
+            </label>
+            </>
           )}
 
           {error && <div className="text-sm text-red-600">{error}</div>}
@@ -177,10 +337,10 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
             </button>
             <button
               type="submit"
-              disabled={fundAccountMutation.isPending}
+              disabled={fundAccountMutation.isPending || addSourceMutation.isPending}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
-              {fundAccountMutation.isPending ? "Processing..." : "Fund Account"}
+              {fundAccountMutation.isPending || addSourceMutation.isPending ? "Processing..." : "Fund Account"}
             </button>
           </div>
         </form>
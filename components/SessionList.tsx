@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+
+// A short device description from the user agent; the full string is in the tooltip.
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : null;
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Windows/.test(userAgent)
+          ? "Windows"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+
+  return [browser, os].filter(Boolean).join(" on ") || userAgent;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Unknown");
+
+export function SessionList() {
+  const [error, setError] = useState("");
+  const { data: sessions, refetch } = trpc.auth.listSessions.useQuery();
+  const revokeMutation = trpc.auth.revokeSession.useMutation();
+  const revokeOthersMutation = trpc.auth.revokeAllOtherSessions.useMutation();
+
+  const handleRevoke = async (id: number) => {
+    try {
+      setError("");
+      await revokeMutation.mutateAsync({ id });
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not sign out that session");
+    }
+    refetch();
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setError("");
+      await revokeOthersMutation.mutateAsync();
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not sign out other sessions");
+    }
+    refetch();
+  };
+
+  if (!sessions) {
+    return null;
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Where you are signed in</h3>
+          <p className="mt-1 text-sm text-gray-500">Sign out any session you do not recognise.</p>
+        </div>
+        {hasOtherSessions && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={revokeOthersMutation.isPending}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Sign out all other sessions
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {sessions.map((session) => (
+          <li key={session.id} className="py-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900" title={session.userAgent ?? undefined}>
+                {describeDevice(session.userAgent)}
+                {session.current && <span className="ml-2 text-xs font-medium text-green-600">This device</span>}
+              </p>
+              <p className="text-sm text-gray-500">
+                {session.ipAddress ?? "Unknown IP"} · Signed in {formatTime(session.createdAt)} · Last seen{" "}
+                {formatTime(session.lastSeenAt)}
+              </p>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => handleRevoke(session.id)}
+                disabled={revokeMutation.isPending}
+                className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+              >
+                Sign out
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,17 @@
 "use client";
 
 import { trpc } from "@/lib/trpc/client";
+import { describeReturnReason } from "@/lib/ach/returns";
+
+// Badge colours for each step of the settlement lifecycle.
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  returned: "bg-orange-100 text-orange-800",
+  held: "bg-gray-100 text-gray-800",
+  reviewing: "bg-gray-100 text-gray-800",
+};
 
 interface TransactionListProps {
   accountId: number;
@@ -80,10 +91,12 @@ export function TransactionList({ accountId }: TransactionListProps) {
               <td className="px-6 py-4 whitespace-nowrap">
                 <span
                   className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    transaction.status === "completed" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
+                    STATUS_STYLES[transaction.status] ?? STATUS_STYLES.pending
                   }`}
+                  title={transaction.returnReasonCode ? describeReturnReason(transaction.returnReasonCode) : undefined}
                 >
                   {transaction.status}
+                  {transaction.returnReasonCode && ` (${transaction.returnReasonCode})`}
                 </span>
               </td>
             </tr>
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+
+type Enrollment = { secret: string; otpauthUri: string };
+// Both need the password and a code before the server will act.
+type ProtectedAction = "disable" | "regenerate";
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border";
+
+export function TwoFactorSettings() {
+  const [error, setError] = useState("");
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  // Recovery codes are only returned once, right after enrollment is confirmed or they are regenerated.
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<ProtectedAction | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: status, refetch } = trpc.twoFactor.status.useQuery();
+  const startMutation = trpc.twoFactor.startEnrollment.useMutation();
+  const confirmMutation = trpc.twoFactor.confirmEnrollment.useMutation();
+  const disableMutation = trpc.twoFactor.disable.useMutation();
+  const regenerateMutation = trpc.twoFactor.regenerateRecoveryCodes.useMutation();
+
+  const reset = () => {
+    setError("");
+    setCode("");
+    setPassword("");
+  };
+
+  const handleStart = async () => {
+    try {
+      reset();
+      setRecoveryCodes(null);
+      setEnrollment(await startMutation.mutateAsync());
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Could not start enrollment");
+    }
+  };
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const result = await confirmMutation.mutateAsync({ code });
+      reset();
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes);
+      refetch();
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Invalid authentication code");
+    }
+  };
+
+  const handleProtectedAction = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      if (pendingAction === "regenerate") {
+        const result = await regenerateMutation.mutateAsync({ password, code });
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        await disableMutation.mutateAsync({ password, code });
+        setRecoveryCodes(null);
+      }
+      reset();
+      setPendingAction(null);
+      refetch();
+    } catch (err) {
+      const fallback =
+        pendingAction === "regenerate"
+          ? "Could not generate new recovery codes"
+          : "Could not turn off two-factor authentication";
+      setError((err instanceof Error && err.message) || fallback);
+    }
+  };
+
+  const startProtectedAction = (action: ProtectedAction) => {
+    reset();
+    setPendingAction(action);
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          {status.enabled
+            ? `On. ${status.recoveryCodesRemaining} unused recovery code(s) left.`
+            : "Off. Sign-ins only need your password."}
+        </p>
+      </div>
+
+      {recoveryCodes && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <p className="text-sm font-medium text-yellow-800">
+            Save these recovery codes somewhere safe. Each one works once, and they will not be shown again.
+          </p>
+          <ul className="mt-2 grid grid-cols-2 gap-1 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!status.enabled && !enrollment && (
+        <button
+          onClick={handleStart}
+          disabled={startMutation.isPending}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          Set up authenticator app
+        </button>
+      )}
+
+      {enrollment && (
+        <form className="space-y-4" onSubmit={handleConfirm}>
+          <div className="text-sm text-gray-700 space-y-2">
+            <p>Add this account to your authenticator app, then enter the 6-digit code it shows.</p>
+            <p>
+              <a href={enrollment.otpauthUri} className="font-medium text-blue-600 hover:text-blue-500">
+                Open in authenticator app
+              </a>{" "}
+              or enter the key manually: <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+          </div>
+          <div>
+            <label htmlFor="enroll-code" className="block text-sm font-medium text-gray-700">
+              Authentication code
+            </label>
+            <input
+              id="enroll-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              autoComplete="one-time-code"
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={confirmMutation.isPending || code.trim() === ""}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Turn on
+          </button>
+        </form>
+      )}
+
+      {status.enabled && !pendingAction && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => startProtectedAction("regenerate")}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Generate new recovery codes
+          </button>
+          <button
+            onClick={() => startProtectedAction("disable")}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Turn off
+          </button>
+        </div>
+      )}
+
+      {pendingAction && (
+        <form className="space-y-4" onSubmit={handleProtectedAction}>
+          {pendingAction === "regenerate" && (
+            <p className="text-sm text-gray-700">Your current recovery codes will stop working.</p>
+          )}
+          <div>
+            <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700">
+              Password
+            </label>
+            <input
+              id="confirm-password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-code" className="block text-sm font-medium text-gray-700">
+              Authentication or recovery code
+            </label>
+            <input
+              id="confirm-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              autoComplete="one-time-code"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-2">
+            {pendingAction === "regenerate" ? (
+              <button
+                type="submit"
+                disabled={regenerateMutation.isPending || password === "" || code.trim() === ""}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                Generate new recovery codes
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={disableMutation.isPending || password === "" || code.trim() === ""}
+                className="bg-red-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+              >
+                Turn off two-factor authentication
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setPendingAction(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
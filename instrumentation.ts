@@ -0,0 +1,7 @@
+// Next.js calls register() once when the server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startSettlementScheduler } = await import("./server/jobs/settlement");
+    startSettlementScheduler();
+  }
+}
@@ -0,0 +1,19 @@
+// Originator settings for outgoing ACH files. The defaults describe the local stand-in ODFI
+// used in development and tests; production values come from the environment.
+export type AchConfig = {
+  odfiRoutingNumber: string;
+  odfiName: string;
+  companyName: string;
+  companyId: string;
+  outboxDir: string;
+};
+
+export function getAchConfig(): AchConfig {
+  return {
+    odfiRoutingNumber: process.env.ACH_ODFI_ROUTING_NUMBER || "011000015",
+    odfiName: process.env.ACH_ODFI_NAME || "LOCAL ODFI",
+    companyName: process.env.ACH_COMPANY_NAME || "SECUREBANK",
+    companyId: process.env.ACH_COMPANY_ID || "1234567890",
+    outboxDir: process.env.ACH_OUTBOX_DIR || "ach/outbox",
+  };
+}
@@ -0,0 +1,50 @@
+import { achEntries } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { encryptField, fingerprintField } from "@/lib/encryption";
+
+export type AchDirection = "debit" | "credit";
+
+type QueueAchEntryInput = {
+  transactionId: number | null;
+  userId: number;
+  direction: AchDirection;
+  routingNumber: string;
+  accountNumber: string;
+  individualName: string;
+  amountCents: number;
+  /** Set for micro-deposits sent to verify the account. */
+  bankVerificationId?: number;
+  /** Held entries are left out of ACH files until a fraud review releases them. */
+  status?: "pending" | "held";
+};
+
+/**
+ * Keyed fingerprint of an external bank account, so entries, saved sources and verifications for the
+ * same account can be matched without decrypting account numbers.
+ */
+export function bankAccountFingerprint(routingNumber: string, accountNumber: string): string {
+  return fingerprintField(`${routingNumber}:${accountNumber}`);
+}
+
+/**
+ * Queues an entry for the next ACH file. The external account number is encrypted at rest
+ * and only decrypted when the file is built.
+ */
+export function queueAchEntry(executor: DbExecutor, input: QueueAchEntryInput) {
+  return executor
+    .insert(achEntries)
+    .values({
+      transactionId: input.transactionId,
+      userId: input.userId,
+      direction: input.direction,
+      routingNumber: input.routingNumber,
+      accountNumber: encryptField(input.accountNumber),
+      accountFingerprint: bankAccountFingerprint(input.routingNumber, input.accountNumber),
+      individualName: input.individualName,
+      amount: input.amountCents,
+      bankVerificationId: input.bankVerificationId ?? null,
+      status: input.status ?? "pending",
+    })
+    .returning()
+    .get();
+}
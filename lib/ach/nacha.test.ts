@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { buildNachaFile, RECORD_SIZE, type NachaFileOptions } from './nacha';
+
+const baseOptions: NachaFileOptions = {
+  immediateDestination: '011000015',
+  immediateDestinationName: 'LOCAL ODFI',
+  immediateOrigin: '1234567890',
+  immediateOriginName: 'SECUREBANK',
+  companyName: 'SECUREBANK',
+  companyId: '1234567890',
+  odfiRoutingNumber: '011000015',
+  fileIdModifier: 'A',
+  createdAt: new Date('2025-01-06T14:30:00Z'),
+  batches: [
+    {
+      serviceClassCode: '225',
+      secCode: 'WEB',
+      companyEntryDescription: 'FUNDING',
+      effectiveEntryDate: new Date('2025-01-07T00:00:00Z'),
+      entries: [
+        {
+          transactionCode: '27',
+          routingNumber: '021000021',
+          accountNumber: '000123456789',
+          amountCents: 10_000,
+          individualId: 'SB1',
+          individualName: 'Jane Doe',
+          traceNumber: '011000010000001',
+          addenda: 'ACCOUNT FUNDING REF 1',
+        },
+        {
+          transactionCode: '27',
+          routingNumber: '026009593',
+          accountNumber: '987654321',
+          amountCents: 2_550,
+          individualId: 'SB2',
+          individualName: 'John Smith',
+          traceNumber: '011000010000002',
+        },
+      ],
+    },
+    {
+      serviceClassCode: '220',
+      secCode: 'PPD',
+      companyEntryDescription: 'WITHDRAWAL',
+      effectiveEntryDate: new Date('2025-01-07T00:00:00Z'),
+      entries: [
+        {
+          transactionCode: '22',
+          routingNumber: '021000021',
+          accountNumber: '000123456789',
+          amountCents: 4_000,
+          individualId: 'SB1',
+          individualName: 'Jane Doe',
+          traceNumber: '011000010000003',
+          addenda: 'WITHDRAWAL REF 3',
+        },
+      ],
+    },
+  ],
+};
+
+describe('buildNachaFile', () => {
+  it('should produce the exact NACHA records for a debit and a credit batch', () => {
+    const lines = buildNachaFile(baseOptions).trimEnd().split('\n');
+
+    expect(lines.slice(0, 11)).toEqual([
+      '101 01100001512345678902501061430A094101LOCAL ODFI             SECUREBANK                     ',
+      '5225SECUREBANK                          1234567890WEBFUNDING         250107   1011000010000001',
+      '627021000021000123456789     0000010000SB1            JANE DOE                1011000010000001',
+      '705ACCOUNT FUNDING REF 1                                                           00010000001',
+      '627026009593987654321        0000002550SB2            JOHN SMITH              0011000010000002',
+      '822500000300047009610000000125500000000000001234567890                         011000010000001',
+      '5220SECUREBANK                          1234567890PPDWITHDRAWAL      250107   1011000010000002',
+      '622021000021000123456789     0000004000SB1            JANE DOE                1011000010000003',
+      '705WITHDRAWAL REF 3                                                                00010000003',
+      '822000000200021000020000000000000000000040001234567890                         011000010000002',
+      '9000002000002000000050006800963000000012550000000004000                                       ',
+    ]);
+  });
+
+  it('should pad the file to full blocks of ten 94-character records', () => {
+    const lines = buildNachaFile(baseOptions).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(20);
+    expect(lines.every((line) => line.length === RECORD_SIZE)).toBe(true);
+    expect(lines.slice(11).every((line) => line === '9'.repeat(RECORD_SIZE))).toBe(true);
+  });
+
+  it('should keep only the rightmost ten digits of the entry hash', () => {
+    const entries = Array.from({ length: 1_500 }, (_, index) => ({
+      transactionCode: '27',
+      routingNumber: '999999999',
+      accountNumber: '1',
+      amountCents: 1,
+      individualId: 'SB1',
+      individualName: 'Hash Test',
+      traceNumber: `01100001${String(index + 1).padStart(7, '0')}`,
+    }));
+
+    const lines = buildNachaFile({
+      ...baseOptions,
+      batches: [{ ...baseOptions.batches[0], entries }],
+    }).split('\n');
+    const fileControl = lines.find((line) => line.startsWith('9') && line !== '9'.repeat(RECORD_SIZE))!;
+
+    // 1,500 x 99999999 = 149999998500 -> 9999998500
+    expect(fileControl.slice(21, 31)).toBe('9999998500');
+  });
+
+  it('should reject values that overflow numeric fields', () => {
+    expect(() =>
+      buildNachaFile({
+        ...baseOptions,
+        batches: [
+          {
+            ...baseOptions.batches[0],
+            entries: [{ ...baseOptions.batches[0].entries[1], amountCents: 100_000_000_000 }],
+          },
+        ],
+      })
+    ).toThrow(/does not fit/);
+  });
+});
@@ -0,0 +1,227 @@
+// Fixed-width NACHA file builder. Every record is 94 characters and the file is padded
+// with "9" records to a multiple of the blocking factor (10 records per block).
+
+export const RECORD_SIZE = 94;
+const BLOCKING_FACTOR = 10;
+
+// Transaction codes for entries to checking and savings accounts at the receiving bank.
+export const TRANSACTION_CODES = {
+  checking: { credit: "22", debit: "27" },
+  savings: { credit: "32", debit: "37" },
+} as const;
+
+// 200 = mixed debits and credits, 220 = credits only, 225 = debits only.
+export type ServiceClassCode = "200" | "220" | "225";
+
+export type NachaEntry = {
+  transactionCode: string;
+  /** Full 9-digit routing number of the receiving bank. */
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: number;
+  individualId: string;
+  individualName: string;
+  /** 15 digits: 8-digit ODFI id followed by a 7-digit sequence number. */
+  traceNumber: string;
+  /** Optional payment-related information carried in a type 05 addenda record. */
+  addenda?: string;
+};
+
+export type NachaBatch = {
+  serviceClassCode: ServiceClassCode;
+  secCode: "PPD" | "WEB" | "CCD";
+  companyEntryDescription: string;
+  effectiveEntryDate: Date;
+  entries: NachaEntry[];
+};
+
+export type NachaFileOptions = {
+  immediateDestination: string;
+  immediateDestinationName: string;
+  immediateOrigin: string;
+  immediateOriginName: string;
+  companyName: string;
+  companyId: string;
+  /** Routing number of the originating bank; the first 8 digits appear in batch records. */
+  odfiRoutingNumber: string;
+  fileIdModifier: string;
+  createdAt: Date;
+  referenceCode?: string;
+  batches: NachaBatch[];
+};
+
+function alpha(value: string, length: number): string {
+  return value.toUpperCase().slice(0, length).padEnd(length, " ");
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value);
+  if (!/^\d+$/.test(digits) || digits.length > length) {
+    throw new Error(`Value ${digits} does not fit a ${length}-digit numeric field`);
+  }
+  return digits.padStart(length, "0");
+}
+
+// Immediate destination/origin: a 9-digit routing number is written with a leading space.
+function routingField(value: string): string {
+  return /^\d{9}$/.test(value) ? ` ${value}` : alpha(value, 10);
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, "");
+}
+
+function hhmm(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(":", "");
+}
+
+// Sum of the 8-digit receiving bank ids, keeping the rightmost 10 digits.
+function entryHash(entries: NachaEntry[]): string {
+  const total = entries.reduce((sum, entry) => sum + Number(entry.routingNumber.slice(0, 8)), 0);
+  return numeric(total % 10_000_000_000, 10);
+}
+
+function isDebit(entry: NachaEntry): boolean {
+  return entry.transactionCode.endsWith("7") || entry.transactionCode.endsWith("8");
+}
+
+function totals(entries: NachaEntry[]) {
+  return entries.reduce(
+    (sum, entry) => {
+      if (isDebit(entry)) {
+        sum.debit += entry.amountCents;
+      } else {
+        sum.credit += entry.amountCents;
+      }
+      return sum;
+    },
+    { debit: 0, credit: 0 }
+  );
+}
+
+function assertRecord(record: string): string {
+  if (record.length !== RECORD_SIZE) {
+    throw new Error(`NACHA record must be ${RECORD_SIZE} characters, got ${record.length}: ${record}`);
+  }
+  return record;
+}
+
+function fileHeader(options: NachaFileOptions): string {
+  return assertRecord(
+    "1" +
+      "01" +
+      routingField(options.immediateDestination) +
+      routingField(options.immediateOrigin) +
+      yymmdd(options.createdAt) +
+      hhmm(options.createdAt) +
+      alpha(options.fileIdModifier, 1) +
+      "094" +
+      numeric(BLOCKING_FACTOR, 2) +
+      "1" +
+      alpha(options.immediateDestinationName, 23) +
+      alpha(options.immediateOriginName, 23) +
+      alpha(options.referenceCode ?? "", 8)
+  );
+}
+
+function batchHeader(options: NachaFileOptions, batch: NachaBatch, batchNumber: number): string {
+  return assertRecord(
+    "5" +
+      batch.serviceClassCode +
+      alpha(options.companyName, 16) +
+      alpha("", 20) +
+      alpha(options.companyId, 10) +
+      batch.secCode +
+      alpha(batch.companyEntryDescription, 10) +
+      alpha("", 6) +
+      yymmdd(batch.effectiveEntryDate) +
+      "   " + // Settlement date is filled in by the ACH operator
+      "1" +
+      numeric(options.odfiRoutingNumber.slice(0, 8), 8) +
+      numeric(batchNumber, 7)
+  );
+}
+
+function entryDetail(entry: NachaEntry): string {
+  return assertRecord(
+    "6" +
+      numeric(entry.transactionCode, 2) +
+      numeric(entry.routingNumber, 9) + // Receiving DFI id (8) followed by its check digit (1)
+      alpha(entry.accountNumber, 17) +
+      numeric(entry.amountCents, 10) +
+      alpha(entry.individualId, 15) +
+      alpha(entry.individualName, 22) +
+      "  " +
+      (entry.addenda ? "1" : "0") +
+      numeric(entry.traceNumber, 15)
+  );
+}
+
+function addendaRecord(entry: NachaEntry): string {
+  return assertRecord(
+    "7" + "05" + alpha(entry.addenda ?? "", 80) + numeric(1, 4) + entry.traceNumber.slice(-7)
+  );
+}
+
+function batchControl(options: NachaFileOptions, batch: NachaBatch, batchNumber: number): string {
+  const entryAndAddendaCount = batch.entries.length + batch.entries.filter((entry) => entry.addenda).length;
+  const { debit, credit } = totals(batch.entries);
+
+  return assertRecord(
+    "8" +
+      batch.serviceClassCode +
+      numeric(entryAndAddendaCount, 6) +
+      entryHash(batch.entries) +
+      numeric(debit, 12) +
+      numeric(credit, 12) +
+      alpha(options.companyId, 10) +
+      alpha("", 19) +
+      alpha("", 6) +
+      numeric(options.odfiRoutingNumber.slice(0, 8), 8) +
+      numeric(batchNumber, 7)
+  );
+}
+
+/**
+ * Builds the complete NACHA file contents, one record per line.
+ */
+export function buildNachaFile(options: NachaFileOptions): string {
+  const records = [fileHeader(options)];
+
+  options.batches.forEach((batch, index) => {
+    const batchNumber = index + 1;
+    records.push(batchHeader(options, batch, batchNumber));
+    for (const entry of batch.entries) {
+      records.push(entryDetail(entry));
+      if (entry.addenda) {
+        records.push(addendaRecord(entry));
+      }
+    }
+    records.push(batchControl(options, batch, batchNumber));
+  });
+
+  const allEntries = options.batches.flatMap((batch) => batch.entries);
+  const entryAndAddendaCount = allEntries.length + allEntries.filter((entry) => entry.addenda).length;
+  const { debit, credit } = totals(allEntries);
+  const recordCount = records.length + 1; // Including the file control record
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR);
+
+  records.push(
+    assertRecord(
+      "9" +
+        numeric(options.batches.length, 6) +
+        numeric(blockCount, 6) +
+        numeric(entryAndAddendaCount, 8) +
+        entryHash(allEntries) +
+        numeric(debit, 12) +
+        numeric(credit, 12) +
+        alpha("", 39)
+    )
+  );
+
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push("9".repeat(RECORD_SIZE));
+  }
+
+  return `${records.join("\n")}\n`;
+}
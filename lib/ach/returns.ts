@@ -0,0 +1,89 @@
+// Parser for NACHA return files sent back by the ODFI. Each returned entry is an entry detail
+// record followed by a type 99 addenda that carries the return reason and the trace number of
+// the entry we originally sent.
+
+import { RECORD_SIZE } from "./nacha";
+
+// Return reasons we expect to see for consumer debits and credits.
+export const ACH_RETURN_REASONS: Record<string, string> = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account / unable to locate account",
+  R04: "Invalid account number",
+  R05: "Unauthorized debit to consumer account",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R09: "Uncollected funds",
+  R10: "Customer advises not authorized",
+  R16: "Account frozen",
+  R20: "Non-transaction account",
+  R29: "Corporate customer advises not authorized",
+};
+
+export type AchReturn = {
+  returnReasonCode: string;
+  /** Trace number of the entry we originated, used to find it again. */
+  originalTraceNumber: string;
+  routingNumber: string;
+  amountCents: number;
+  /** Free-form information supplied by the receiving bank. */
+  addendaInformation: string;
+};
+
+export function describeReturnReason(code: string): string {
+  return ACH_RETURN_REASONS[code] ?? "Returned by receiving bank";
+}
+
+/**
+ * Extracts every returned entry from a NACHA return file. Header, control and padding records
+ * are skipped; a malformed record or an entry without its return addenda rejects the whole file.
+ */
+export function parseReturnFile(contents: string): AchReturn[] {
+  const records = contents.split(/\r?\n/).filter((line) => line.length > 0);
+  const returns: AchReturn[] = [];
+  let entry: { routingNumber: string; amountCents: number; lineNumber: number } | null = null;
+
+  records.forEach((record, index) => {
+    const lineNumber = index + 1;
+    if (record.length !== RECORD_SIZE) {
+      throw new Error(`Line ${lineNumber} of the return file is ${record.length} characters, expected ${RECORD_SIZE}`);
+    }
+
+    switch (record[0]) {
+      case "6":
+        if (entry) {
+          throw new Error(`Entry on line ${entry.lineNumber} has no return addenda`);
+        }
+        entry = {
+          routingNumber: record.slice(3, 12),
+          amountCents: Number(record.slice(29, 39)),
+          lineNumber,
+        };
+        break;
+      case "7": {
+        if (record.slice(1, 3) !== "99") {
+          break;
+        }
+        if (!entry) {
+          throw new Error(`Return addenda on line ${lineNumber} does not follow an entry`);
+        }
+        returns.push({
+          returnReasonCode: record.slice(3, 6),
+          originalTraceNumber: record.slice(6, 21),
+          routingNumber: entry.routingNumber,
+          amountCents: entry.amountCents,
+          addendaInformation: record.slice(35, 79).trim(),
+        });
+        entry = null;
+        break;
+      }
+      case "8":
+        if (entry) {
+          throw new Error(`Entry on line ${entry.lineNumber} has no return addenda`);
+        }
+        break;
+    }
+  });
+
+  return returns;
+}
@@ -0,0 +1,239 @@
+import { randomInt } from "crypto";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { achEntries, bankVerifications } from "@/lib/db/schema";
+import { postJournalEntry, type DbExecutor } from "@/lib/db/ledger";
+import { bankAccountFingerprint, queueAchEntry } from "./entries";
+
+/** Wrong guesses allowed before a verification fails and new micro-deposits have to be sent. */
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+/**
+ * Failed verifications of a bank account by one user after which no more micro-deposits are sent to
+ * it for that user. Without it, starting over would allow unlimited guesses. It is counted per user, so
+ * failing on purpose cannot lock the account's owner out of verifying it.
+ */
+export const MAX_FAILED_VERIFICATIONS = 3;
+
+/** Total that can be pulled from a bank account before it is verified. Stored in cents. */
+export const UNVERIFIED_FUNDING_LIMIT_CENTS = 100_00;
+
+export type BankVerificationRecord = typeof bankVerifications.$inferSelect;
+
+type StartVerificationInput = {
+  userId: number;
+  routingNumber: string;
+  accountNumber: string;
+  individualName: string;
+};
+
+export type VerificationAttemptResult =
+  | { verified: true; verification: BankVerificationRecord }
+  | { verified: false; attemptsRemaining: number; verification: BankVerificationRecord };
+
+export class BankVerificationNotFoundError extends Error {
+  constructor(id: number) {
+    super(`Bank verification ${id} does not exist`);
+    this.name = "BankVerificationNotFoundError";
+  }
+}
+
+export class BankVerificationClosedError extends Error {
+  constructor(verification: BankVerificationRecord) {
+    super(
+      verification.status === "verified"
+        ? "This bank account is already verified"
+        : "Too many incorrect attempts, request new micro-deposits"
+    );
+    this.name = "BankVerificationClosedError";
+  }
+}
+
+export class BankVerificationLimitError extends Error {
+  constructor() {
+    super("Too many failed verifications for this bank account. Please contact support to verify it.");
+    this.name = "BankVerificationLimitError";
+  }
+}
+
+/**
+ * Whether the user proved they own the bank account with this fingerprint (see bankAccountFingerprint).
+ */
+export function isBankAccountVerified(executor: DbExecutor, userId: number, accountFingerprint: string): boolean {
+  const verified = executor
+    .select({ id: bankVerifications.id })
+    .from(bankVerifications)
+    .where(
+      and(
+        eq(bankVerifications.userId, userId),
+        eq(bankVerifications.accountFingerprint, accountFingerprint),
+        eq(bankVerifications.status, "verified")
+      )
+    )
+    .get();
+  return Boolean(verified);
+}
+
+/**
+ * Cents pulled from a bank account by ACH debits that were sent or are queued for the next file.
+ * Held debits (still in fraud review), cancelled and returned ones never moved any money.
+ */
+export function getBankFundingTotal(executor: DbExecutor, userId: number, accountFingerprint: string): number {
+  const row = executor
+    .select({ total: sql<number>`COALESCE(SUM(${achEntries.amount}), 0)` })
+    .from(achEntries)
+    .where(
+      and(
+        eq(achEntries.userId, userId),
+        eq(achEntries.accountFingerprint, accountFingerprint),
+        eq(achEntries.direction, "debit"),
+        inArray(achEntries.status, ["pending", "exported"])
+      )
+    )
+    .get();
+  return row?.total ?? 0;
+}
+
+/**
+ * Sends two random micro-deposits (1-99 cents each) to the account through the ACH queue and posts
+ * them as a verification expense. An open verification for the same account is returned as-is instead
+ * of sending more deposits, and once the account has MAX_FAILED_VERIFICATIONS failed ones no more are
+ * sent.
+ */
+export function startBankVerification(executor: DbExecutor, input: StartVerificationInput): BankVerificationRecord {
+  const accountFingerprint = bankAccountFingerprint(input.routingNumber, input.accountNumber);
+
+  return executor.transaction((tx) => {
+    const latest = tx
+      .select()
+      .from(bankVerifications)
+      .where(and(eq(bankVerifications.userId, input.userId), eq(bankVerifications.accountFingerprint, accountFingerprint)))
+      .orderBy(desc(bankVerifications.id))
+      .get();
+
+    if (latest?.status === "verified") {
+      throw new BankVerificationClosedError(latest);
+    }
+    if (latest?.status === "pending") {
+      return latest;
+    }
+
+    const failed = tx
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(bankVerifications)
+      .where(
+        and(
+          eq(bankVerifications.userId, input.userId),
+          eq(bankVerifications.accountFingerprint, accountFingerprint),
+          eq(bankVerifications.status, "failed")
+        )
+      )
+      .get();
+    if ((failed?.count ?? 0) >= MAX_FAILED_VERIFICATIONS) {
+      throw new BankVerificationLimitError();
+    }
+
+    const firstAmount = randomInt(1, 100);
+    const secondAmount = randomInt(1, 100);
+    const last4 = input.accountNumber.slice(-4);
+    const { entry } = postJournalEntry(tx, {
+      description: `Micro-deposits to bank ****${last4}`,
+      postings: [
+        { systemAccount: "verification_expense", amount: -(firstAmount + secondAmount) },
+        { systemAccount: "ach_clearing", amount: firstAmount + secondAmount },
+      ],
+    });
+
+    const verification = tx
+      .insert(bankVerifications)
+      .values({
+        userId: input.userId,
+        accountFingerprint,
+        routingNumber: input.routingNumber,
+        last4,
+        firstAmount,
+        secondAmount,
+        journalEntryId: entry.id,
+      })
+      .returning()
+      .get();
+
+    for (const amountCents of [verification.firstAmount, verification.secondAmount]) {
+      queueAchEntry(tx, {
+        transactionId: null,
+        userId: input.userId,
+        direction: "credit",
+        routingNumber: input.routingNumber,
+        accountNumber: input.accountNumber,
+        individualName: input.individualName,
+        amountCents,
+        bankVerificationId: verification.id,
+      });
+    }
+
+    return verification;
+  });
+}
+
+/**
+ * Checks the amounts the user saw on their statement, in either order. Every wrong guess counts
+ * against MAX_VERIFICATION_ATTEMPTS; the last one fails the verification.
+ */
+export function confirmBankVerification(
+  executor: DbExecutor,
+  userId: number,
+  verificationId: number,
+  amountsCents: [number, number],
+  now = new Date()
+): VerificationAttemptResult {
+  return executor.transaction((tx) => {
+    const verification = tx
+      .select()
+      .from(bankVerifications)
+      .where(and(eq(bankVerifications.id, verificationId), eq(bankVerifications.userId, userId)))
+      .get();
+
+    if (!verification) {
+      throw new BankVerificationNotFoundError(verificationId);
+    }
+    if (verification.status !== "pending") {
+      throw new BankVerificationClosedError(verification);
+    }
+
+    const expected = [verification.firstAmount, verification.secondAmount].sort((a, b) => a - b);
+    const given = [...amountsCents].sort((a, b) => a - b);
+    const attempts = verification.attempts + 1;
+
+    if (expected[0] === given[0] && expected[1] === given[1]) {
+      const updated = tx
+        .update(bankVerifications)
+        .set({ attempts, status: "verified", verifiedAt: now.toISOString() })
+        .where(eq(bankVerifications.id, verification.id))
+        .returning()
+        .get();
+      return { verified: true, verification: updated };
+    }
+
+    const updated = tx
+      .update(bankVerifications)
+      .set({ attempts, status: attempts >= MAX_VERIFICATION_ATTEMPTS ? "failed" : "pending" })
+      .where(eq(bankVerifications.id, verification.id))
+      .returning()
+      .get();
+    return { verified: false, attemptsRemaining: MAX_VERIFICATION_ATTEMPTS - attempts, verification: updated };
+  });
+}
+
+/**
+ * Fails a pending verification whose micro-deposits could not be delivered (returned by the receiving
+ * bank), so the user is asked to start over instead of waiting for amounts that never arrive. Returns
+ * whether the verification was still pending.
+ */
+export function failBankVerification(executor: DbExecutor, verificationId: number): boolean {
+  return (
+    executor
+      .update(bankVerifications)
+      .set({ status: "failed" })
+      .where(and(eq(bankVerifications.id, verificationId), eq(bankVerifications.status, "pending")))
+      .run().changes > 0
+  );
+}
@@ -0,0 +1,56 @@
+import { eq } from "drizzle-orm";
+import { amlAlerts } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+
+/** Currency Transaction Report threshold. Stored in cents. */
+export const CTR_THRESHOLD_CENTS = 10_000_00;
+
+/** Case lifecycle: open -> investigating -> filed (a CTR/SAR was submitted) or dismissed. */
+export const AML_ALERT_STATUSES = ["open", "investigating", "filed", "dismissed"] as const;
+
+export type AmlAlertStatus = (typeof AML_ALERT_STATUSES)[number];
+
+/** Statuses of a case that was closed; any other case is still being worked. */
+export const CLOSED_AML_ALERT_STATUSES: readonly AmlAlertStatus[] = ["filed", "dismissed"];
+
+export type AmlAlertType = "large_deposit" | "structuring";
+
+export type AmlAlertRecord = typeof amlAlerts.$inferSelect;
+
+export class AmlAlertNotFoundError extends Error {
+  constructor(id: number) {
+    super(`AML alert ${id} does not exist`);
+    this.name = "AmlAlertNotFoundError";
+  }
+}
+
+export function isAmlAlertStatus(value: string): value is AmlAlertStatus {
+  return (AML_ALERT_STATUSES as readonly string[]).includes(value);
+}
+
+export function isAmlAlertClosed(status: string): boolean {
+  return (CLOSED_AML_ALERT_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Moves an alert's case to a new status, optionally replacing the investigator's note.
+ */
+export function updateAmlAlertStatus(
+  executor: DbExecutor,
+  id: number,
+  status: AmlAlertStatus,
+  note?: string,
+  now = new Date()
+): AmlAlertRecord {
+  const updated = executor
+    .update(amlAlerts)
+    .set({ status, updatedAt: now.toISOString(), ...(note === undefined ? {} : { note }) })
+    .where(eq(amlAlerts.id, id))
+    .returning()
+    .get();
+
+  if (!updated) {
+    throw new AmlAlertNotFoundError(id);
+  }
+  return updated;
+}
@@ -0,0 +1,90 @@
+// CSV layout loosely following the FinCEN CTR: who conducted the transactions, on which accounts, and
+// how much. Only the last four SSN digits are included; the filer looks up the full TIN when filing.
+
+export type CtrReportRow = {
+  alertId: number;
+  alertType: string;
+  status: string;
+  detectedAt: string;
+  customerId: number;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  ssnLast4: string;
+  accountNumbers: string[];
+  transactionIds: number[];
+  amountCents: number;
+  windowStart: string;
+  windowEnd: string;
+};
+
+const COLUMNS = [
+  "alert_id",
+  "alert_type",
+  "case_status",
+  "detected_at",
+  "customer_id",
+  "last_name",
+  "first_name",
+  "date_of_birth",
+  "address",
+  "city",
+  "state",
+  "zip_code",
+  "ssn_last4",
+  "account_numbers",
+  "transaction_count",
+  "transaction_ids",
+  "total_amount",
+  "first_transaction_at",
+  "last_transaction_at",
+];
+
+// Whole-cent integer formatting, so the report never goes through floating point.
+export function formatCents(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const absolute = Math.abs(cents);
+  return `${sign}${Math.floor(absolute / 100)}.${String(absolute % 100).padStart(2, "0")}`;
+}
+
+// Spreadsheets run a cell that starts with one of these as a formula, so such text gets a leading quote.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string | number): string {
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCtrReport(rows: CtrReportRow[]): string {
+  const lines = rows.map((row) =>
+    [
+      row.alertId,
+      row.alertType,
+      row.status,
+      row.detectedAt,
+      row.customerId,
+      row.lastName,
+      row.firstName,
+      row.dateOfBirth,
+      row.address,
+      row.city,
+      row.state,
+      row.zipCode,
+      row.ssnLast4,
+      row.accountNumbers.join(" "),
+      row.transactionIds.length,
+      row.transactionIds.join(" "),
+      formatCents(row.amountCents),
+      row.windowStart,
+      row.windowEnd,
+    ]
+      .map(escapeCsv)
+      .join(",")
+  );
+
+  return [COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
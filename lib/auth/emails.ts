@@ -0,0 +1,51 @@
+import { getMailConfig, type MailMessage } from "@/lib/mail";
+import { LOGIN_THROTTLE_POLICIES } from "./login-throttle";
+import { PASSWORD_RESET_TTL_MS } from "./password-reset";
+
+export function buildUnlockEmail(to: string, token: string): MailMessage {
+  const link = `${getMailConfig().appUrl}/unlock-account?token=${encodeURIComponent(token)}`;
+  const minutes = LOGIN_THROTTLE_POLICIES.account.lockoutMs / 60000;
+
+  return {
+    to,
+    subject: "Your SecureBank sign-in has been locked",
+    text: [
+      "We locked sign-in to your SecureBank account after too many failed attempts.",
+      "",
+      `If this was you, unlock it here: ${link}`,
+      "",
+      `The link works once and expires in ${minutes} minutes, when the lock lifts on its own.`,
+      "If it was not you, nobody has signed in, but you may want to change your password.",
+    ].join("\n"),
+  };
+}
+
+export function buildPasswordResetEmail(to: string, token: string): MailMessage {
+  const link = `${getMailConfig().appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  const minutes = PASSWORD_RESET_TTL_MS / 60000;
+
+  return {
+    to,
+    subject: "Reset your SecureBank password",
+    text: [
+      "Someone asked to reset the password of your SecureBank account.",
+      "",
+      `If this was you, choose a new password here: ${link}`,
+      "",
+      `The link works once and expires in ${minutes} minutes.`,
+      "If it was not you, ignore this email; your password has not changed.",
+    ].join("\n"),
+  };
+}
+
+export function buildPasswordChangedEmail(to: string): MailMessage {
+  return {
+    to,
+    subject: "Your SecureBank password was changed",
+    text: [
+      "The password of your SecureBank account was just reset, and every device was signed out.",
+      "",
+      `If this was not you, contact us right away and reset it again: ${getMailConfig().appUrl}/forgot-password`,
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,7 @@
+export * from "./emails";
+export * from "./login-throttle";
+export * from "./password-reset";
+export * from "./session-policy";
+export * from "./sessions";
+export * from "./totp";
+export * from "./two-factor";
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import {
+  LOGIN_FAILURE_WINDOW_MS,
+  LOGIN_THROTTLE_POLICIES,
+  LoginThrottledError,
+  assertLoginAllowed,
+  issueUnlockToken,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockLogin,
+  unlockWithToken,
+} from './login-throttle';
+
+const SECOND = 1000;
+const { account } = LOGIN_THROTTLE_POLICIES;
+
+describe('login throttling', () => {
+  const start = new Date();
+  const at = (ms: number) => new Date(start.getTime() + ms);
+  const newIp = () => `198.51.${crypto.randomInt(256)}.${crypto.randomInt(1, 255)}`;
+  const newAttempt = (ipAddress: string | null = newIp()) => ({ email: `${crypto.randomUUID()}@example.com`, ipAddress });
+
+  const fail = (attempt: ReturnType<typeof newAttempt>, times: number, now = start) => {
+    let result = { accountLocked: false };
+    for (let i = 0; i < times; i++) {
+      result = recordLoginFailure(db, attempt, now);
+    }
+    return result;
+  };
+  const throttleOf = (attempt: ReturnType<typeof newAttempt>, now: Date) => {
+    try {
+      assertLoginAllowed(db, attempt, now);
+      return null;
+    } catch (error) {
+      return error as LoginThrottledError;
+    }
+  };
+
+  it('should back off exponentially once the free attempts are used up', () => {
+    const attempt = newAttempt();
+
+    fail(attempt, account.freeAttempts - 1);
+    expect(throttleOf(attempt, start)).toBeNull();
+
+    fail(attempt, 1);
+    expect(throttleOf(attempt, start)?.retryAfterMs).toBe(1 * SECOND);
+    expect(throttleOf(attempt, at(1 * SECOND))).toBeNull();
+
+    fail(attempt, 2);
+    expect(throttleOf(attempt, start)).toMatchObject({ retryAfterMs: 4 * SECOND, locked: false });
+    expect(throttleOf(attempt, start)?.message).toBe('Too many failed sign-in attempts. Try again in 4 second(s).');
+  });
+
+  it('should treat the email case-insensitively', () => {
+    const attempt = newAttempt();
+    fail(attempt, account.freeAttempts);
+
+    expect(throttleOf({ ...attempt, email: attempt.email.toUpperCase() }, start)).not.toBeNull();
+  });
+
+  it('should lock the account after too many failures until the lockout passes', () => {
+    const attempt = newAttempt();
+
+    expect(fail(attempt, account.lockAfter - 1).accountLocked).toBe(false);
+    expect(fail(attempt, 1).accountLocked).toBe(true);
+
+    expect(throttleOf(attempt, at(account.lockoutMs - SECOND))).toMatchObject({ locked: true, retryAfterMs: SECOND });
+    expect(throttleOf(attempt, at(account.lockoutMs))).toBeNull();
+
+    // After the lockout the count starts over.
+    fail(attempt, 1, at(account.lockoutMs));
+    expect(throttleOf(attempt, at(account.lockoutMs))).toBeNull();
+  });
+
+  it('should forget failures outside the window', () => {
+    const attempt = newAttempt();
+    fail(attempt, account.freeAttempts + 2);
+
+    fail(attempt, 1, at(LOGIN_FAILURE_WINDOW_MS + 10 * SECOND));
+    expect(throttleOf(attempt, at(LOGIN_FAILURE_WINDOW_MS + 10 * SECOND))).toBeNull();
+  });
+
+  it('should throttle an IP guessing across many accounts and keep counting after a success', () => {
+    const ipAddress = `203.0.113.${crypto.randomInt(1, 255)}`;
+    const { freeAttempts } = LOGIN_THROTTLE_POLICIES.ip;
+
+    for (let i = 0; i < freeAttempts; i++) {
+      fail(newAttempt(ipAddress), 1);
+    }
+    const fresh = newAttempt(ipAddress);
+    recordLoginSuccess(db, fresh.email);
+
+    expect(throttleOf(fresh, start)?.retryAfterMs).toBe(SECOND);
+    expect(throttleOf(newAttempt(), start)).toBeNull();
+  });
+
+  it('should only throttle the account when the IP is unknown', () => {
+    const { lockAfter } = LOGIN_THROTTLE_POLICIES.ip;
+
+    for (let i = 0; i < lockAfter; i++) {
+      fail(newAttempt(null), 1);
+    }
+
+    expect(throttleOf(newAttempt(null), start)).toBeNull();
+  });
+
+  it('should clear the account on success', () => {
+    const attempt = newAttempt();
+    fail(attempt, account.freeAttempts);
+
+    recordLoginSuccess(db, attempt.email);
+    expect(throttleOf(attempt, start)).toBeNull();
+  });
+
+  it('should unlock with the latest emailed token, once, while the lock lasts', () => {
+    const attempt = newAttempt();
+    fail(attempt, account.lockAfter);
+    const stale = issueUnlockToken(db, attempt.email);
+    const token = issueUnlockToken(db, attempt.email);
+
+    expect(unlockWithToken(db, stale, start)).toBe(false);
+    expect(unlockWithToken(db, token, at(account.lockoutMs))).toBe(false);
+    expect(unlockWithToken(db, token, start)).toBe(true);
+    expect(throttleOf(attempt, start)).toBeNull();
+    expect(unlockWithToken(db, token, start)).toBe(false);
+  });
+
+  it('should let support clear a lockout', () => {
+    const attempt = newAttempt();
+    fail(attempt, account.lockAfter);
+
+    expect(unlockLogin(db, attempt.email)).toBe(true);
+    expect(throttleOf(attempt, start)).toBeNull();
+    expect(unlockLogin(db, attempt.email)).toBe(false);
+  });
+});
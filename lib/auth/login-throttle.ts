@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import { and, eq, gt } from "drizzle-orm";
+import { loginThrottles } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+
+export type ThrottleScope = "account" | "ip";
+
+export type ThrottlePolicy = {
+  /** Failures allowed before each further attempt has to wait. */
+  freeAttempts: number;
+  /** Failures that lock sign-in out entirely for lockoutMs. */
+  lockAfter: number;
+  lockoutMs: number;
+};
+
+export const LOGIN_THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, lockAfter: 10, lockoutMs: 30 * 60 * 1000 },
+  // Everybody behind the same NAT shares an IP, so it takes many more failures to throttle one.
+  ip: { freeAttempts: 20, lockAfter: 100, lockoutMs: 30 * 60 * 1000 },
+};
+
+/** Failures older than this are forgotten. */
+export const LOGIN_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+// The wait after the first throttled failure, doubling with every further one up to the cap.
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+/** Who is trying to sign in. Unknown emails are tracked exactly like real ones. */
+export type LoginAttempt = { email: string; ipAddress: string | null };
+
+export class LoginThrottledError extends Error {
+  constructor(
+    public readonly retryAfterMs: number,
+    public readonly locked: boolean
+  ) {
+    const wait = retryAfterMs >= 60 * 1000 ? `${Math.ceil(retryAfterMs / 60000)} minute(s)` : `${Math.ceil(retryAfterMs / 1000)} second(s)`;
+    super(
+      locked
+        ? `Sign-in is locked after too many failed attempts. Try again in ${wait}, or use the unlock link sent to the account's email address.`
+        : `Too many failed sign-in attempts. Try again in ${wait}.`
+    );
+    this.name = "LoginThrottledError";
+  }
+}
+
+type ThrottleRecord = typeof loginThrottles.$inferSelect;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+const hashUnlockToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Without a known IP only the account is throttled: pooling every such attempt under one key would let
+// one guesser lock everybody out.
+function keysFor(attempt: LoginAttempt): [ThrottleScope, string][] {
+  const keys: [ThrottleScope, string][] = [["account", normalizeEmail(attempt.email)]];
+  if (attempt.ipAddress) {
+    keys.push(["ip", attempt.ipAddress]);
+  }
+  return keys;
+}
+
+function getThrottle(executor: DbExecutor, scope: ThrottleScope, key: string) {
+  return executor
+    .select()
+    .from(loginThrottles)
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+    .get();
+}
+
+// A throttle starts over once its lockout has passed or its last failure is outside the window.
+function hasLapsed(throttle: ThrottleRecord, now: Date) {
+  if (throttle.lockedUntil) {
+    return new Date(throttle.lockedUntil) <= now;
+  }
+  return !throttle.lastFailureAt || new Date(throttle.lastFailureAt).getTime() + LOGIN_FAILURE_WINDOW_MS <= now.getTime();
+}
+
+function retryAfter(throttle: ThrottleRecord, policy: ThrottlePolicy, now: Date) {
+  if (hasLapsed(throttle, now)) {
+    return 0;
+  }
+  if (throttle.lockedUntil) {
+    return new Date(throttle.lockedUntil).getTime() - now.getTime();
+  }
+  if (throttle.failures < policy.freeAttempts) {
+    return 0;
+  }
+
+  const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (throttle.failures - policy.freeAttempts), BACKOFF_MAX_MS);
+  return Math.max(0, new Date(throttle.lastFailureAt!).getTime() + backoff - now.getTime());
+}
+
+/**
+ * Rejects a sign-in attempt while the account or the client IP is backing off or locked out. Called
+ * before the password is checked, so a locked account cannot be probed with the right password.
+ */
+export function assertLoginAllowed(executor: DbExecutor, attempt: LoginAttempt, now = new Date()) {
+  let wait = 0;
+  let locked = false;
+
+  for (const [scope, key] of keysFor(attempt)) {
+    const throttle = getThrottle(executor, scope, key);
+    const scopeWait = throttle ? retryAfter(throttle, LOGIN_THROTTLE_POLICIES[scope], now) : 0;
+    if (scopeWait > wait) {
+      wait = scopeWait;
+      locked = Boolean(throttle?.lockedUntil);
+    }
+  }
+
+  if (wait > 0) {
+    throw new LoginThrottledError(wait, locked);
+  }
+}
+
+/**
+ * Counts a failed sign-in (wrong password, unknown email or wrong 2FA code) against the account and IP.
+ *
+ * @returns Whether this failure locked the account
+ */
+export function recordLoginFailure(executor: DbExecutor, attempt: LoginAttempt, now = new Date()): { accountLocked: boolean } {
+  return executor.transaction((tx) => {
+    let accountLocked = false;
+
+    for (const [scope, key] of keysFor(attempt)) {
+      const policy = LOGIN_THROTTLE_POLICIES[scope];
+      const throttle = getThrottle(tx, scope, key);
+      const failures = !throttle || hasLapsed(throttle, now) ? 1 : throttle.failures + 1;
+      const lockedUntil =
+        failures >= policy.lockAfter ? new Date(now.getTime() + policy.lockoutMs).toISOString() : null;
+      const values = { failures, lastFailureAt: now.toISOString(), lockedUntil, unlockTokenHash: null };
+
+      tx.insert(loginThrottles)
+        .values({ scope, key, ...values })
+        .onConflictDoUpdate({ target: [loginThrottles.scope, loginThrottles.key], set: values })
+        .run();
+
+      if (scope === "account" && lockedUntil) {
+        accountLocked = true;
+      }
+    }
+    return { accountLocked };
+  });
+}
+
+/**
+ * Clears the account's failures after a complete sign-in. The IP keeps its count, so one working
+ * account cannot be used to reset an IP that is guessing at others.
+ */
+export function recordLoginSuccess(executor: DbExecutor, email: string) {
+  unlockLogin(executor, email);
+}
+
+/**
+ * Creates the token for the "unlock your account" email of a locked account. Only the latest token works.
+ */
+export function issueUnlockToken(executor: DbExecutor, email: string): string {
+  const token = crypto.randomBytes(32).toString("base64url");
+  executor
+    .update(loginThrottles)
+    .set({ unlockTokenHash: hashUnlockToken(token) })
+    .where(and(eq(loginThrottles.scope, "account"), eq(loginThrottles.key, normalizeEmail(email))))
+    .run();
+  return token;
+}
+
+/**
+ * Lifts an account lockout with the token from the unlock email. The token is single-use and only
+ * valid while the lockout lasts.
+ *
+ * @returns Whether an account was unlocked
+ */
+export function unlockWithToken(executor: DbExecutor, token: string, now = new Date()): boolean {
+  return (
+    executor
+      .delete(loginThrottles)
+      .where(
+        and(
+          eq(loginThrottles.scope, "account"),
+          eq(loginThrottles.unlockTokenHash, hashUnlockToken(token)),
+          gt(loginThrottles.lockedUntil, now.toISOString())
+        )
+      )
+      .run().changes > 0
+  );
+}
+
+/**
+ * Clears the account's failures and any lockout (admin unlock).
+ *
+ * @returns Whether there was anything to clear
+ */
+export function unlockLogin(executor: DbExecutor, email: string): boolean {
+  return (
+    executor
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, "account"), eq(loginThrottles.key, normalizeEmail(email))))
+      .run().changes > 0
+  );
+}
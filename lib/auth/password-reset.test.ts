@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { sessions, users } from '@/lib/db/schema';
+import { encryptSSN } from '@/lib/encryption';
+import { createTestUserData } from '@/server/test-utils';
+import { LOGIN_THROTTLE_POLICIES, assertLoginAllowed, recordLoginFailure } from './login-throttle';
+import {
+  PASSWORD_RESET_RESEND_COOLDOWN_MS,
+  PASSWORD_RESET_TTL_MS,
+  PasswordResetTokenInvalidError,
+  createPasswordResetToken,
+  resetPasswordWithToken,
+} from './password-reset';
+import { createSession } from './sessions';
+
+describe('password reset', () => {
+  const start = new Date();
+  const at = (ms: number) => new Date(start.getTime() + ms);
+
+  const createUser = () => {
+    const data = createTestUserData();
+    return db.insert(users).values({ ...data, ssn: encryptSSN(data.ssn) }).returning().get();
+  };
+
+  it('should set the password once per token and sign out every session', () => {
+    const user = createUser();
+    createSession(db, user.id, { userAgent: 'phone', ipAddress: null }, start);
+    createSession(db, user.id, { userAgent: 'laptop', ipAddress: null }, start);
+    const { token } = createPasswordResetToken(db, user.id, start)!;
+
+    expect(resetPasswordWithToken(db, token, 'new-hash', at(1000)).id).toBe(user.id);
+
+    expect(db.select().from(users).where(eq(users.id, user.id)).get()?.password).toBe('new-hash');
+    expect(db.select().from(sessions).where(eq(sessions.userId, user.id)).all()).toEqual([]);
+    expect(() => resetPasswordWithToken(db, token, 'other-hash', at(2000))).toThrow(PasswordResetTokenInvalidError);
+  });
+
+  it('should reject expired tokens and tokens replaced by a newer email', () => {
+    const user = createUser();
+    const first = createPasswordResetToken(db, user.id, start)!;
+
+    expect(createPasswordResetToken(db, user.id, at(PASSWORD_RESET_RESEND_COOLDOWN_MS - 1000))).toBeNull();
+    const second = createPasswordResetToken(db, user.id, at(PASSWORD_RESET_RESEND_COOLDOWN_MS))!;
+
+    expect(() => resetPasswordWithToken(db, first.token, 'new-hash', at(PASSWORD_RESET_RESEND_COOLDOWN_MS))).toThrow(
+      PasswordResetTokenInvalidError
+    );
+    expect(() =>
+      resetPasswordWithToken(db, second.token, 'new-hash', at(PASSWORD_RESET_RESEND_COOLDOWN_MS + PASSWORD_RESET_TTL_MS))
+    ).toThrow(PasswordResetTokenInvalidError);
+  });
+
+  it('should lift a sign-in lockout', () => {
+    const user = createUser();
+    for (let i = 0; i < LOGIN_THROTTLE_POLICIES.account.lockAfter; i++) {
+      recordLoginFailure(db, { email: user.email, ipAddress: '198.51.100.7' }, start);
+    }
+    const { token } = createPasswordResetToken(db, user.id, start)!;
+
+    resetPasswordWithToken(db, token, 'new-hash', start);
+
+    expect(() => assertLoginAllowed(db, { email: user.email, ipAddress: '198.51.100.7' }, start)).not.toThrow();
+  });
+});
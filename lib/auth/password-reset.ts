@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { passwordResetTokens, users } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { unlockLogin } from "./login-throttle";
+import { revokeAllSessions } from "./sessions";
+
+/** How long the link in a password reset email works. */
+export const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+
+/** Another reset email is not sent for the same account until this long after the last one. */
+export const PASSWORD_RESET_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export class PasswordResetTokenInvalidError extends Error {
+  constructor() {
+    super("This password reset link is invalid or has expired");
+    this.name = "PasswordResetTokenInvalidError";
+  }
+}
+
+const hashResetToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Creates the token for a password reset email. Earlier unused tokens of the user stop working.
+ *
+ * @returns The token for the link (only its hash is stored), or null when a reset email went out
+ * within PASSWORD_RESET_RESEND_COOLDOWN_MS
+ */
+export function createPasswordResetToken(executor: DbExecutor, userId: number, now = new Date()) {
+  return executor.transaction((tx) => {
+    const latest = tx
+      .select({ createdAt: passwordResetTokens.createdAt })
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.id))
+      .get();
+    if (latest?.createdAt && now.getTime() - new Date(latest.createdAt).getTime() < PASSWORD_RESET_RESEND_COOLDOWN_MS) {
+      return null;
+    }
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_MS).toISOString();
+
+    tx.delete(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)))
+      .run();
+    tx.insert(passwordResetTokens)
+      .values({ userId, tokenHash: hashResetToken(token), expiresAt, createdAt: now.toISOString() })
+      .run();
+    return { token, expiresAt };
+  });
+}
+
+/**
+ * Sets a new password with the token from a reset email. The token is used up, every session of the
+ * user is signed out, and a sign-in lockout is lifted, since the user has just proven they own the
+ * account's email address.
+ *
+ * @param passwordHash bcrypt hash of the new password
+ * @returns The user whose password was reset
+ */
+export function resetPasswordWithToken(executor: DbExecutor, token: string, passwordHash: string, now = new Date()) {
+  return executor.transaction((tx) => {
+    const stored = tx
+      .select()
+      .from(passwordResetTokens)
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, hashResetToken(token)),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now.toISOString())
+        )
+      )
+      .get();
+    if (!stored) {
+      throw new PasswordResetTokenInvalidError();
+    }
+
+    tx.update(passwordResetTokens).set({ usedAt: now.toISOString() }).where(eq(passwordResetTokens.id, stored.id)).run();
+    const user = tx.update(users).set({ password: passwordHash }).where(eq(users.id, stored.userId)).returning().get();
+    revokeAllSessions(tx, user.id);
+    unlockLogin(tx, user.email);
+    return user;
+  });
+}
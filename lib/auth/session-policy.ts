@@ -0,0 +1,36 @@
+// Session lifetimes. Access tokens are short-lived and renewed with the refresh token while the user
+// is active; the idle timeout ends sessions nobody has used for a while, and the absolute timeout
+// ends every session eventually however active it is.
+export type SessionPolicy = {
+  accessTtlMs: number;
+  idleTimeoutMs: number;
+  absoluteTimeoutMs: number;
+  /** Access tokens with less than this left are renewed on the next request. */
+  renewWithinMs: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function readMinutes(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback * MINUTE_MS;
+  }
+
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(`${name} must be a positive number of minutes`);
+  }
+  return minutes * MINUTE_MS;
+}
+
+export function getSessionPolicy(): SessionPolicy {
+  const accessTtlMs = readMinutes("SESSION_ACCESS_TTL_MINUTES", 15);
+
+  return {
+    accessTtlMs,
+    idleTimeoutMs: readMinutes("SESSION_IDLE_TIMEOUT_MINUTES", 30),
+    absoluteTimeoutMs: readMinutes("SESSION_ABSOLUTE_TIMEOUT_MINUTES", 7 * 24 * 60),
+    renewWithinMs: Math.floor(accessTtlMs / 3),
+  };
+}
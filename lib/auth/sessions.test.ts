@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { refreshTokens, sessions, users } from '@/lib/db/schema';
+import { encryptSSN } from '@/lib/encryption';
+import { createTestUserData } from '@/server/test-utils';
+import { getSessionPolicy } from './session-policy';
+import { REFRESH_REUSE_GRACE_MS, authenticateSession, createSession, rotateRefreshToken } from './sessions';
+
+const MINUTE = 60 * 1000;
+const client = { userAgent: 'test', ipAddress: '127.0.0.1' };
+
+describe('sessions', () => {
+  const start = new Date();
+  const at = (minutes: number) => new Date(start.getTime() + minutes * MINUTE);
+
+  const signIn = () => {
+    const data = createTestUserData();
+    const userId = db.insert(users).values({ ...data, ssn: encryptSSN(data.ssn) }).returning().get().id;
+    return createSession(db, userId, client, start);
+  };
+
+  const sessionExists = (sessionId: number) =>
+    db.select({ id: sessions.id }).from(sessions).where(eq(sessions.id, sessionId)).get() !== undefined;
+
+  afterEach(() => {
+    delete process.env.SESSION_IDLE_TIMEOUT_MINUTES;
+    delete process.env.SESSION_ABSOLUTE_TIMEOUT_MINUTES;
+  });
+
+  it('should issue a short-lived access token and store only a hash of the refresh token', () => {
+    const issued = signIn();
+
+    expect(issued.accessExpiresAt).toEqual(at(15));
+    expect(issued.absoluteExpiresAt).toEqual(at(7 * 24 * 60));
+    const stored = db.select().from(refreshTokens).where(eq(refreshTokens.sessionId, issued.sessionId)).all();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].tokenHash).not.toBe(issued.refreshToken);
+
+    expect(authenticateSession(db, { accessToken: issued.accessToken, refreshToken: issued.refreshToken }, at(1)).session).toEqual({
+      sessionId: issued.sessionId,
+      userId: issued.userId,
+      renewed: null,
+    });
+    expect(authenticateSession(db, { accessToken: issued.accessToken }, at(16)).session).toBeNull();
+  });
+
+  it('should renew access tokens near expiry and rotate the refresh token', () => {
+    const issued = signIn();
+
+    const result = authenticateSession(db, { accessToken: issued.accessToken, refreshToken: issued.refreshToken }, at(12)).session;
+    const renewed = result!.renewed!;
+    expect(renewed.sessionId).toBe(issued.sessionId);
+    expect(renewed.accessExpiresAt).toEqual(at(27));
+    expect(renewed.refreshToken).not.toBe(issued.refreshToken);
+
+    // The old access token is replaced; the new one works on its own.
+    expect(authenticateSession(db, { accessToken: issued.accessToken }, at(13)).session).toBeNull();
+    expect(authenticateSession(db, { accessToken: renewed.accessToken }, at(13)).session?.sessionId).toBe(issued.sessionId);
+
+    // Once the access token has lapsed, the refresh token alone restores the session.
+    const later = authenticateSession(db, { refreshToken: renewed.refreshToken }, at(35)).session;
+    expect(later?.renewed?.accessExpiresAt).toEqual(at(50));
+  });
+
+  it('should revoke the whole session when a used refresh token is replayed', () => {
+    const issued = signIn();
+    const renewed = rotateRefreshToken(db, issued.refreshToken, at(14)).renewed!;
+
+    // A concurrent request from the same browser right after the rotation is only turned away.
+    expect(rotateRefreshToken(db, issued.refreshToken, new Date(at(14).getTime() + REFRESH_REUSE_GRACE_MS))).toEqual({
+      renewed: null,
+      revokedSessionId: null,
+    });
+    expect(sessionExists(issued.sessionId)).toBe(true);
+
+    // Past the grace period the replay revokes the session and is reported to the caller.
+    expect(authenticateSession(db, { refreshToken: issued.refreshToken }, at(15))).toEqual({
+      session: null,
+      revokedSessionId: issued.sessionId,
+    });
+    expect(sessionExists(issued.sessionId)).toBe(false);
+    expect(db.select().from(refreshTokens).where(eq(refreshTokens.sessionId, issued.sessionId)).all()).toEqual([]);
+    expect(authenticateSession(db, { accessToken: renewed.accessToken, refreshToken: renewed.refreshToken }, at(16)).session).toBeNull();
+  });
+
+  it('should end sessions after the idle timeout', () => {
+    const issued = signIn();
+
+    expect(authenticateSession(db, { refreshToken: issued.refreshToken }, at(30)).session).toBeNull();
+    expect(sessionExists(issued.sessionId)).toBe(true);
+  });
+
+  it('should not renew past the absolute timeout', () => {
+    process.env.SESSION_ABSOLUTE_TIMEOUT_MINUTES = '40';
+    process.env.SESSION_IDLE_TIMEOUT_MINUTES = '20';
+    let tokens = signIn();
+
+    for (const minute of [14, 28]) {
+      const result = authenticateSession(db, { refreshToken: tokens.refreshToken }, at(minute)).session;
+      tokens = result!.renewed!;
+    }
+    expect(tokens.accessExpiresAt).toEqual(at(40));
+    expect(authenticateSession(db, { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }, at(40)).session).toBeNull();
+  });
+
+  it('should read timeouts from the environment', () => {
+    process.env.SESSION_IDLE_TIMEOUT_MINUTES = '5';
+    expect(getSessionPolicy()).toMatchObject({ accessTtlMs: 15 * MINUTE, idleTimeoutMs: 5 * MINUTE, renewWithinMs: 5 * MINUTE });
+
+    process.env.SESSION_IDLE_TIMEOUT_MINUTES = 'soon';
+    expect(() => getSessionPolicy()).toThrow('SESSION_IDLE_TIMEOUT_MINUTES must be a positive number of minutes');
+  });
+});
@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { and, desc, eq, gt, inArray, isNull, lt, ne, or, type SQL } from "drizzle-orm";
+import { refreshTokens, sessions } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { getSessionPolicy } from "./session-policy";
+
+/** last_seen_at is only rewritten when it is older than this, so most requests do not write. */
+export const SESSION_LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * A refresh token presented again this soon after it was rotated is taken to be a concurrent request
+ * from the same browser rather than a stolen token: the request is not renewed, but nothing is revoked.
+ */
+export const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+type SessionRecord = typeof sessions.$inferSelect;
+
+export type ClientInfo = { userAgent: string | null; ipAddress: string | null };
+
+export type IssuedSession = {
+  sessionId: number;
+  userId: number;
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: Date;
+  /** Renewals stop here; the user has to sign in again. */
+  absoluteExpiresAt: Date;
+};
+
+export type AuthenticatedSession = {
+  sessionId: number;
+  userId: number;
+  /** Set when the request renewed the session; the new tokens have to be sent back to the client. */
+  renewed: IssuedSession | null;
+};
+
+/** Set when a refresh token was replayed; the session it belonged to has been revoked. */
+type ReuseDetection = { revokedSessionId: number | null };
+
+export type RefreshTokenRotation = ReuseDetection & {
+  /** The new tokens, or null when the refresh token cannot be used. */
+  renewed: IssuedSession | null;
+};
+
+export type SessionAuthentication = ReuseDetection & {
+  session: AuthenticatedSession | null;
+};
+
+export class SessionNotFoundError extends Error {
+  constructor() {
+    super("Session not found");
+    this.name = "SessionNotFoundError";
+  }
+}
+
+const jwtSecret = () => process.env.JWT_SECRET || "temporary-secret-for-interview";
+const hashRefreshToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+function signAccessToken(userId: number, expiresAt: Date, now: Date) {
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  return jwt.sign({ userId, sessionId: crypto.randomUUID(), iat: issuedAt }, jwtSecret(), {
+    expiresIn: Math.max(1, Math.ceil(expiresAt.getTime() / 1000) - issuedAt),
+  });
+}
+
+// Access tokens never outlive the session itself.
+function accessExpiry(now: Date, absoluteExpiresAt: Date) {
+  return new Date(Math.min(now.getTime() + getSessionPolicy().accessTtlMs, absoluteExpiresAt.getTime()));
+}
+
+function isWithinTimeouts(session: SessionRecord, now: Date) {
+  if (session.absoluteExpiresAt && new Date(session.absoluteExpiresAt) <= now) {
+    return false;
+  }
+  if (session.lastSeenAt && new Date(session.lastSeenAt).getTime() + getSessionPolicy().idleTimeoutMs <= now.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+// Refresh tokens reference their session, so they have to go first.
+function deleteSessions(executor: DbExecutor, where: SQL | undefined): number {
+  const ids = executor
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(where)
+    .all()
+    .map((session) => session.id);
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  executor.delete(refreshTokens).where(inArray(refreshTokens.sessionId, ids)).run();
+  return executor.delete(sessions).where(inArray(sessions.id, ids)).run().changes;
+}
+
+/**
+ * Starts a session for a user who has just signed in.
+ */
+export function createSession(executor: DbExecutor, userId: number, client: ClientInfo, now = new Date()): IssuedSession {
+  const absoluteExpiresAt = new Date(now.getTime() + getSessionPolicy().absoluteTimeoutMs);
+  const accessExpiresAt = accessExpiry(now, absoluteExpiresAt);
+  const accessToken = signAccessToken(userId, accessExpiresAt, now);
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+
+  return executor.transaction((tx) => {
+    const session = tx
+      .insert(sessions)
+      .values({
+        userId,
+        token: accessToken,
+        expiresAt: accessExpiresAt.toISOString(),
+        absoluteExpiresAt: absoluteExpiresAt.toISOString(),
+        ...client,
+        lastSeenAt: now.toISOString(),
+      })
+      .returning()
+      .get();
+    tx.insert(refreshTokens).values({ sessionId: session.id, tokenHash: hashRefreshToken(refreshToken) }).run();
+
+    return { sessionId: session.id, userId, accessToken, refreshToken, accessExpiresAt, absoluteExpiresAt };
+  });
+}
+
+/**
+ * Swaps a refresh token for a new access token and refresh token. A refresh token that was already
+ * used is evidence that it leaked, so its whole session (every token descended from the same sign-in)
+ * is revoked and reported back for the caller to log.
+ */
+export function rotateRefreshToken(executor: DbExecutor, refreshToken: string, now = new Date()): RefreshTokenRotation {
+  return executor.transaction((tx) => {
+    const rejected = { renewed: null, revokedSessionId: null };
+    const stored = tx.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, hashRefreshToken(refreshToken))).get();
+    if (!stored) {
+      return rejected;
+    }
+
+    if (stored.usedAt) {
+      if (now.getTime() - new Date(stored.usedAt).getTime() > REFRESH_REUSE_GRACE_MS) {
+        deleteSessions(tx, eq(sessions.id, stored.sessionId));
+        return { renewed: null, revokedSessionId: stored.sessionId };
+      }
+      return rejected;
+    }
+
+    const session = tx.select().from(sessions).where(eq(sessions.id, stored.sessionId)).get();
+    if (!session?.absoluteExpiresAt || !isWithinTimeouts(session, now)) {
+      return rejected;
+    }
+
+    const absoluteExpiresAt = new Date(session.absoluteExpiresAt);
+    const accessExpiresAt = accessExpiry(now, absoluteExpiresAt);
+    const accessToken = signAccessToken(session.userId, accessExpiresAt, now);
+    const nextRefreshToken = crypto.randomBytes(32).toString("base64url");
+
+    tx.update(refreshTokens).set({ usedAt: now.toISOString() }).where(eq(refreshTokens.id, stored.id)).run();
+    tx.insert(refreshTokens).values({ sessionId: session.id, tokenHash: hashRefreshToken(nextRefreshToken) }).run();
+    tx.update(sessions)
+      .set({ token: accessToken, expiresAt: accessExpiresAt.toISOString(), lastSeenAt: now.toISOString() })
+      .where(eq(sessions.id, session.id))
+      .run();
+
+    return {
+      renewed: {
+        sessionId: session.id,
+        userId: session.userId,
+        accessToken,
+        refreshToken: nextRefreshToken,
+        accessExpiresAt,
+        absoluteExpiresAt,
+      },
+      revokedSessionId: null,
+    };
+  });
+}
+
+function findValidSession(executor: DbExecutor, accessToken: string, now: Date): SessionRecord | undefined {
+  try {
+    jwt.verify(accessToken, jwtSecret(), { clockTimestamp: Math.floor(now.getTime() / 1000) });
+  } catch {
+    return undefined;
+  }
+
+  const session = executor.select().from(sessions).where(eq(sessions.token, accessToken)).get();
+  return session && new Date(session.expiresAt) > now && isWithinTimeouts(session, now) ? session : undefined;
+}
+
+/**
+ * Resolves the session for a request from its access and refresh tokens. An access token close to
+ * expiry (or already expired) is renewed with the refresh token, so active users stay signed in until
+ * the idle or absolute timeout. A replayed refresh token revokes its session, which is reported in
+ * `revokedSessionId`.
+ */
+export function authenticateSession(
+  executor: DbExecutor,
+  tokens: { accessToken?: string; refreshToken?: string },
+  now = new Date()
+): SessionAuthentication {
+  const session = tokens.accessToken ? findValidSession(executor, tokens.accessToken, now) : undefined;
+  const renewWithinMs = getSessionPolicy().renewWithinMs;
+
+  if (session && (!tokens.refreshToken || new Date(session.expiresAt).getTime() - now.getTime() > renewWithinMs)) {
+    touchSession(executor, session.id, now);
+    return { session: { sessionId: session.id, userId: session.userId, renewed: null }, revokedSessionId: null };
+  }
+
+  const { renewed, revokedSessionId } = tokens.refreshToken
+    ? rotateRefreshToken(executor, tokens.refreshToken, now)
+    : { renewed: null, revokedSessionId: null };
+  if (renewed) {
+    return { session: { sessionId: renewed.sessionId, userId: renewed.userId, renewed }, revokedSessionId };
+  }
+
+  // The renewal can fail while the access token is still good for a little longer, unless it failed
+  // because the refresh token was replayed and the session is gone.
+  if (session && executor.select({ id: sessions.id }).from(sessions).where(eq(sessions.id, session.id)).get()) {
+    touchSession(executor, session.id, now);
+    return { session: { sessionId: session.id, userId: session.userId, renewed: null }, revokedSessionId };
+  }
+  return { session: null, revokedSessionId };
+}
+
+/**
+ * The user's unexpired sessions, most recently used first.
+ */
+export function listActiveSessions(executor: DbExecutor, userId: number, now = new Date()) {
+  const policy = getSessionPolicy();
+  const idleSince = new Date(now.getTime() - policy.idleTimeoutMs).toISOString();
+
+  return executor
+    .select({
+      id: sessions.id,
+      userAgent: sessions.userAgent,
+      ipAddress: sessions.ipAddress,
+      createdAt: sessions.createdAt,
+      lastSeenAt: sessions.lastSeenAt,
+      expiresAt: sessions.expiresAt,
+      absoluteExpiresAt: sessions.absoluteExpiresAt,
+    })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        // Renewable sessions count even when their access token has lapsed.
+        or(
+          gt(sessions.expiresAt, now.toISOString()),
+          and(gt(sessions.absoluteExpiresAt, now.toISOString()), gt(sessions.lastSeenAt, idleSince))
+        )
+      )
+    )
+    .orderBy(desc(sessions.lastSeenAt), desc(sessions.id))
+    .all();
+}
+
+/**
+ * Records that the session was used.
+ */
+export function touchSession(executor: DbExecutor, sessionId: number, now = new Date()) {
+  const staleBefore = new Date(now.getTime() - SESSION_LAST_SEEN_RESOLUTION_MS).toISOString();
+
+  executor
+    .update(sessions)
+    .set({ lastSeenAt: now.toISOString() })
+    .where(and(eq(sessions.id, sessionId), or(isNull(sessions.lastSeenAt), lt(sessions.lastSeenAt, staleBefore))))
+    .run();
+}
+
+/**
+ * Ends a session along with its refresh tokens (sign-out).
+ */
+export function endSession(executor: DbExecutor, sessionId: number) {
+  deleteSessions(executor, eq(sessions.id, sessionId));
+}
+
+/**
+ * Signs out one of the user's sessions. Sessions belonging to other users are reported as not found.
+ */
+export function revokeSession(executor: DbExecutor, userId: number, sessionId: number) {
+  if (deleteSessions(executor, and(eq(sessions.id, sessionId), eq(sessions.userId, userId))) === 0) {
+    throw new SessionNotFoundError();
+  }
+}
+
+/**
+ * Signs out every session of the user except `keepSessionId`.
+ *
+ * @returns How many sessions were removed
+ */
+export function revokeOtherSessions(executor: DbExecutor, userId: number, keepSessionId: number): number {
+  return deleteSessions(executor, and(eq(sessions.userId, userId), ne(sessions.id, keepSessionId)));
+}
+
+/**
+ * Signs out every session of the user, e.g. after a password reset.
+ *
+ * @returns How many sessions were removed
+ */
+export function revokeAllSessions(executor: DbExecutor, userId: number): number {
+  return deleteSessions(executor, eq(sessions.userId, userId));
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildOtpauthUri, decodeBase32, encodeBase32, generateTotp, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B test key ("12345678901234567890") in base32.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    // The RFC lists 8-digit codes; 6-digit codes are their last six digits.
+    expect(generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, new Date(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should round-trip base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(encodeBase32(decodeBase32(secret))).toBe(secret);
+    expect(decodeBase32(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(() => decodeBase32('not base32!')).toThrow('Invalid base32 secret');
+  });
+
+  it('should accept codes one step either side and return their step', () => {
+    const now = new Date(1111111109 * 1000);
+    const step = Math.floor(1111111109 / 30);
+
+    expect(verifyTotp(RFC_SECRET, '081804', now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() - 30_000)), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() + 30_000)), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() + 90_000)), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '81804', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = new URL(buildOtpauthUri(RFC_SECRET, 'jane@example.com', 'SecureBank'));
+
+    expect(`${uri.protocol}//${uri.host}`).toBe('otpauth://totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/SecureBank:jane@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'SecureBank',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
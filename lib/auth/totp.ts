@@ -0,0 +1,108 @@
+import crypto from "crypto";
+
+// RFC 6238 time-based one-time passwords with the parameters every authenticator app supports:
+// HMAC-SHA1, 6 digits, 30-second steps.
+
+export const TOTP_DIGITS = 6;
+export const TOTP_STEP_SECONDS = 30;
+const SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function decodeBase32(value: string): Buffer {
+  const normalized = value.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let current = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    current = (current << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((current >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new random shared secret, base32-encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function getTimeStep(now = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+// RFC 4226 HOTP with dynamic truncation.
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotp(secret: string, now = new Date()): string {
+  return hotp(decodeBase32(secret), getTimeStep(now));
+}
+
+/**
+ * Checks a code against the current step and `window` steps either side, to allow for clock drift.
+ *
+ * @returns The time step the code belongs to, or null when it does not match
+ */
+export function verifyTotp(secret: string, code: string, now = new Date(), window = 1): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const key = decodeBase32(secret);
+  const current = getTimeStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI for enrolling an authenticator app, usually shown as a QR code.
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,253 @@
+import crypto from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { loginChallenges, recoveryCodes, twoFactorCredentials } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { decryptField, encryptField, fingerprintField } from "@/lib/encryption";
+import { buildOtpauthUri, encodeBase32, generateTotpSecret, verifyTotp } from "./totp";
+
+/** Issuer shown in authenticator apps. */
+export const TOTP_ISSUER = "SecureBank";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** How long the second login step may take after the password was accepted. */
+export const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/** Wrong codes allowed per login challenge before the user has to enter their password again. */
+export const MAX_LOGIN_CHALLENGE_ATTEMPTS = 5;
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+export type LoginChallengeResult =
+  | { verified: true; userId: number; method: SecondFactorMethod }
+  | { verified: false; userId: number; attemptsRemaining: number };
+
+export class TwoFactorAlreadyEnabledError extends Error {
+  constructor() {
+    super("Two-factor authentication is already enabled");
+    this.name = "TwoFactorAlreadyEnabledError";
+  }
+}
+
+export class TwoFactorNotEnabledError extends Error {
+  constructor(message = "Two-factor authentication is not enabled") {
+    super(message);
+    this.name = "TwoFactorNotEnabledError";
+  }
+}
+
+export class InvalidTwoFactorCodeError extends Error {
+  constructor() {
+    super("Invalid authentication code");
+    this.name = "InvalidTwoFactorCodeError";
+  }
+}
+
+export class LoginChallengeInvalidError extends Error {
+  constructor() {
+    super("This sign-in attempt has expired. Please sign in again.");
+    this.name = "LoginChallengeInvalidError";
+  }
+}
+
+const hashChallengeToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Recovery codes are shown as "abcde-fghij"; case, spaces and dashes do not matter when typed back.
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, "");
+const hashRecoveryCode = (code: string) => fingerprintField(`recovery:${normalizeRecoveryCode(code)}`);
+
+function getCredential(executor: DbExecutor, userId: number) {
+  return executor.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).get();
+}
+
+export function isTwoFactorEnabled(executor: DbExecutor, userId: number): boolean {
+  return Boolean(getCredential(executor, userId)?.enabledAt);
+}
+
+/**
+ * Creates a new TOTP secret for the user. It only takes effect once confirmed with a code from the
+ * authenticator app; starting over replaces an unconfirmed secret.
+ */
+export function startTotpEnrollment(executor: DbExecutor, userId: number, accountName: string) {
+  const existing = getCredential(executor, userId);
+  if (existing?.enabledAt) {
+    throw new TwoFactorAlreadyEnabledError();
+  }
+
+  const secret = generateTotpSecret();
+  const encrypted = encryptField(secret);
+  if (existing) {
+    executor.update(twoFactorCredentials).set({ secret: encrypted }).where(eq(twoFactorCredentials.id, existing.id)).run();
+  } else {
+    executor.insert(twoFactorCredentials).values({ userId, secret: encrypted }).run();
+  }
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, accountName, TOTP_ISSUER) };
+}
+
+function issueRecoveryCodes(executor: DbExecutor, userId: number): string[] {
+  executor.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId)).run();
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = encodeBase32(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  executor
+    .insert(recoveryCodes)
+    .values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })))
+    .run();
+  return codes;
+}
+
+/**
+ * Turns 2FA on once the user proves their authenticator produces valid codes.
+ *
+ * @returns The recovery codes. They are only stored hashed, so this is the one time they can be shown.
+ */
+export function confirmTotpEnrollment(executor: DbExecutor, userId: number, code: string, now = new Date()): string[] {
+  return executor.transaction((tx) => {
+    const credential = getCredential(tx, userId);
+    if (!credential) {
+      throw new TwoFactorNotEnabledError("Start two-factor enrollment first");
+    }
+    if (credential.enabledAt) {
+      throw new TwoFactorAlreadyEnabledError();
+    }
+
+    const step = verifyTotp(decryptField(credential.secret, "2FA secret"), code.trim(), now);
+    if (step === null) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    tx.update(twoFactorCredentials)
+      .set({ enabledAt: now.toISOString(), lastUsedStep: step })
+      .where(eq(twoFactorCredentials.id, credential.id))
+      .run();
+    return issueRecoveryCodes(tx, userId);
+  });
+}
+
+/**
+ * Checks a code from the authenticator app or an unused recovery code. A TOTP code is accepted once
+ * (a later step must be used next time); a recovery code is used up.
+ *
+ * @returns How the user proved it, or null when the code is wrong
+ */
+export function verifySecondFactor(
+  executor: DbExecutor,
+  userId: number,
+  code: string,
+  now = new Date()
+): SecondFactorMethod | null {
+  return executor.transaction((tx) => {
+    const credential = getCredential(tx, userId);
+    if (!credential?.enabledAt) {
+      throw new TwoFactorNotEnabledError();
+    }
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotp(decryptField(credential.secret, "2FA secret"), trimmed, now);
+      if (step === null || (credential.lastUsedStep !== null && step <= credential.lastUsedStep)) {
+        return null;
+      }
+      tx.update(twoFactorCredentials).set({ lastUsedStep: step }).where(eq(twoFactorCredentials.id, credential.id)).run();
+      return "totp";
+    }
+
+    const used = tx
+      .update(recoveryCodes)
+      .set({ usedAt: now.toISOString() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, hashRecoveryCode(trimmed)),
+          isNull(recoveryCodes.usedAt)
+        )
+      )
+      .returning()
+      .get();
+    return used ? "recovery_code" : null;
+  });
+}
+
+/**
+ * Replaces all of the user's recovery codes, used or not, with a fresh set. Callers must have
+ * re-authenticated the user first.
+ *
+ * @returns The new recovery codes, shown to the user this one time
+ */
+export function regenerateRecoveryCodes(executor: DbExecutor, userId: number): string[] {
+  return executor.transaction((tx) => {
+    if (!isTwoFactorEnabled(tx, userId)) {
+      throw new TwoFactorNotEnabledError();
+    }
+    return issueRecoveryCodes(tx, userId);
+  });
+}
+
+export function countUnusedRecoveryCodes(executor: DbExecutor, userId: number): number {
+  return executor
+    .select({ id: recoveryCodes.id })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)))
+    .all().length;
+}
+
+/**
+ * Removes the user's authenticator, recovery codes and any login waiting on a code. Callers must have
+ * re-authenticated the user first.
+ */
+export function disableTwoFactor(executor: DbExecutor, userId: number) {
+  executor.transaction((tx) => {
+    tx.delete(loginChallenges).where(eq(loginChallenges.userId, userId)).run();
+    tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId)).run();
+    tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).run();
+  });
+}
+
+/**
+ * Records that the user got their password right and still owes a second factor.
+ *
+ * @returns The challenge token for the client; only its hash is stored
+ */
+export function createLoginChallenge(executor: DbExecutor, userId: number, now = new Date()) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(now.getTime() + LOGIN_CHALLENGE_TTL_MS).toISOString();
+
+  executor.insert(loginChallenges).values({ userId, tokenHash: hashChallengeToken(token), expiresAt }).run();
+  return { token, expiresAt };
+}
+
+/**
+ * Exchanges a challenge token and a code for the user id to start a session for. The challenge is
+ * used up on success and after MAX_LOGIN_CHALLENGE_ATTEMPTS wrong codes.
+ */
+export function redeemLoginChallenge(
+  executor: DbExecutor,
+  token: string,
+  code: string,
+  now = new Date()
+): LoginChallengeResult {
+  return executor.transaction((tx) => {
+    const challenge = tx
+      .select()
+      .from(loginChallenges)
+      .where(and(eq(loginChallenges.tokenHash, hashChallengeToken(token)), isNull(loginChallenges.consumedAt)))
+      .get();
+
+    if (!challenge || new Date(challenge.expiresAt) <= now || challenge.attempts >= MAX_LOGIN_CHALLENGE_ATTEMPTS) {
+      throw new LoginChallengeInvalidError();
+    }
+
+    const method = verifySecondFactor(tx, challenge.userId, code, now);
+    if (method) {
+      tx.update(loginChallenges).set({ consumedAt: now.toISOString() }).where(eq(loginChallenges.id, challenge.id)).run();
+      return { verified: true, userId: challenge.userId, method };
+    }
+
+    const attempts = challenge.attempts + 1;
+    tx.update(loginChallenges).set({ attempts }).where(eq(loginChallenges.id, challenge.id)).run();
+    return { verified: false, userId: challenge.userId, attemptsRemaining: MAX_LOGIN_CHALLENGE_ATTEMPTS - attempts };
+  });
+}
@@ -10,22 +10,67 @@ export const db = drizzle(sqlite, { schema });
 // Track initialization state to make initDb() idempotent
 let isInitialized = false;
 
-const SCHEMA_VERSION = 1;
+// Each data migration bumps PRAGMA user_version to its own number once it has run.
+const CENTS_MIGRATION_VERSION = 1;
+const LEDGER_MIGRATION_VERSION = 2;
 
-function migrateBalancesToCents() {
-  const currentVersion = sqlite.pragma("user_version", { simple: true }) as number;
+function getSchemaVersion() {
+  return sqlite.pragma("user_version", { simple: true }) as number;
+}
 
-  if (currentVersion >= SCHEMA_VERSION) {
+function migrateBalancesToCents() {
+  if (getSchemaVersion() >= CENTS_MIGRATION_VERSION) {
     return;
   }
 
   sqlite.transaction(() => {
     sqlite.prepare(`UPDATE accounts SET balance = ROUND(balance * 100)`).run();
     sqlite.prepare(`UPDATE transactions SET amount = ROUND(amount * 100)`).run();
-    sqlite.pragma(`user_version = ${SCHEMA_VERSION}`);
+    sqlite.pragma(`user_version = ${CENTS_MIGRATION_VERSION}`);
+  })();
+}
+
+// Balances written before the ledger existed have no postings behind them. Record the
+// difference as an opening balance so every account balance equals the sum of its postings.
+function backfillOpeningBalances() {
+  if (getSchemaVersion() >= LEDGER_MIGRATION_VERSION) {
+    return;
+  }
+
+  sqlite.transaction(() => {
+    const drifted = sqlite
+      .prepare(
+        `SELECT a.id AS id, a.balance - COALESCE(SUM(p.amount), 0) AS delta
+         FROM accounts a LEFT JOIN postings p ON p.account_id = a.id
+         GROUP BY a.id
+         HAVING delta != 0`
+      )
+      .all() as { id: number; delta: number }[];
+
+    const insertEntry = sqlite.prepare(`INSERT INTO journal_entries (description) VALUES ('Opening balance')`);
+    const insertPosting = sqlite.prepare(
+      `INSERT INTO postings (journal_entry_id, account_id, system_account, amount) VALUES (?, ?, ?, ?)`
+    );
+
+    for (const { id, delta } of drifted) {
+      const entryId = insertEntry.run().lastInsertRowid;
+      insertPosting.run(entryId, id, null, delta);
+      insertPosting.run(entryId, null, "opening_balance", -delta);
+    }
+
+    sqlite.pragma(`user_version = ${LEDGER_MIGRATION_VERSION}`);
   })();
 }
 
+// CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so columns added
+// after a table was first created have to be added explicitly.
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((existing) => existing.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function getConnectionCount(): number {
   // No orphaned connections to track anymore
   return 0;
@@ -64,10 +109,13 @@ export function initDb() {
       phone_number TEXT NOT NULL,
       date_of_birth TEXT NOT NULL,
       ssn TEXT NOT NULL,
+      ssn_index TEXT,
       address TEXT NOT NULL,
       city TEXT NOT NULL,
       state TEXT NOT NULL,
       zip_code TEXT NOT NULL,
+      status TEXT DEFAULT 'active' NOT NULL,
+      role TEXT DEFAULT 'customer' NOT NULL,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -78,6 +126,7 @@ export function initDb() {
       account_type TEXT NOT NULL,
       balance INTEGER DEFAULT 0 NOT NULL,
       status TEXT DEFAULT 'pending',
+      status_reason TEXT,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -88,20 +137,305 @@ export function initDb() {
       amount INTEGER NOT NULL,
       description TEXT,
       status TEXT DEFAULT 'pending' NOT NULL,
+      channel TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      processed_at TEXT,
+      transfer_id TEXT,
+      journal_entry_id INTEGER REFERENCES journal_entries(id),
+      return_reason_code TEXT,
+      gateway_reference TEXT,
+      source_fingerprint TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS card_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token TEXT UNIQUE NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      encrypted_pan TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      brand TEXT NOT NULL,
+      last4 TEXT NOT NULL,
+      expiration_month INTEGER NOT NULL,
+      expiration_year INTEGER NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS card_tokens_fingerprint_idx ON card_tokens(fingerprint);
+
+    CREATE TABLE IF NOT EXISTS funding_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      type TEXT NOT NULL,
+      nickname TEXT NOT NULL,
+      is_default INTEGER DEFAULT 0 NOT NULL,
+      fingerprint TEXT NOT NULL,
+      last4 TEXT NOT NULL,
+      card_token TEXT REFERENCES card_tokens(token),
+      brand TEXT,
+      postal_code TEXT,
+      routing_number TEXT,
+      account_number TEXT,
+      bank_name TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS funding_sources_user_fingerprint_idx ON funding_sources(user_id, fingerprint);
+
+    CREATE TABLE IF NOT EXISTS journal_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      description TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS postings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      journal_entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+      account_id INTEGER REFERENCES accounts(id),
+      system_account TEXT,
+      amount INTEGER NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      CHECK ((account_id IS NULL) != (system_account IS NULL))
+    );
+
+    CREATE INDEX IF NOT EXISTS postings_account_id_idx ON postings(account_id);
+
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      key TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      response TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idempotency_keys_user_key_idx ON idempotency_keys(user_id, key);
+
+    CREATE TABLE IF NOT EXISTS ach_files (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      file_name TEXT NOT NULL,
+      file_id_modifier TEXT NOT NULL,
+      entry_count INTEGER NOT NULL,
+      total_debit INTEGER NOT NULL,
+      total_credit INTEGER NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS ach_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER REFERENCES transactions(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      direction TEXT NOT NULL,
+      routing_number TEXT NOT NULL,
+      account_number TEXT NOT NULL,
+      account_fingerprint TEXT,
+      account_type TEXT DEFAULT 'checking' NOT NULL,
+      individual_name TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      trace_number TEXT UNIQUE,
+      ach_file_id INTEGER REFERENCES ach_files(id),
+      status TEXT DEFAULT 'pending' NOT NULL,
+      bank_verification_id INTEGER REFERENCES bank_verifications(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS bank_verifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      account_fingerprint TEXT NOT NULL,
+      routing_number TEXT NOT NULL,
+      last4 TEXT NOT NULL,
+      first_amount INTEGER NOT NULL,
+      second_amount INTEGER NOT NULL,
+      attempts INTEGER DEFAULT 0 NOT NULL,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      journal_entry_id INTEGER REFERENCES journal_entries(id),
+      verified_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS bank_verifications_user_fingerprint_idx ON bank_verifications(user_id, account_fingerprint);
+    CREATE INDEX IF NOT EXISTS bank_verifications_fingerprint_idx ON bank_verifications(account_fingerprint);
+
+    CREATE TABLE IF NOT EXISTS funding_limit_overrides (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER UNIQUE NOT NULL REFERENCES users(id),
+      limits TEXT NOT NULL,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS funding_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      account_id INTEGER NOT NULL REFERENCES accounts(id),
+      funding_type TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS funding_attempts_account_created_idx ON funding_attempts(account_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS fraud_screenings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      account_id INTEGER NOT NULL REFERENCES accounts(id),
+      transaction_id INTEGER REFERENCES transactions(id),
+      channel TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      decision TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      results TEXT NOT NULL,
+      review_outcome TEXT,
+      reviewed_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS aml_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      type TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      window_start TEXT NOT NULL,
+      window_end TEXT NOT NULL,
+      status TEXT DEFAULT 'open' NOT NULL,
+      note TEXT,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      processed_at TEXT
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS aml_alert_transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alert_id INTEGER NOT NULL REFERENCES aml_alerts(id),
+      transaction_id INTEGER NOT NULL REFERENCES transactions(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS aml_alert_transactions_transaction_idx ON aml_alert_transactions(transaction_id);
+
+    CREATE TABLE IF NOT EXISTS sanctions_matches (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      list_entry_uid TEXT NOT NULL,
+      matched_name TEXT NOT NULL,
+      score REAL NOT NULL,
+      programs TEXT NOT NULL,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      reviewed_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS kyc_reviews (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      account_id INTEGER NOT NULL REFERENCES accounts(id),
+      status TEXT NOT NULL,
+      checks TEXT,
+      reason TEXT,
+      reviewer_id INTEGER REFERENCES users(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
     );
 
+    CREATE INDEX IF NOT EXISTS kyc_reviews_account_idx ON kyc_reviews(account_id);
+
+    CREATE TABLE IF NOT EXISTS two_factor_credentials (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER UNIQUE NOT NULL REFERENCES users(id),
+      secret TEXT NOT NULL,
+      enabled_at TEXT,
+      last_used_step INTEGER,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS recovery_codes_user_idx ON recovery_codes(user_id);
+
+    CREATE TABLE IF NOT EXISTS login_challenges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      token_hash TEXT UNIQUE NOT NULL,
+      attempts INTEGER DEFAULT 0 NOT NULL,
+      expires_at TEXT NOT NULL,
+      consumed_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      token_hash TEXT UNIQUE NOT NULL,
+      expires_at TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx ON password_reset_tokens(user_id);
+
     CREATE TABLE IF NOT EXISTS sessions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       user_id INTEGER NOT NULL REFERENCES users(id),
       token TEXT UNIQUE NOT NULL,
       expires_at TEXT NOT NULL,
+      absolute_expires_at TEXT,
+      user_agent TEXT,
+      ip_address TEXT,
+      last_seen_at TEXT,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     );
+
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id INTEGER NOT NULL REFERENCES sessions(id),
+      token_hash TEXT UNIQUE NOT NULL,
+      used_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS refresh_tokens_session_idx ON refresh_tokens(session_id);
+
+    CREATE TABLE IF NOT EXISTS login_throttles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL,
+      key TEXT NOT NULL,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TEXT,
+      locked_until TEXT,
+      unlock_token_hash TEXT
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS login_throttles_scope_key_idx ON login_throttles(scope, key);
+    CREATE INDEX IF NOT EXISTS login_throttles_unlock_token_idx ON login_throttles(unlock_token_hash);
   `);
   
+  ensureColumn("users", "status", "TEXT DEFAULT 'active' NOT NULL");
+  ensureColumn("users", "role", "TEXT DEFAULT 'customer' NOT NULL");
+  ensureColumn("users", "ssn_index", "TEXT");
+  ensureColumn("sessions", "absolute_expires_at", "TEXT");
+  ensureColumn("sessions", "user_agent", "TEXT");
+  ensureColumn("sessions", "ip_address", "TEXT");
+  ensureColumn("sessions", "last_seen_at", "TEXT");
+  ensureColumn("accounts", "status_reason", "TEXT");
+  ensureColumn("transactions", "channel", "TEXT");
+  ensureColumn("transactions", "transfer_id", "TEXT");
+  ensureColumn("transactions", "journal_entry_id", "INTEGER REFERENCES journal_entries(id)");
+  ensureColumn("transactions", "return_reason_code", "TEXT");
+  ensureColumn("transactions", "gateway_reference", "TEXT");
+  ensureColumn("transactions", "source_fingerprint", "TEXT");
+  ensureColumn("ach_entries", "account_fingerprint", "TEXT");
+  ensureColumn("ach_entries", "bank_verification_id", "INTEGER REFERENCES bank_verifications(id)");
+  ensureColumn("bank_verifications", "journal_entry_id", "INTEGER REFERENCES journal_entries(id)");
+  sqlite.exec(
+    `CREATE INDEX IF NOT EXISTS ach_entries_user_fingerprint_idx ON ach_entries(user_id, account_fingerprint)`
+  );
+  // Existing users get their SSN blind index from the ssn-index-backfill job, which needs SSN_INDEX_KEY.
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS users_ssn_index_idx ON users(ssn_index)`);
+
   migrateBalancesToCents();
+  backfillOpeningBalances();
 
   isInitialized = true;
 }
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq, sql } from 'drizzle-orm';
+import { db } from './index';
+import { accounts, journalEntries, postings } from './schema';
+import {
+  InsufficientFundsError,
+  UnbalancedEntryError,
+  getLedgerBalance,
+  postJournalEntry,
+  verifyAccountBalance,
+} from './ledger';
+import { accountRouter } from '@/server/routers/account';
+import { createAuthenticatedContext, createTestCardSource } from '@/server/test-utils';
+
+describe('Double-entry ledger', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should reject entries whose postings do not sum to zero', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const entriesBefore = await db.select().from(journalEntries).all();
+
+    expect(() =>
+      postJournalEntry(db, {
+        description: 'Broken entry',
+        postings: [
+          { accountId: account.id, amount: 500 },
+          { systemAccount: 'card_clearing', amount: -499 },
+        ],
+      })
+    ).toThrow(UnbalancedEntryError);
+
+    const entriesAfter = await db.select().from(journalEntries).all();
+    expect(entriesAfter).toHaveLength(entriesBefore.length);
+    expect(getLedgerBalance(db, account.id)).toBe(0);
+  });
+
+  it('should roll back the whole entry when an account would be overdrawn', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    expect(() =>
+      postJournalEntry(db, {
+        description: 'Overdraft',
+        postings: [
+          { accountId: account.id, amount: -100 },
+          { systemAccount: 'ach_clearing', amount: 100 },
+        ],
+      })
+    ).toThrow(InsufficientFundsError);
+
+    const accountPostings = await db.select().from(postings).where(eq(postings.accountId, account.id)).all();
+    const dbAccount = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
+    expect(accountPostings).toHaveLength(0);
+    expect(dbAccount?.balance).toBe(0);
+  });
+
+  it('should keep cached balances equal to postings across funding, transfers and withdrawals', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const savings = await accountCaller.createAccount({ accountType: 'savings' });
+
+    await accountCaller.fundAccount({
+      accountId: checking.id,
+      amount: 125.5,
+      fundingSource: createTestCardSource(),
+    });
+    await accountCaller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 25.25 });
+    await accountCaller.withdraw({
+      accountId: checking.id,
+      amount: 0.25,
+      destination: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+    });
+
+    expect(verifyAccountBalance(db, checking.id)).toEqual({
+      cachedBalance: 10_000,
+      ledgerBalance: 10_000,
+      matches: true,
+    });
+    expect(verifyAccountBalance(db, savings.id).matches).toBe(true);
+
+    const unbalancedEntries = await db
+      .select({ journalEntryId: postings.journalEntryId })
+      .from(postings)
+      .groupBy(postings.journalEntryId)
+      .having(sql`SUM(${postings.amount}) != 0`)
+      .all();
+    expect(unbalancedEntries).toHaveLength(0);
+  });
+});
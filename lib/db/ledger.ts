@@ -0,0 +1,186 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
+import type { RunResult } from "better-sqlite3";
+import * as schema from "./schema";
+import { accounts, journalEntries, postings, transactions } from "./schema";
+
+/**
+ * Either the shared `db` or a transaction handle from `db.transaction()`.
+ * Ledger writes are synchronous so they can run inside better-sqlite3 transactions.
+ */
+export type DbExecutor = BaseSQLiteDatabase<"sync", RunResult, typeof schema>;
+
+/**
+ * Bank-side accounts that sit on the other side of customer postings.
+ */
+export const SYSTEM_ACCOUNTS = [
+  "card_clearing",
+  "ach_clearing",
+  "fee_income",
+  "interest_expense",
+  "opening_balance",
+  "verification_expense",
+] as const;
+
+export type SystemAccount = (typeof SYSTEM_ACCOUNTS)[number];
+
+export type PostingInput =
+  | { accountId: number; amount: number }
+  | { systemAccount: SystemAccount; amount: number };
+
+export type JournalEntryInput = {
+  description: string;
+  /** Signed cents. Positive amounts increase a customer balance; all amounts must sum to zero. */
+  postings: PostingInput[];
+  /** Customer-facing history rows written in the same transaction and linked to the entry. */
+  transactions?: Omit<typeof transactions.$inferInsert, "journalEntryId">[];
+  /** Allow debits beyond the available balance (reversals of funds that were already spent). */
+  allowOverdraft?: boolean;
+};
+
+export class UnbalancedEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnbalancedEntryError";
+  }
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public readonly accountId: number) {
+    super("Insufficient funds");
+    this.name = "InsufficientFundsError";
+  }
+}
+
+function assertBalanced(lines: PostingInput[]) {
+  if (lines.length < 2) {
+    throw new UnbalancedEntryError("A journal entry needs at least two postings");
+  }
+
+  if (lines.some((line) => !Number.isInteger(line.amount) || line.amount === 0)) {
+    throw new UnbalancedEntryError("Posting amounts must be non-zero whole cents");
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (total !== 0) {
+    throw new UnbalancedEntryError(`Journal entry is out of balance by ${total} cents`);
+  }
+}
+
+/**
+ * Records a balanced journal entry and updates the cached balance of every customer account it touches.
+ * Everything happens in one transaction: if any account would be overdrawn, nothing is written.
+ */
+export function postJournalEntry(executor: DbExecutor, input: JournalEntryInput) {
+  assertBalanced(input.postings);
+
+  return executor.transaction((tx) => {
+    const entry = tx.insert(journalEntries).values({ description: input.description }).returning().get();
+
+    tx.insert(postings)
+      .values(
+        input.postings.map((line) => ({
+          journalEntryId: entry.id,
+          accountId: "accountId" in line ? line.accountId : null,
+          systemAccount: "systemAccount" in line ? line.systemAccount : null,
+          amount: line.amount,
+        }))
+      )
+      .run();
+
+    const balances = new Map<number, number>();
+    for (const line of input.postings) {
+      if (!("accountId" in line)) {
+        continue;
+      }
+
+      const updated = tx
+        .update(accounts)
+        .set({ balance: sql`${accounts.balance} + ${line.amount}` })
+        .where(eq(accounts.id, line.accountId))
+        .returning()
+        .get();
+
+      if (!updated) {
+        throw new Error(`Account ${line.accountId} does not exist`);
+      }
+      // Debits may only spend available funds; deposits that have not settled yet stay on hold.
+      if (line.amount < 0 && !input.allowOverdraft && updated.balance - getHeldAmount(tx, line.accountId) < 0) {
+        throw new InsufficientFundsError(line.accountId);
+      }
+
+      balances.set(line.accountId, updated.balance);
+    }
+
+    const recorded = (input.transactions ?? []).map((row) =>
+      tx
+        .insert(transactions)
+        .values({ ...row, journalEntryId: entry.id })
+        .returning()
+        .get()
+    );
+
+    return { entry, transactions: recorded, balances };
+  });
+}
+
+/**
+ * Sum of every posting against a customer account, in cents.
+ */
+export function getLedgerBalance(executor: DbExecutor, accountId: number): number {
+  const row = executor
+    .select({ total: sql<number>`COALESCE(SUM(${postings.amount}), 0)` })
+    .from(postings)
+    .where(eq(postings.accountId, accountId))
+    .get();
+
+  return row?.total ?? 0;
+}
+
+/**
+ * Pending deposits are part of the ledger balance but cannot be spent until they settle.
+ */
+export function getHeldAmount(executor: DbExecutor, accountId: number): number {
+  const row = executor
+    .select({ total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)` })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, accountId),
+        eq(transactions.type, "deposit"),
+        eq(transactions.status, "pending")
+      )
+    )
+    .get();
+
+  return row?.total ?? 0;
+}
+
+/**
+ * Ledger balance minus funds on hold, in cents.
+ */
+export function getAvailableBalance(executor: DbExecutor, accountId: number): number {
+  const account = executor.select().from(accounts).where(eq(accounts.id, accountId)).get();
+  if (!account) {
+    throw new Error(`Account ${accountId} does not exist`);
+  }
+
+  return account.balance - getHeldAmount(executor, accountId);
+}
+
+/**
+ * Compares the cached `accounts.balance` with the balance derived from postings.
+ */
+export function verifyAccountBalance(executor: DbExecutor, accountId: number) {
+  const account = executor.select().from(accounts).where(eq(accounts.id, accountId)).get();
+  if (!account) {
+    throw new Error(`Account ${accountId} does not exist`);
+  }
+
+  const ledgerBalance = getLedgerBalance(executor, accountId);
+  return {
+    cachedBalance: account.balance,
+    ledgerBalance,
+    matches: account.balance === ledgerBalance,
+  };
+}
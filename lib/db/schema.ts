@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 
 export const users = sqliteTable("users", {
@@ -10,10 +10,13 @@ export const users = sqliteTable("users", {
   phoneNumber: text("phone_number").notNull(),
   dateOfBirth: text("date_of_birth").notNull(),
   ssn: text("ssn").notNull(), // 11/27/2025: Database schema stores SSN as plain text
+  ssnIndex: text("ssn_index"), // Blind index (ssnBlindIndex) for duplicate checks and lookups
   address: text("address").notNull(),
   city: text("city").notNull(),
   state: text("state").notNull(),
   zipCode: text("zip_code").notNull(),
+  status: text("status").default("active").notNull(), // active, pending_review (possible sanctions match), blocked
+  role: text("role").default("customer").notNull(), // customer, admin
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -25,7 +28,8 @@ export const accounts = sqliteTable("accounts", {
   accountNumber: text("account_number").unique().notNull(),
   accountType: text("account_type").notNull(), // checking, savings
   balance: integer("balance").default(0).notNull(), // Stored in cents to avoid float drift
-  status: text("status").default("pending"),
+  status: text("status").default("pending"), // pending (KYC review), active, rejected, frozen
+  statusReason: text("status_reason"), // Shown to the user while the account is not active
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -37,9 +41,75 @@ export const transactions = sqliteTable("transactions", {
   type: text("type").notNull(), // deposit, withdrawal
   amount: integer("amount").notNull(), // Stored in cents
   description: text("description"), //Description are stored as plain text
-  status: text("status").default("pending").notNull(),
+  status: text("status").default("pending").notNull(), // held, reviewing, pending, completed, failed, returned
+  channel: text("channel"), // card, ach, internal
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  processedAt: text("processed_at"), // Set once the transaction reaches a final status
+  transferId: text("transfer_id"), // Shared by both legs of an internal transfer
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id),
+  returnReasonCode: text("return_reason_code"), // NACHA return reason (R01, R02, ...) for returned ACH entries
+  gatewayReference: text("gateway_reference"), // Card processor authorization id for card funding
+  sourceFingerprint: text("source_fingerprint"), // Card or bank account fingerprint of an external deposit
+});
+
+// Card vault. The PAN is encrypted under CARD_VAULT_KEY; everything else refers to a card by its token.
+export const cardTokens = sqliteTable("card_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  token: text("token").unique().notNull(), // Opaque "tok_..." handle
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  encryptedPan: text("encrypted_pan").notNull(),
+  fingerprint: text("fingerprint").notNull(), // HMAC of the PAN; identical cards share a fingerprint
+  brand: text("brand").notNull(),
+  last4: text("last4").notNull(),
+  expirationMonth: integer("expiration_month").notNull(),
+  expirationYear: integer("expiration_year").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Cards and bank accounts a user saved for funding. Card numbers stay in the vault and bank account
+// numbers are encrypted; only masked details are ever returned to the client.
+export const fundingSources = sqliteTable(
+  "funding_sources",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    type: text("type").notNull(), // card, bank
+    nickname: text("nickname").notNull(),
+    isDefault: integer("is_default", { mode: "boolean" }).default(false).notNull(),
+    fingerprint: text("fingerprint").notNull(), // Vault fingerprint for cards, HMAC of routing + account number for banks
+    last4: text("last4").notNull(),
+    cardToken: text("card_token").references(() => cardTokens.token),
+    brand: text("brand"), // Card brand
+    postalCode: text("postal_code"), // Card billing ZIP, sent with every charge
+    routingNumber: text("routing_number"),
+    accountNumber: text("account_number"), // Encrypted with lib/encryption
+    bankName: text("bank_name"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [uniqueIndex("funding_sources_user_fingerprint_idx").on(table.userId, table.fingerprint)]
+);
+
+// Double-entry ledger. Every journal entry has postings that sum to zero; a customer
+// account's balance is the sum of its postings (accounts.balance is a cached copy).
+export const journalEntries = sqliteTable("journal_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  description: text("description").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const postings = sqliteTable("postings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  journalEntryId: integer("journal_entry_id")
+    .references(() => journalEntries.id)
+    .notNull(),
+  accountId: integer("account_id").references(() => accounts.id), // Set for customer accounts
+  systemAccount: text("system_account"), // Set for bank-side accounts (card_clearing, ach_clearing, ...)
+  amount: integer("amount").notNull(), // Signed cents; positive increases the customer balance
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
-  processedAt: text("processed_at"),
 });
 // Session records for authenticated users.
 export const sessions = sqliteTable("sessions", {
@@ -47,7 +117,262 @@ export const sessions = sqliteTable("sessions", {
   userId: integer("user_id")
     .references(() => users.id)
     .notNull(),
-  token: text("token").unique().notNull(),
+  token: text("token").unique().notNull(), // Current access token; replaced on every renewal
+  expiresAt: text("expires_at").notNull(), // When the access token stops being accepted
+  absoluteExpiresAt: text("absolute_expires_at"), // Renewals cannot extend the session past this
+  // Shown on the Security page so customers can recognise their devices.
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastSeenAt: text("last_seen_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Rotating refresh tokens for a session. Each one is used once; presenting a used one again means it
+// was stolen, and the whole session is revoked.
+export const refreshTokens = sqliteTable("refresh_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: integer("session_id")
+    .references(() => sessions.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(), // SHA-256 of the token; the token itself is never stored
+  usedAt: text("used_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Failed sign-in counters, per account (keyed by email so unknown emails behave like real ones) and
+// per client IP.
+export const loginThrottles = sqliteTable(
+  "login_throttles",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    scope: text("scope").notNull(), // account or ip
+    key: text("key").notNull(), // Normalized email or IP address
+    failures: integer("failures").notNull().default(0),
+    lastFailureAt: text("last_failure_at"),
+    lockedUntil: text("locked_until"),
+    unlockTokenHash: text("unlock_token_hash"), // SHA-256 of the emailed unlock token
+  },
+  (table) => [uniqueIndex("login_throttles_scope_key_idx").on(table.scope, table.key)]
+);
+
+// Client-supplied idempotency keys for money-moving mutations, with the cached response to replay.
+export const idempotencyKeys = sqliteTable(
+  "idempotency_keys",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    key: text("key").notNull(),
+    scope: text("scope").notNull(), // Procedure path, e.g. account.fundAccount
+    fingerprint: text("fingerprint").notNull(), // HMAC of the request payload
+    response: text("response"), // JSON; null while the first request is still running
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [uniqueIndex("idempotency_keys_user_key_idx").on(table.userId, table.key)]
+);
+
+// ACH files handed to the originating bank (ODFI).
+export const achFiles = sqliteTable("ach_files", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  fileName: text("file_name").notNull(),
+  fileIdModifier: text("file_id_modifier").notNull(), // A-Z then 0-9; distinguishes files created on the same day
+  entryCount: integer("entry_count").notNull(),
+  totalDebit: integer("total_debit").notNull(), // Stored in cents
+  totalCredit: integer("total_credit").notNull(), // Stored in cents
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// One ACH entry per bank-sourced money movement, queued until the next file export.
+export const achEntries = sqliteTable("ach_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  direction: text("direction").notNull(), // debit (pull from the external account), credit (push to it)
+  routingNumber: text("routing_number").notNull(),
+  accountNumber: text("account_number").notNull(), // Encrypted with lib/encryption
+  accountFingerprint: text("account_fingerprint"), // HMAC of routing + account number, for matching entries to a bank account
+  accountType: text("account_type").default("checking").notNull(), // checking, savings
+  individualName: text("individual_name").notNull(),
+  amount: integer("amount").notNull(), // Stored in cents
+  traceNumber: text("trace_number").unique(), // Assigned at export
+  achFileId: integer("ach_file_id").references(() => achFiles.id),
+  status: text("status").default("pending").notNull(), // held, pending, exported, returned, cancelled
+  bankVerificationId: integer("bank_verification_id").references(() => bankVerifications.id), // Set for micro-deposits
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Micro-deposit verification of a user's external bank account. Two small credits are sent and the
+// user proves ownership by confirming their amounts.
+export const bankVerifications = sqliteTable("bank_verifications", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  accountFingerprint: text("account_fingerprint").notNull(), // HMAC of routing + account number
+  routingNumber: text("routing_number").notNull(),
+  last4: text("last4").notNull(),
+  firstAmount: integer("first_amount").notNull(), // Stored in cents
+  secondAmount: integer("second_amount").notNull(), // Stored in cents
+  attempts: integer("attempts").default(0).notNull(),
+  status: text("status").default("pending").notNull(), // pending, verified, failed
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // Posting of the micro-deposits
+  verifiedAt: text("verified_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Per-user funding limits that replace the account type defaults in lib/limits/config.ts.
+export const fundingLimitOverrides = sqliteTable("funding_limit_overrides", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .unique()
+    .notNull(),
+  limits: text("limits").notNull(), // JSON FundingLimitOverrides; amounts in cents
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Every fundAccount attempt that got past account checks, including declined ones, for the hourly velocity limit.
+export const fundingAttempts = sqliteTable("funding_attempts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  fundingType: text("funding_type").notNull(), // card, bank
+  amount: integer("amount").notNull(), // Stored in cents
+  createdAt: text("created_at").notNull(), // ISO timestamp
+});
+
+// Outcome of the fraud rules for one deposit attempt. Deposits sent to review stay held until an analyst
+// approves or rejects them.
+export const fraudScreenings = sqliteTable("fraud_screenings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Null when the deposit was denied
+  channel: text("channel").notNull(), // card, ach
+  amount: integer("amount").notNull(), // Stored in cents
+  decision: text("decision").notNull(), // allow, review, deny
+  score: integer("score").notNull(),
+  results: text("results").notNull(), // JSON FraudRuleOutcome[]
+  reviewOutcome: text("review_outcome"), // approved, rejected; set once a held deposit is reviewed
+  reviewedAt: text("reviewed_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Anti-money-laundering alerts raised by the monitoring job: single deposits at or over the CTR threshold
+// and deposits that add up past it within a rolling business day.
+export const amlAlerts = sqliteTable("aml_alerts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  type: text("type").notNull(), // large_deposit, structuring
+  amount: integer("amount").notNull(), // Total of the flagged deposits in cents
+  windowStart: text("window_start").notNull(), // Earliest flagged deposit
+  windowEnd: text("window_end").notNull(), // Latest flagged deposit
+  status: text("status").default("open").notNull(), // open, investigating, filed, dismissed
+  note: text("note"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Deposits behind each AML alert.
+export const amlAlertTransactions = sqliteTable("aml_alert_transactions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  alertId: integer("alert_id")
+    .references(() => amlAlerts.id)
+    .notNull(),
+  transactionId: integer("transaction_id")
+    .references(() => transactions.id)
+    .notNull(),
+});
+
+// Possible OFAC SDN list matches found when a user signed up. The user stays in pending_review until
+// every match is cleared.
+export const sanctionsMatches = sqliteTable("sanctions_matches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  listEntryUid: text("list_entry_uid").notNull(), // SDN entry uid
+  matchedName: text("matched_name").notNull(),
+  score: real("score").notNull(), // Name similarity, 0-1
+  programs: text("programs").notNull(), // Comma-separated sanctions programs
+  status: text("status").default("pending").notNull(), // pending, cleared, confirmed
+  reviewedAt: text("reviewed_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Every KYC status change of an account: the automated check results when it was opened, then any
+// admin decision.
+export const kycReviews = sqliteTable("kyc_reviews", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  status: text("status").notNull(), // Account status after this review
+  checks: text("checks"), // JSON array of KycCheckResult, for automated reviews
+  reason: text("reason"),
+  reviewerId: integer("reviewer_id").references(() => users.id), // Null for automated reviews
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// TOTP second factor. The shared secret is encrypted like other customer fields; enabledAt stays null
+// until the user confirms enrollment with a code.
+export const twoFactorCredentials = sqliteTable("two_factor_credentials", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .unique()
+    .notNull(),
+  secret: text("secret").notNull(),
+  enabledAt: text("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, so it cannot be replayed
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// One-time codes for signing in without the authenticator. Only keyed hashes are stored.
+export const recoveryCodes = sqliteTable("recovery_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Second step of a login for users with 2FA: the password was right, a code is still owed.
+export const loginChallenges = sqliteTable("login_challenges", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(), // SHA-256 of the challenge token handed to the client
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: text("expires_at").notNull(),
+  consumedAt: text("consumed_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Emailed one-time links for resetting a forgotten password.
+export const passwordResetTokens = sqliteTable("password_reset_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(), // SHA-256 of the token in the emailed link
   expiresAt: text("expires_at").notNull(),
+  usedAt: text("used_at"),
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
@@ -0,0 +1,106 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { transactions } from "./schema";
+import { postJournalEntry, type DbExecutor, type SystemAccount } from "./ledger";
+
+/**
+ * Transaction lifecycle: pending -> completed | failed | returned.
+ * A completed ACH transaction can still be returned by the receiving bank. Deposits flagged by fraud
+ * screening start out held, with nothing posted, until they are reviewed (see lib/fraud/review); they
+ * are reviewing while the reviewer's decision is sent to the card gateway.
+ */
+export const TRANSACTION_STATUSES = ["held", "reviewing", "pending", "completed", "failed", "returned"] as const;
+
+export type TransactionStatus = (typeof TRANSACTION_STATUSES)[number];
+
+export class InvalidTransitionError extends Error {
+  constructor(transactionId: number, from: string, to: TransactionStatus) {
+    super(`Transaction ${transactionId} cannot move from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+const ALLOWED_SOURCES: Record<Exclude<TransactionStatus, "held" | "reviewing" | "pending">, TransactionStatus[]> = {
+  completed: ["pending"],
+  failed: ["pending"],
+  returned: ["pending", "completed"],
+};
+
+const COUNTERPARTY_BY_CHANNEL: Record<string, SystemAccount> = {
+  card: "card_clearing",
+  ach: "ach_clearing",
+};
+
+function loadForTransition(
+  executor: DbExecutor,
+  transactionId: number,
+  to: Exclude<TransactionStatus, "held" | "reviewing" | "pending">
+) {
+  const transaction = executor.select().from(transactions).where(eq(transactions.id, transactionId)).get();
+  if (!transaction) {
+    throw new Error(`Transaction ${transactionId} does not exist`);
+  }
+  if (!ALLOWED_SOURCES[to].includes(transaction.status as TransactionStatus)) {
+    throw new InvalidTransitionError(transactionId, transaction.status, to);
+  }
+  return transaction;
+}
+
+/**
+ * Marks a pending transaction as completed. Funds were posted when the transaction was created,
+ * so settling only releases the hold on a deposit.
+ */
+export function settleTransaction(executor: DbExecutor, transactionId: number, processedAt = new Date()) {
+  loadForTransition(executor, transactionId, "completed");
+
+  return executor
+    .update(transactions)
+    .set({ status: "completed", processedAt: processedAt.toISOString() })
+    .where(and(eq(transactions.id, transactionId), eq(transactions.status, "pending")))
+    .returning()
+    .get();
+}
+
+type ReversalDetails = {
+  processedAt?: Date;
+  /** NACHA return reason reported by the receiving bank (R01, R02, ...). */
+  returnReasonCode?: string;
+};
+
+/**
+ * Moves a transaction to failed or returned and posts the reversing journal entry.
+ * A reversed deposit may overdraw the account if the customer already spent the funds.
+ */
+export function reverseTransaction(
+  executor: DbExecutor,
+  transactionId: number,
+  status: "failed" | "returned",
+  { processedAt = new Date(), returnReasonCode }: ReversalDetails = {}
+) {
+  return executor.transaction((tx) => {
+    const transaction = loadForTransition(tx, transactionId, status);
+    const counterparty = transaction.channel ? COUNTERPARTY_BY_CHANNEL[transaction.channel] : undefined;
+    if (!counterparty) {
+      throw new Error(`Transaction ${transactionId} has no external counterparty to reverse against`);
+    }
+
+    // Undo the original effect on the customer balance.
+    const customerAmount = transaction.type === "deposit" ? -transaction.amount : transaction.amount;
+    postJournalEntry(tx, {
+      description: `Reversal of transaction ${transaction.id} (${returnReasonCode ?? status})`,
+      postings: [
+        { accountId: transaction.accountId, amount: customerAmount },
+        { systemAccount: counterparty, amount: -customerAmount },
+      ],
+      allowOverdraft: true,
+    });
+
+    return tx
+      .update(transactions)
+      .set({ status, processedAt: processedAt.toISOString(), returnReasonCode: returnReasonCode ?? null })
+      .where(
+        and(eq(transactions.id, transactionId), inArray(transactions.status, ALLOWED_SOURCES[status]))
+      )
+      .returning()
+      .get();
+  });
+}
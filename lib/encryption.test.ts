@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { encryptSSN, decryptSSN } from './encryption';
+import crypto from 'crypto';
+import { encryptSSN, decryptSSN, decryptField, encryptField, fingerprintField, getKeyIdOf } from './encryption';
 
 describe('encryptSSN', () => {
   it('should encrypt SSN with proper format and properties', () => {
@@ -12,9 +13,10 @@ describe('encryptSSN', () => {
     expect(encrypted).not.toBe(ssn);
     expect(encrypted.length).toBeGreaterThan(ssn.length);
     
-    // Format: iv:authTag:encryptedData
+    // Format: v2:keyId:iv:authTag:encryptedData
     const parts = encrypted.split(':');
-    expect(parts.length).toBe(3);
+    expect(parts.length).toBe(5);
+    expect(parts.slice(0, 2)).toEqual(['v2', 'default']);
     expect(parts.every(part => part.length > 0)).toBe(true);
   });
 
@@ -24,8 +26,7 @@ describe('encryptSSN', () => {
   });
   it('should throw on tampered ciphertext', () => {
     const encrypted = encryptSSN('123456789');
-    const [iv, tag, data] = encrypted.split(':');
-    const tampered = `${iv}:${tag}:${data}X`; // Corrupt data
+    const tampered = `${encrypted}X`; // Corrupt data
     expect(() => decryptSSN(tampered)).toThrow();
   });
   
@@ -56,4 +57,71 @@ describe('decryptSSN', () => {
   
 });
 
+describe('key rotation', () => {
+  const newKey = crypto.randomBytes(32).toString('hex');
 
+  // Runs `fn` with ENCRYPTION_KEYS / ENCRYPTION_KEY_ID set, restoring the environment afterwards.
+  const withKeyRing = <T>(ring: { keys?: string; activeKeyId?: string }, fn: () => T): T => {
+    const previous = { keys: process.env.ENCRYPTION_KEYS, activeKeyId: process.env.ENCRYPTION_KEY_ID };
+    const assign = (name: string, value: string | undefined) =>
+      value === undefined ? delete process.env[name] : (process.env[name] = value);
+    assign('ENCRYPTION_KEYS', ring.keys);
+    assign('ENCRYPTION_KEY_ID', ring.activeKeyId);
+    try {
+      return fn();
+    } finally {
+      assign('ENCRYPTION_KEYS', previous.keys);
+      assign('ENCRYPTION_KEY_ID', previous.activeKeyId);
+    }
+  };
+
+  // A value in the pre-versioning iv:authTag:ciphertext format, under ENCRYPTION_KEY.
+  const legacyEncrypt = (plaintext: string) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(process.env.ENCRYPTION_KEY!, 'hex'), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map((part) => part.toString('hex')).join(':');
+  };
+
+  it('should still decrypt legacy three-part values', () => {
+    const legacy = legacyEncrypt('123456789');
+
+    expect(getKeyIdOf(legacy)).toBe('default');
+    expect(decryptSSN(legacy)).toBe('123456789');
+    expect(withKeyRing({ keys: `k2:${newKey}` }, () => decryptSSN(legacy))).toBe('123456789');
+  });
+
+  it('should encrypt with the active key and decrypt with any key in the ring', () => {
+    const before = encryptSSN('123456789');
+    const after = withKeyRing({ keys: `k2:${newKey}` }, () => encryptSSN('123456789'));
+
+    expect(after.startsWith('v2:k2:')).toBe(true);
+    withKeyRing({ keys: `k2:${newKey}` }, () => {
+      expect(decryptSSN(before)).toBe('123456789');
+      expect(decryptSSN(after)).toBe('123456789');
+    });
+    expect(withKeyRing({ keys: `k2:${newKey}`, activeKeyId: 'default' }, () => getKeyIdOf(encryptSSN('123456789')))).toBe(
+      'default'
+    );
+  });
+
+  it('should fail clearly when a key is missing from the ring', () => {
+    const encrypted = withKeyRing({ keys: `k2:${newKey}` }, () => encryptField('secret'));
+
+    expect(() => decryptField(encrypted, 'note')).toThrow('Failed to decrypt note: key k2 is not in the key ring');
+    expect(() => withKeyRing({ keys: `k2:${newKey}`, activeKeyId: 'k3' }, () => encryptField('secret'))).toThrow(
+      /Active key k3/
+    );
+    expect(() => withKeyRing({ keys: 'k2' }, () => encryptField('secret'))).toThrow(/key-id:hex/);
+  });
+});
+
+describe('fingerprintField', () => {
+  const hmac = (key: string, value: string) =>
+    crypto.createHmac('sha256', Buffer.from(key, 'hex')).update(value).digest('hex');
+
+  it('should use FINGERPRINT_KEY rather than the encryption key', () => {
+    expect(fingerprintField('021000021:000123456789')).toBe(hmac(process.env.FINGERPRINT_KEY!, '021000021:000123456789'));
+    expect(fingerprintField('021000021:000123456789')).not.toBe(hmac(process.env.ENCRYPTION_KEY!, '021000021:000123456789'));
+  });
+});
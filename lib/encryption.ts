@@ -4,18 +4,81 @@ const ALGORITHM = "aes-256-gcm";
 const KEY_LENGTH = 32; // bytes
 const IV_LENGTH = 12; // bytes for AES-GCM
 
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY;
+/** Environment variable holding the key for SSNs and other customer fields. */
+const DEFAULT_KEY_VARIABLE = "ENCRYPTION_KEY";
+
+/**
+ * HMAC key for fingerprints of card numbers, bank accounts, recovery codes and idempotent requests. It
+ * never encrypts anything and has no key ring; rotating it means recomputing the stored fingerprints.
+ */
+const FINGERPRINT_KEY_VARIABLE = "FINGERPRINT_KEY";
+
+/** Separate key for the SSN blind index, so the index alone cannot be used to decrypt anything. */
+const SSN_INDEX_KEY_VARIABLE = "SSN_INDEX_KEY";
+
+/** Key id of the single key in `keyVariable` itself, which also decrypts legacy (unversioned) values. */
+export const DEFAULT_KEY_ID = "default";
+
+const CIPHERTEXT_VERSION = "v2";
+
+/**
+ * Keys for one key variable, by id. The ring holds the key in `keyVariable` (id "default") plus any
+ * listed in `${keyVariable}S` as "id:hex,id:hex". New values are encrypted with the key named in
+ * `${keyVariable}_ID`, or the first listed key when that is not set.
+ */
+type KeyRing = {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+function parseKey(value: string, name: string): Buffer {
+  const normalized = value.replace(/[^a-fA-F0-9]/g, "");
+  if (normalized.length < KEY_LENGTH * 2) {
+    throw new Error(`${name} must be at least 64 hex characters (32 bytes)`);
+  }
+
+  return Buffer.from(normalized.slice(0, KEY_LENGTH * 2), "hex");
+}
+
+function getEncryptionKey(keyVariable = DEFAULT_KEY_VARIABLE): Buffer {
+  const key = process.env[keyVariable];
   if (!key) {
-    throw new Error("ENCRYPTION_KEY environment variable is required");
+    throw new Error(`${keyVariable} environment variable is required`);
   }
+  return parseKey(key, keyVariable);
+}
 
-  const normalized = key.replace(/[^a-fA-F0-9]/g, "");
-  if (normalized.length < KEY_LENGTH * 2) {
-    throw new Error("ENCRYPTION_KEY must be at least 64 hex characters (32 bytes)");
+function getKeyRing(keyVariable: string): KeyRing {
+  const keys = new Map<string, Buffer>();
+  if (process.env[keyVariable]) {
+    keys.set(DEFAULT_KEY_ID, getEncryptionKey(keyVariable));
   }
 
-  return Buffer.from(normalized.slice(0, KEY_LENGTH * 2), "hex");
+  const listed = (process.env[`${keyVariable}S`] ?? "").split(",").filter((entry) => entry.trim() !== "");
+  for (const entry of listed) {
+    const [id, key] = entry.trim().split(":");
+    if (!id || !/^[A-Za-z0-9_-]+$/.test(id) || !key) {
+      throw new Error(`${keyVariable}S entries must look like "key-id:hex"`);
+    }
+    keys.set(id, parseKey(key, `${keyVariable}S key ${id}`));
+  }
+
+  if (keys.size === 0) {
+    throw new Error(`${keyVariable} environment variable is required`);
+  }
+
+  const activeKeyId = process.env[`${keyVariable}_ID`] || (listed.length > 0 ? listed[0].trim().split(":")[0] : DEFAULT_KEY_ID);
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`Active key ${activeKeyId} for ${keyVariable} is not in the key ring`);
+  }
+  return { activeKeyId, keys };
+}
+
+/**
+ * Id of the key new values for `keyVariable` are encrypted with.
+ */
+export function getActiveKeyId(keyVariable = DEFAULT_KEY_VARIABLE): string {
+  return getKeyRing(keyVariable).activeKeyId;
 }
 
 function validateSSN(ssn: string): void {
@@ -24,40 +87,70 @@ function validateSSN(ssn: string): void {
   }
 }
 
-export function encryptSSN(ssn: string): string {
-  validateSSN(ssn);
-
-  const key = getEncryptionKey();
+/**
+ * Encrypts an arbitrary string with AES-256-GCM, using the active key of the `keyVariable` key ring.
+ * Output format: v2:keyId:iv:authTag:ciphertext (hex).
+ */
+export function encryptField(plaintext: string, keyVariable = DEFAULT_KEY_VARIABLE): string {
+  const { activeKeyId, keys } = getKeyRing(keyVariable);
   const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(activeKeyId)!, iv);
 
-  const encrypted = Buffer.concat([cipher.update(ssn, "utf8"), cipher.final()]);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
   const authTag = cipher.getAuthTag();
 
   return [
+    CIPHERTEXT_VERSION,
+    activeKeyId,
     iv.toString("hex"),
     authTag.toString("hex"),
     encrypted.toString("hex"),
   ].join(":");
 }
 
-function ensureValidHex(part: string, name: string) {
+function ensureValidHex(part: string, name: string, label: string) {
   if (!/^[a-f0-9]+$/i.test(part) || part.length % 2 !== 0) {
-    throw new Error(`Invalid ${name} in encrypted SSN`);
+    throw new Error(`Invalid ${name} in encrypted ${label}`);
   }
 }
 
-export function decryptSSN(encryptedSSN: string): string {
-  const parts = encryptedSSN.split(":");
-  if (parts.length !== 3 || parts.some((part) => !part)) {
-    throw new Error("Invalid encrypted SSN format");
+// Legacy values are iv:authTag:ciphertext under the default key; v2 values name their key.
+function parseEncryptedValue(encryptedValue: string, label: string) {
+  const parts = encryptedValue.split(":");
+  if (parts.some((part) => !part)) {
+    throw new Error(`Invalid encrypted ${label} format`);
+  }
+  if (parts.length === 3) {
+    const [ivHex, tagHex, dataHex] = parts;
+    return { keyId: DEFAULT_KEY_ID, ivHex, tagHex, dataHex };
+  }
+  if (parts.length === 5 && parts[0] === CIPHERTEXT_VERSION) {
+    const [, keyId, ivHex, tagHex, dataHex] = parts;
+    return { keyId, ivHex, tagHex, dataHex };
   }
+  throw new Error(`Invalid encrypted ${label} format`);
+}
+
+/**
+ * Id of the key a value produced by encryptField was encrypted with ("default" for legacy values).
+ */
+export function getKeyIdOf(encryptedValue: string, label = "value"): string {
+  return parseEncryptedValue(encryptedValue, label).keyId;
+}
 
-  const [ivHex, tagHex, dataHex] = parts;
-  ensureValidHex(ivHex, "IV");
-  ensureValidHex(tagHex, "auth tag");
-  ensureValidHex(dataHex, "ciphertext");
-  const key = getEncryptionKey();
+/**
+ * Decrypts a value produced by encryptField, in either format. `label` names the field in error messages.
+ */
+export function decryptField(encryptedValue: string, label = "value", keyVariable = DEFAULT_KEY_VARIABLE): string {
+  const { keyId, ivHex, tagHex, dataHex } = parseEncryptedValue(encryptedValue, label);
+  ensureValidHex(ivHex, "IV", label);
+  ensureValidHex(tagHex, "auth tag", label);
+  ensureValidHex(dataHex, "ciphertext", label);
+
+  const key = getKeyRing(keyVariable).keys.get(keyId);
+  if (!key) {
+    throw new Error(`Failed to decrypt ${label}: key ${keyId} is not in the key ring`);
+  }
 
   try {
     const decipher = crypto.createDecipheriv(
@@ -67,15 +160,45 @@ export function decryptSSN(encryptedSSN: string): string {
     );
     decipher.setAuthTag(Buffer.from(tagHex, "hex"));
 
-    const decrypted = Buffer.concat([
+    return Buffer.concat([
       decipher.update(Buffer.from(dataHex, "hex")),
       decipher.final(),
     ]).toString("utf8");
+  } catch {
+    throw new Error(`Failed to decrypt ${label}`);
+  }
+}
 
+/**
+ * Keyed HMAC-SHA256 of a value (hex). Equal inputs give equal fingerprints, so encrypted
+ * values can be matched without decrypting them. The key is kept apart from the encryption keys,
+ * so fingerprints stay put when those are rotated and a leaked fingerprint key decrypts nothing.
+ */
+export function fingerprintField(value: string, keyVariable = FINGERPRINT_KEY_VARIABLE): string {
+  return crypto.createHmac("sha256", getEncryptionKey(keyVariable)).update(value, "utf8").digest("hex");
+}
+
+export function encryptSSN(ssn: string): string {
+  validateSSN(ssn);
+  return encryptField(ssn);
+}
+
+/**
+ * Blind index of an SSN: equal SSNs give equal values, so users can be matched and looked up by SSN
+ * without decrypting every row.
+ */
+export function ssnBlindIndex(ssn: string): string {
+  validateSSN(ssn);
+  return fingerprintField(ssn, SSN_INDEX_KEY_VARIABLE);
+}
+
+export function decryptSSN(encryptedSSN: string): string {
+  const decrypted = decryptField(encryptedSSN, "SSN");
+
+  try {
     validateSSN(decrypted);
-    return decrypted;
-  } catch (error) {
+  } catch {
     throw new Error("Failed to decrypt SSN");
   }
+  return decrypted;
 }
-
@@ -0,0 +1,3 @@
+export * from "./rules";
+export * from "./screening";
+export * from "./review";
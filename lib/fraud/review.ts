@@ -0,0 +1,174 @@
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { achEntries, fraudScreenings, transactions } from "@/lib/db/schema";
+import { postJournalEntry, type DbExecutor } from "@/lib/db/ledger";
+import { InvalidPaymentStateError, type PaymentGateway } from "@/lib/payments";
+
+export type HeldDeposit = {
+  screening: typeof fraudScreenings.$inferSelect;
+  transaction: typeof transactions.$inferSelect;
+};
+
+export class HeldDepositNotFoundError extends Error {
+  constructor(transactionId: number) {
+    super(`Transaction ${transactionId} is not a deposit held for review`);
+    this.name = "HeldDepositNotFoundError";
+  }
+}
+
+/**
+ * Deposits waiting on a fraud review, oldest first.
+ */
+export function listHeldDeposits(executor: DbExecutor): HeldDeposit[] {
+  return selectHeldDeposits(executor).orderBy(asc(fraudScreenings.id)).all();
+}
+
+function selectHeldDeposits(executor: DbExecutor, transactionId?: number) {
+  return executor
+    .select({ screening: fraudScreenings, transaction: transactions })
+    .from(fraudScreenings)
+    .innerJoin(transactions, eq(fraudScreenings.transactionId, transactions.id))
+    .where(
+      and(
+        eq(transactions.status, "held"),
+        isNull(fraudScreenings.reviewOutcome),
+        transactionId === undefined ? undefined : eq(transactions.id, transactionId)
+      )
+    );
+}
+
+/**
+ * Takes a held deposit off the queue for one reviewer. It is reviewing while the gateway is called, so a
+ * second reviewer acting at the same time gets HeldDepositNotFoundError instead of capturing or voiding
+ * the authorization again.
+ */
+function claimHeldDeposit(executor: DbExecutor, transactionId: number): HeldDeposit {
+  return executor.transaction((tx) => {
+    const held = selectHeldDeposits(tx, transactionId).get();
+    const claimed = tx
+      .update(transactions)
+      .set({ status: "reviewing" })
+      .where(and(eq(transactions.id, transactionId), eq(transactions.status, "held")))
+      .run();
+    if (!held || claimed.changes === 0) {
+      throw new HeldDepositNotFoundError(transactionId);
+    }
+    return held;
+  });
+}
+
+const isClaimed = (transactionId: number) => and(eq(transactions.id, transactionId), eq(transactions.status, "reviewing"));
+
+/**
+ * Captures or voids the authorization behind a held card deposit. Returns false when the gateway no
+ * longer has it (it expired, or the simulator lost it in a restart): there is nothing left to collect
+ * or release, so the deposit can only fail.
+ */
+async function settleAuthorization(
+  executor: DbExecutor,
+  held: HeldDeposit,
+  call: () => Promise<unknown>
+): Promise<boolean> {
+  try {
+    await call();
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidPaymentStateError) {
+      return false;
+    }
+    // The gateway could not be reached: back in the queue, to be reviewed again.
+    executor.update(transactions).set({ status: "held" }).where(isClaimed(held.transaction.id)).run();
+    throw error;
+  }
+}
+
+// Nothing was posted while the deposit was held, so there is nothing to reverse; the queued ACH debit
+// is never sent.
+function failHeldDeposit(executor: DbExecutor, held: HeldDeposit, outcome: "approved" | "rejected", reviewedAt: Date) {
+  return executor.transaction((tx) => {
+    tx.update(achEntries)
+      .set({ status: "cancelled" })
+      .where(and(eq(achEntries.transactionId, held.transaction.id), eq(achEntries.status, "held")))
+      .run();
+    tx.update(fraudScreenings)
+      .set({ reviewOutcome: outcome, reviewedAt: reviewedAt.toISOString() })
+      .where(eq(fraudScreenings.id, held.screening.id))
+      .run();
+
+    return tx
+      .update(transactions)
+      .set({ status: "failed", processedAt: reviewedAt.toISOString() })
+      .where(isClaimed(held.transaction.id))
+      .returning()
+      .get();
+  });
+}
+
+/**
+ * Releases a held deposit as if it had never been flagged: a card deposit is captured and completed,
+ * a bank deposit is posted as pending and its ACH debit goes out with the next file. A card deposit
+ * whose authorization is gone fails instead.
+ */
+export async function approveHeldDeposit(
+  executor: DbExecutor,
+  gateway: PaymentGateway,
+  transactionId: number,
+  reviewedAt = new Date()
+) {
+  const held = claimHeldDeposit(executor, transactionId);
+  const { screening, transaction } = held;
+  const isCard = transaction.channel === "card";
+
+  if (isCard && !(await settleAuthorization(executor, held, () => gateway.capture(transaction.gatewayReference!)))) {
+    return failHeldDeposit(executor, held, "approved", reviewedAt);
+  }
+
+  return executor.transaction((tx) => {
+    const { entry } = postJournalEntry(tx, {
+      description: transaction.description ?? `Deposit ${transaction.id}`,
+      postings: [
+        { accountId: transaction.accountId, amount: transaction.amount },
+        { systemAccount: isCard ? "card_clearing" : "ach_clearing", amount: -transaction.amount },
+      ],
+    });
+
+    if (!isCard) {
+      tx.update(achEntries)
+        .set({ status: "pending" })
+        .where(and(eq(achEntries.transactionId, transaction.id), eq(achEntries.status, "held")))
+        .run();
+    }
+    tx.update(fraudScreenings)
+      .set({ reviewOutcome: "approved", reviewedAt: reviewedAt.toISOString() })
+      .where(eq(fraudScreenings.id, screening.id))
+      .run();
+
+    return tx
+      .update(transactions)
+      .set({
+        status: isCard ? "completed" : "pending",
+        journalEntryId: entry.id,
+        processedAt: isCard ? reviewedAt.toISOString() : null,
+      })
+      .where(isClaimed(transaction.id))
+      .returning()
+      .get();
+  });
+}
+
+/**
+ * Declines a held deposit, releasing its card authorization if the gateway still has one.
+ */
+export async function rejectHeldDeposit(
+  executor: DbExecutor,
+  gateway: PaymentGateway,
+  transactionId: number,
+  reviewedAt = new Date()
+) {
+  const held = claimHeldDeposit(executor, transactionId);
+
+  if (held.transaction.channel === "card") {
+    await settleAuthorization(executor, held, () => gateway.void(held.transaction.gatewayReference!));
+  }
+
+  return failHeldDeposit(executor, held, "rejected", reviewedAt);
+}
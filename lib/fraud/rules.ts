@@ -0,0 +1,163 @@
+import { and, countDistinct, eq, inArray, ne, notInArray, sql } from "drizzle-orm";
+import { accounts, transactions } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+
+export type FraudDecision = "allow" | "review" | "deny";
+
+/** An incoming external deposit, described independently of the procedure that moves the money. */
+export type FraudContext = {
+  userId: number;
+  accountId: number;
+  amountCents: number;
+  channel: "card" | "ach";
+  /** Card or bank account fingerprint; identical sources share one. */
+  sourceFingerprint: string;
+  now: Date;
+};
+
+export type FraudRuleResult = {
+  decision: FraudDecision;
+  /** Risk contribution; scores from every rule are added up (see screenDeposit). */
+  score: number;
+  reason?: string;
+};
+
+export type FraudRule = {
+  name: string;
+  evaluate(executor: DbExecutor, context: FraudContext): FraudRuleResult;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const DISTINCT_CARDS_WINDOW_DAYS = 30;
+export const DISTINCT_CARDS_REVIEW = 3;
+export const DISTINCT_CARDS_DENY = 5;
+export const FIRST_DEPOSIT_REVIEW_CENTS = 2_500_00;
+export const RAPID_DEPOSITS_WINDOW_MINUTES = 10;
+export const RAPID_DEPOSITS_COUNT = 3;
+export const RAPID_DEPOSITS_TOTAL_CENTS = 1_000_00;
+
+const ALLOW: FraudRuleResult = { decision: "allow", score: 0 };
+
+// External deposits that went through or are still in flight; failed and returned ones never funded anything.
+const liveDeposit = () =>
+  and(
+    eq(transactions.type, "deposit"),
+    inArray(transactions.channel, ["card", "ach"]),
+    notInArray(transactions.status, ["failed", "returned"])
+  );
+
+const since = (now: Date, ms: number) =>
+  sql`datetime(${transactions.createdAt}) >= datetime(${new Date(now.getTime() - ms).toISOString()})`;
+
+// Card testing and stolen-card cash-in both show up as one account funded from a string of different cards.
+export const distinctCardsRule: FraudRule = {
+  name: "distinct_cards",
+  evaluate(executor, context) {
+    if (context.channel !== "card") {
+      return ALLOW;
+    }
+
+    const used = executor
+      .selectDistinct({ fingerprint: transactions.sourceFingerprint })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.accountId, context.accountId),
+          eq(transactions.channel, "card"),
+          since(context.now, DISTINCT_CARDS_WINDOW_DAYS * DAY_MS)
+        )
+      )
+      .all()
+      .map((row) => row.fingerprint);
+    const cards = new Set([...used, context.sourceFingerprint]).size;
+
+    if (cards >= DISTINCT_CARDS_DENY) {
+      return { decision: "deny", score: 100, reason: `${cards} different cards in ${DISTINCT_CARDS_WINDOW_DAYS} days` };
+    }
+    if (cards >= DISTINCT_CARDS_REVIEW) {
+      return { decision: "review", score: 50, reason: `${cards} different cards in ${DISTINCT_CARDS_WINDOW_DAYS} days` };
+    }
+    return ALLOW;
+  },
+};
+
+export const largeFirstDepositRule: FraudRule = {
+  name: "large_first_deposit",
+  evaluate(executor, context) {
+    if (context.amountCents <= FIRST_DEPOSIT_REVIEW_CENTS) {
+      return ALLOW;
+    }
+
+    const previous = executor
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.accountId, context.accountId), liveDeposit()))
+      .get();
+    return previous ? ALLOW : { decision: "review", score: 50, reason: "Large first deposit" };
+  },
+};
+
+export const rapidDepositsRule: FraudRule = {
+  name: "rapid_deposits",
+  evaluate(executor, context) {
+    const recent = executor
+      .select({ count: sql<number>`COUNT(*)`, total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)` })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.accountId, context.accountId),
+          liveDeposit(),
+          since(context.now, RAPID_DEPOSITS_WINDOW_MINUTES * MINUTE_MS)
+        )
+      )
+      .get();
+
+    const count = (recent?.count ?? 0) + 1;
+    const total = (recent?.total ?? 0) + context.amountCents;
+    if (count >= RAPID_DEPOSITS_COUNT && total >= RAPID_DEPOSITS_TOTAL_CENTS) {
+      return {
+        decision: "review",
+        score: 40,
+        reason: `${count} deposits in ${RAPID_DEPOSITS_WINDOW_MINUTES} minutes`,
+      };
+    }
+    return ALLOW;
+  },
+};
+
+// A card that already funded someone else's account is either shared or stolen.
+export const sharedCardRule: FraudRule = {
+  name: "shared_card",
+  evaluate(executor, context) {
+    if (context.channel !== "card") {
+      return ALLOW;
+    }
+
+    const row = executor
+      .select({ users: countDistinct(accounts.userId) })
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(
+        and(
+          eq(transactions.sourceFingerprint, context.sourceFingerprint),
+          ne(accounts.userId, context.userId),
+          liveDeposit()
+        )
+      )
+      .get();
+
+    const otherUsers = row?.users ?? 0;
+    return otherUsers > 0
+      ? { decision: "review", score: 60, reason: `Card used by ${otherUsers} other user(s)` }
+      : ALLOW;
+  },
+};
+
+export const DEFAULT_FRAUD_RULES: FraudRule[] = [
+  distinctCardsRule,
+  largeFirstDepositRule,
+  rapidDepositsRule,
+  sharedCardRule,
+];
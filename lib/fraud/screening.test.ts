@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '@/lib/db';
+import { accounts, transactions, users } from '@/lib/db/schema';
+import { createTestUserData } from '@/server/test-utils';
+import { screenDeposit } from './screening';
+import type { FraudContext, FraudRule } from './rules';
+
+describe('Fraud screening', () => {
+  const now = new Date('2026-03-10T15:00:00Z');
+  let userId: number;
+  let accountId: number;
+
+  const createAccount = (ownerId: number) =>
+    db
+      .insert(accounts)
+      .values({ userId: ownerId, accountNumber: `${Math.random()}`.slice(2, 12), accountType: 'checking' })
+      .returning()
+      .get().id;
+
+  beforeEach(() => {
+    userId = db.insert(users).values(createTestUserData()).returning().get().id;
+    accountId = createAccount(userId);
+  });
+
+  const deposit = (values: { amount: number; sourceFingerprint: string; minutesAgo: number; account?: number; channel?: string }) =>
+    db
+      .insert(transactions)
+      .values({
+        accountId: values.account ?? accountId,
+        type: 'deposit',
+        amount: values.amount,
+        channel: values.channel ?? 'card',
+        status: 'completed',
+        sourceFingerprint: `${userId}:${values.sourceFingerprint}`,
+        createdAt: new Date(now.getTime() - values.minutesAgo * 60_000).toISOString(),
+      })
+      .run();
+
+  // Fingerprints are scoped to the test's user so cards from earlier tests never count as shared.
+  const screen = ({ sourceFingerprint = 'card-a', ...overrides }: Partial<FraudContext> = {}, rules?: FraudRule[]) =>
+    screenDeposit(
+      db,
+      {
+        userId,
+        accountId,
+        amountCents: 50_00,
+        channel: 'card',
+        sourceFingerprint: `${userId}:${sourceFingerprint}`,
+        now,
+        ...overrides,
+      },
+      rules
+    );
+
+  it('should allow an ordinary deposit', () => {
+    deposit({ amount: 20_00, sourceFingerprint: 'card-a', minutesAgo: 60 * 24 });
+
+    expect(screen()).toEqual({ decision: 'allow', score: 0, outcomes: [] });
+  });
+
+  it('should review and then deny an account funded from many different cards', () => {
+    deposit({ amount: 10_00, sourceFingerprint: 'card-a', minutesAgo: 60 * 24 * 3 });
+    deposit({ amount: 10_00, sourceFingerprint: 'card-b', minutesAgo: 60 * 24 * 2 });
+
+    expect(screen({ sourceFingerprint: 'card-c' })).toMatchObject({
+      decision: 'review',
+      outcomes: [{ rule: 'distinct_cards', decision: 'review', reason: '3 different cards in 30 days' }],
+    });
+
+    deposit({ amount: 10_00, sourceFingerprint: 'card-c', minutesAgo: 60 * 24 });
+    deposit({ amount: 10_00, sourceFingerprint: 'card-d', minutesAgo: 60 * 12 });
+    expect(screen({ sourceFingerprint: 'card-e' }).decision).toBe('deny');
+    // Bank deposits are not cards.
+    expect(screen({ channel: 'ach', sourceFingerprint: 'bank-a' }).decision).toBe('allow');
+  });
+
+  it('should review a large first deposit only', () => {
+    expect(screen({ amountCents: 2_500_01 })).toMatchObject({ decision: 'review', outcomes: [{ rule: 'large_first_deposit' }] });
+
+    deposit({ amount: 10_00, sourceFingerprint: 'card-a', minutesAgo: 60 * 24 * 90 });
+    expect(screen({ amountCents: 2_500_01 }).decision).toBe('allow');
+  });
+
+  it('should review rapid successive deposits that add up', () => {
+    deposit({ amount: 400_00, sourceFingerprint: 'card-a', minutesAgo: 60 * 24 });
+    deposit({ amount: 600_00, sourceFingerprint: 'card-a', minutesAgo: 8 });
+    deposit({ amount: 600_00, sourceFingerprint: 'card-a', minutesAgo: 3 });
+
+    expect(screen({ amountCents: 1_00 })).toMatchObject({ decision: 'review', outcomes: [{ rule: 'rapid_deposits', score: 40 }] });
+    expect(screen({ amountCents: 1_00, now: new Date(now.getTime() + 5 * 60_000) }).decision).toBe('allow');
+  });
+
+  it("should review a card that already funded another user's account", () => {
+    const otherUserId = db.insert(users).values(createTestUserData()).returning().get().id;
+    deposit({ amount: 10_00, sourceFingerprint: 'card-a', minutesAgo: 60, account: createAccount(otherUserId) });
+
+    expect(screen()).toMatchObject({
+      decision: 'review',
+      score: 60,
+      outcomes: [{ rule: 'shared_card', reason: 'Card used by 1 other user(s)' }],
+    });
+  });
+
+  it('should escalate on the combined score and accept custom rules', () => {
+    const suspicious: FraudRule = {
+      name: 'suspicious',
+      evaluate: () => ({ decision: 'allow', score: 30, reason: 'Looks odd' }),
+    };
+
+    expect(screen({}, [suspicious])).toMatchObject({ decision: 'allow', score: 30 });
+    expect(screen({}, [suspicious, suspicious])).toMatchObject({ decision: 'review', score: 60 });
+    expect(screen({}, [suspicious, suspicious, suspicious, suspicious])).toMatchObject({ decision: 'deny', score: 120 });
+  });
+});
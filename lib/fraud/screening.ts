@@ -0,0 +1,71 @@
+import { fraudScreenings } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { DEFAULT_FRAUD_RULES, type FraudContext, type FraudDecision, type FraudRule } from "./rules";
+
+/** Combined score at which a deposit is held for review, or declined, whatever the individual rules said. */
+export const FRAUD_REVIEW_SCORE = 50;
+export const FRAUD_DENY_SCORE = 100;
+
+export type FraudRuleOutcome = {
+  rule: string;
+  decision: FraudDecision;
+  score: number;
+  reason?: string;
+};
+
+export type FraudScreeningResult = {
+  decision: FraudDecision;
+  score: number;
+  /** Rules that scored the deposit or asked for more than allow. */
+  outcomes: FraudRuleOutcome[];
+};
+
+const SEVERITY: FraudDecision[] = ["allow", "review", "deny"];
+
+const moreSevere = (a: FraudDecision, b: FraudDecision) => (SEVERITY.indexOf(a) >= SEVERITY.indexOf(b) ? a : b);
+
+/**
+ * Runs every rule against an incoming deposit. The strictest rule decision wins, and the summed score
+ * can escalate it further.
+ */
+export function screenDeposit(
+  executor: DbExecutor,
+  context: FraudContext,
+  rules: FraudRule[] = DEFAULT_FRAUD_RULES
+): FraudScreeningResult {
+  const outcomes = rules
+    .map((rule) => ({ rule: rule.name, ...rule.evaluate(executor, context) }))
+    .filter((outcome) => outcome.decision !== "allow" || outcome.score > 0);
+
+  const score = outcomes.reduce((total, outcome) => total + outcome.score, 0);
+  let decision = outcomes.reduce<FraudDecision>((strictest, outcome) => moreSevere(strictest, outcome.decision), "allow");
+  if (score >= FRAUD_DENY_SCORE) {
+    decision = "deny";
+  } else if (score >= FRAUD_REVIEW_SCORE) {
+    decision = moreSevere(decision, "review");
+  }
+
+  return { decision, score, outcomes };
+}
+
+export function recordFraudScreening(
+  executor: DbExecutor,
+  context: FraudContext,
+  result: FraudScreeningResult,
+  transactionId: number | null
+) {
+  return executor
+    .insert(fraudScreenings)
+    .values({
+      userId: context.userId,
+      accountId: context.accountId,
+      transactionId,
+      channel: context.channel,
+      amount: context.amountCents,
+      decision: result.decision,
+      score: result.score,
+      results: JSON.stringify(result.outcomes),
+    })
+    .returning()
+    .get();
+}
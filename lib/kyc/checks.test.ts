@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { encryptSSN, ssnBlindIndex } from '@/lib/encryption';
+import { createTestUserData } from '@/server/test-utils';
+import { isValidSsn, runKycChecks } from './checks';
+
+describe('KYC checks', () => {
+  const insertUser = (overrides?: Parameters<typeof createTestUserData>[0]) => {
+    const data = createTestUserData(overrides);
+    return db.insert(users).values({ ...data, ssn: encryptSSN(data.ssn), ssnIndex: ssnBlindIndex(data.ssn) }).returning().get();
+  };
+
+  const failedChecks = (user: typeof users.$inferSelect) =>
+    runKycChecks(db, user)
+      .filter((result) => !result.passed)
+      .map((result) => result.check);
+
+  it('should reject SSNs the SSA never issues', () => {
+    expect(isValidSsn('123456789')).toBe(true);
+    ['000123456', '666123456', '900123456', '123006789', '123450000', '12345678'].forEach((ssn) =>
+      expect(isValidSsn(ssn)).toBe(false)
+    );
+  });
+
+  it('should fail users that are under 18 or have an incomplete address', () => {
+    const year = new Date().getFullYear();
+
+    expect(failedChecks(insertUser())).toEqual([]);
+    expect(failedChecks(insertUser({ dateOfBirth: `${year - 17}-01-01` }))).toEqual(['age']);
+    expect(failedChecks(insertUser({ address: 'Main St' }))).toEqual(['address']);
+    expect(failedChecks(insertUser({ address: 'P.O. Box 42' }))).toEqual(['address']);
+    expect(failedChecks(insertUser({ state: 'XX' }))).toEqual(['address']);
+  });
+
+  it('should flag an SSN shared with another user', () => {
+    const { ssn } = createTestUserData();
+    insertUser({ ssn });
+
+    expect(failedChecks(insertUser({ ssn }))).toEqual(['duplicate_ssn']);
+  });
+});
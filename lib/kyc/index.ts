@@ -0,0 +1,3 @@
+export * from "./checks";
+export * from "./review";
+export * from "./ssn-index";
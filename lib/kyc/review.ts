@@ -0,0 +1,143 @@
+import { asc, desc, eq } from "drizzle-orm";
+import { accounts, kycReviews, users } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { runKycChecks, type KycCheckResult } from "./checks";
+
+/** pending: waiting on KYC review; active: can move money; rejected: KYC failed; frozen: stopped by an admin. */
+export const ACCOUNT_STATUSES = ["pending", "active", "rejected", "frozen"] as const;
+
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+type AccountRecord = typeof accounts.$inferSelect;
+type UserRecord = typeof users.$inferSelect;
+
+export type KycQueueItem = {
+  account: AccountRecord;
+  user: Pick<UserRecord, "id" | "email" | "firstName" | "lastName">;
+  checks: KycCheckResult[];
+};
+
+export class KycAccountNotFoundError extends Error {
+  constructor(accountId: number) {
+    super(`Account ${accountId} does not exist`);
+    this.name = "KycAccountNotFoundError";
+  }
+}
+
+export class KycTransitionError extends Error {
+  constructor(account: AccountRecord, status: AccountStatus) {
+    super(`Account ${account.id} cannot move from ${account.status} to ${status}`);
+    this.name = "KycTransitionError";
+  }
+}
+
+// Admin decisions and the account statuses they may be taken from.
+const ALLOWED_TRANSITIONS: Record<Exclude<AccountStatus, "pending">, AccountStatus[]> = {
+  active: ["pending", "frozen"],
+  rejected: ["pending"],
+  frozen: ["active"],
+};
+
+/**
+ * Runs the automated checks on a newly opened account. It is activated when every check passes;
+ * otherwise it stays pending for an admin, with the failed checks as the reason shown to the user.
+ */
+export function reviewNewAccount(executor: DbExecutor, accountId: number): AccountRecord {
+  const owner = executor
+    .select({ user: users })
+    .from(accounts)
+    .innerJoin(users, eq(accounts.userId, users.id))
+    .where(eq(accounts.id, accountId))
+    .get();
+  if (!owner) {
+    throw new KycAccountNotFoundError(accountId);
+  }
+
+  const checks = runKycChecks(executor, owner.user);
+  const failed = checks.filter((check) => !check.passed);
+  const status: AccountStatus = failed.length === 0 ? "active" : "pending";
+  const reason = failed.length === 0 ? null : failed.map((check) => check.reason).join(". ");
+
+  return executor.transaction((tx) => {
+    tx.insert(kycReviews).values({ accountId, status, checks: JSON.stringify(checks), reason }).run();
+    return tx
+      .update(accounts)
+      .set({ status, statusReason: reason })
+      .where(eq(accounts.id, accountId))
+      .returning()
+      .get();
+  });
+}
+
+/**
+ * Records an admin's decision on an account. Approving clears the reason shown to the user;
+ * rejecting and freezing require one.
+ */
+export function setAccountStatus(
+  executor: DbExecutor,
+  input: { accountId: number; status: Exclude<AccountStatus, "pending">; reviewerId: number; reason?: string }
+): AccountRecord {
+  return executor.transaction((tx) => {
+    const account = tx.select().from(accounts).where(eq(accounts.id, input.accountId)).get();
+    if (!account) {
+      throw new KycAccountNotFoundError(input.accountId);
+    }
+    if (!ALLOWED_TRANSITIONS[input.status].includes(account.status as AccountStatus)) {
+      throw new KycTransitionError(account, input.status);
+    }
+
+    const reason = input.status === "active" ? null : (input.reason ?? null);
+    tx.insert(kycReviews)
+      .values({ accountId: account.id, status: input.status, reason: input.reason ?? null, reviewerId: input.reviewerId })
+      .run();
+    return tx
+      .update(accounts)
+      .set({ status: input.status, statusReason: reason })
+      .where(eq(accounts.id, account.id))
+      .returning()
+      .get();
+  });
+}
+
+/**
+ * Accounts waiting on a KYC decision with the results of their latest automated checks, oldest first.
+ */
+export function listKycQueue(executor: DbExecutor): KycQueueItem[] {
+  const pending = executor
+    .select({
+      account: accounts,
+      user: { id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName },
+    })
+    .from(accounts)
+    .innerJoin(users, eq(accounts.userId, users.id))
+    .where(eq(accounts.status, "pending"))
+    .orderBy(asc(accounts.id))
+    .all();
+
+  return pending.map(({ account, user }) => {
+    const latest = executor
+      .select({ checks: kycReviews.checks })
+      .from(kycReviews)
+      .where(eq(kycReviews.accountId, account.id))
+      .orderBy(desc(kycReviews.id))
+      .get();
+    return { account, user, checks: latest?.checks ? (JSON.parse(latest.checks) as KycCheckResult[]) : [] };
+  });
+}
+
+/**
+ * Why money cannot move through an account, worded for its owner.
+ */
+export function describeInactiveAccount(account: Pick<AccountRecord, "status" | "statusReason">): string {
+  const reason = account.statusReason ? `: ${account.statusReason}` : "";
+  switch (account.status) {
+    case "pending":
+      return `This account is waiting on identity verification${reason}`;
+    case "rejected":
+      return `This account application was rejected${reason}`;
+    case "frozen":
+      return `This account is frozen${reason}`;
+    default:
+      return "Account is not active";
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { encryptSSN, ssnBlindIndex } from '@/lib/encryption';
+import { createTestUserData } from '@/server/test-utils';
+import { backfillSsnIndex, findUsersBySsn } from './ssn-index';
+
+describe('SSN blind index', () => {
+  // Users created before the index existed have no ssn_index.
+  const insertLegacyUser = (ssn: string) => {
+    const data = createTestUserData({ ssn });
+    return db.insert(users).values({ ...data, ssn: encryptSSN(ssn) }).returning().get().id;
+  };
+
+  it('should give equal SSNs equal indexes under a key separate from the encryption key', () => {
+    expect(ssnBlindIndex('123456789')).toBe(ssnBlindIndex('123456789'));
+    expect(ssnBlindIndex('123456789')).not.toBe(ssnBlindIndex('123456780'));
+    expect(encryptSSN('123456789')).not.toBe(encryptSSN('123456789'));
+    expect(() => ssnBlindIndex('12345')).toThrow(/9 numeric digits/);
+  });
+
+  it('should backfill existing users in resumable batches', () => {
+    const ssns = Array.from({ length: 5 }, () => createTestUserData().ssn);
+    const ids = ssns.map(insertLegacyUser);
+
+    expect(backfillSsnIndex(db, 2)).toBeGreaterThanOrEqual(5);
+    expect(backfillSsnIndex(db, 2)).toBe(0);
+
+    const indexed = db.select({ ssnIndex: users.ssnIndex }).from(users).where(inArray(users.id, ids)).all();
+    expect(indexed.map((user) => user.ssnIndex)).toEqual(ssns.map(ssnBlindIndex));
+  });
+
+  it('should find every user with an SSN', () => {
+    const { ssn } = createTestUserData();
+    const first = insertLegacyUser(ssn);
+    const second = insertLegacyUser(ssn);
+    insertLegacyUser(createTestUserData().ssn);
+
+    expect(findUsersBySsn(db, ssn)).toEqual([]);
+    backfillSsnIndex(db);
+    expect(findUsersBySsn(db, ssn).map((user) => user.id)).toEqual([first, second]);
+  });
+});
@@ -0,0 +1,62 @@
+import { asc, eq, isNull } from "drizzle-orm";
+import { users } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { decryptSSN, ssnBlindIndex } from "@/lib/encryption";
+
+const DEFAULT_BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Users whose SSN matches, oldest first, found through the blind index. Users created before the
+ * index existed only show up once the backfill has reached them.
+ */
+export function findUsersBySsn(executor: DbExecutor, ssn: string) {
+  return executor
+    .select({
+      id: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      status: users.status,
+      createdAt: users.createdAt,
+    })
+    .from(users)
+    .where(eq(users.ssnIndex, ssnBlindIndex(ssn)))
+    .orderBy(asc(users.id))
+    .all();
+}
+
+/**
+ * Fills in the blind index for users that do not have one yet, one batch per transaction. Each
+ * batch only picks rows that are still missing the index, so an interrupted run can simply be
+ * started again.
+ *
+ * @returns How many users were indexed
+ */
+export function backfillSsnIndex(executor: DbExecutor, batchSize = DEFAULT_BACKFILL_BATCH_SIZE): number {
+  let indexed = 0;
+
+  for (;;) {
+    const batch = executor.transaction((tx) => {
+      const missing = tx
+        .select({ id: users.id, ssn: users.ssn })
+        .from(users)
+        .where(isNull(users.ssnIndex))
+        .orderBy(asc(users.id))
+        .limit(batchSize)
+        .all();
+
+      for (const user of missing) {
+        tx.update(users)
+          .set({ ssnIndex: ssnBlindIndex(decryptSSN(user.ssn)) })
+          .where(eq(users.id, user.id))
+          .run();
+      }
+      return missing.length;
+    });
+
+    indexed += batch;
+    if (batch < batchSize) {
+      return indexed;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// Funding limits by account type. Amounts are in cents. Individual users can be given different
+// limits with a per-user override (see setFundingLimitOverrides).
+export type FundingType = "card" | "bank";
+
+export type FundingTypeLimits = {
+  perTransactionCents: number;
+  dailyCents: number;
+  rolling30DayCents: number;
+};
+
+export type FundingLimitPolicy = Record<FundingType, FundingTypeLimits> & {
+  /** Funding attempts per account per hour that were within the amount limits, counting declined ones. */
+  attemptsPerHour: number;
+};
+
+export type FundingLimitOverrides = Partial<Record<FundingType, Partial<FundingTypeLimits>>> & {
+  attemptsPerHour?: number;
+};
+
+export const DEFAULT_FUNDING_LIMITS: Record<string, FundingLimitPolicy> = {
+  checking: {
+    card: { perTransactionCents: 5_000_00, dailyCents: 10_000_00, rolling30DayCents: 25_000_00 },
+    bank: { perTransactionCents: 25_000_00, dailyCents: 50_000_00, rolling30DayCents: 100_000_00 },
+    attemptsPerHour: 10,
+  },
+  savings: {
+    card: { perTransactionCents: 2_500_00, dailyCents: 5_000_00, rolling30DayCents: 10_000_00 },
+    bank: { perTransactionCents: 25_000_00, dailyCents: 50_000_00, rolling30DayCents: 100_000_00 },
+    attemptsPerHour: 10,
+  },
+};
+
+export function mergeFundingLimits(policy: FundingLimitPolicy, overrides: FundingLimitOverrides = {}): FundingLimitPolicy {
+  return {
+    card: { ...policy.card, ...overrides.card },
+    bank: { ...policy.bank, ...overrides.bank },
+    attemptsPerHour: overrides.attemptsPerHour ?? policy.attemptsPerHour,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '@/lib/db';
+import { accounts, transactions, users } from '@/lib/db/schema';
+import { createTestUserData } from '@/server/test-utils';
+import { DEFAULT_FUNDING_LIMITS } from './config';
+import { FundingLimitExceededError, enforceFundingLimits, getFundingLimits, setFundingLimitOverrides } from './engine';
+
+describe('Funding limits', () => {
+  let userId: number;
+  let account: typeof accounts.$inferSelect;
+
+  beforeEach(() => {
+    userId = db.insert(users).values(createTestUserData()).returning().get().id;
+    account = db
+      .insert(accounts)
+      .values({ userId, accountNumber: `${Date.now()}${Math.random()}`.slice(-10), accountType: 'checking' })
+      .returning()
+      .get();
+  });
+
+  const deposit = (amount: number, createdAt: Date, channel = 'card', status = 'completed') =>
+    db
+      .insert(transactions)
+      .values({ accountId: account.id, type: 'deposit', amount, channel, status, createdAt: createdAt.toISOString() })
+      .run();
+
+  const check = (fundingType: 'card' | 'bank', amountCents: number, now = new Date()) => {
+    try {
+      enforceFundingLimits(db, { userId, account, fundingType, amountCents }, now);
+    } catch (error) {
+      if (error instanceof FundingLimitExceededError) {
+        return error.details;
+      }
+      throw error;
+    }
+  };
+
+  it('should apply the account type defaults with per-user overrides on top', () => {
+    setFundingLimitOverrides(db, userId, { card: { dailyCents: 20_000_00 }, attemptsPerHour: 50 });
+
+    expect(getFundingLimits(db, userId, 'checking')).toEqual({
+      ...DEFAULT_FUNDING_LIMITS.checking,
+      card: { ...DEFAULT_FUNDING_LIMITS.checking.card, dailyCents: 20_000_00 },
+      attemptsPerHour: 50,
+    });
+    expect(getFundingLimits(db, userId, 'savings').card.dailyCents).toBe(20_000_00);
+
+    setFundingLimitOverrides(db, userId, {});
+    expect(getFundingLimits(db, userId, 'checking')).toEqual(DEFAULT_FUNDING_LIMITS.checking);
+  });
+
+  it('should reject amounts above the per-transaction maximum', () => {
+    const { perTransactionCents } = DEFAULT_FUNDING_LIMITS.checking.card;
+
+    expect(check('card', perTransactionCents)).toBeUndefined();
+    expect(check('card', perTransactionCents + 1)).toEqual({
+      limit: 'per_transaction',
+      fundingType: 'card',
+      maximum: perTransactionCents,
+      remaining: perTransactionCents,
+    });
+  });
+
+  it('should report what is left of the day as the per-transaction headroom once that is less', () => {
+    setFundingLimitOverrides(db, userId, { card: { perTransactionCents: 100_00, dailyCents: 150_00 } });
+    const now = new Date('2026-03-10T15:00:00Z');
+    deposit(90_00, new Date('2026-03-10T01:00:00Z'));
+
+    expect(check('card', 100_01, now)).toEqual({
+      limit: 'per_transaction',
+      fundingType: 'card',
+      maximum: 100_00,
+      remaining: 60_00,
+    });
+  });
+
+  it('should count the current UTC day toward the daily limit', () => {
+    setFundingLimitOverrides(db, userId, { card: { dailyCents: 100_00 } });
+    const now = new Date('2026-03-10T15:00:00Z');
+    deposit(30_00, new Date('2026-03-10T01:00:00Z'));
+    deposit(50_00, new Date('2026-03-09T23:00:00Z'));
+    deposit(40_00, new Date('2026-03-10T02:00:00Z'), 'card', 'failed');
+    deposit(40_00, new Date('2026-03-10T03:00:00Z'), 'ach');
+
+    expect(check('card', 70_01, now)).toMatchObject({ limit: 'daily', maximum: 100_00, remaining: 70_00 });
+    expect(check('card', 70_00, now)).toBeUndefined();
+  });
+
+  it('should count the last 30 days toward the rolling limit', () => {
+    setFundingLimitOverrides(db, userId, { bank: { rolling30DayCents: 1_000_00 } });
+    const now = new Date('2026-03-31T12:00:00Z');
+    deposit(600_00, new Date('2026-03-05T12:00:00Z'), 'ach');
+    deposit(600_00, new Date('2026-02-28T12:00:00Z'), 'ach');
+    deposit(100_00, new Date('2026-03-20T12:00:00Z'), 'ach', 'returned');
+
+    expect(check('bank', 500_00, now)).toMatchObject({ limit: 'rolling_30_day', fundingType: 'bank', remaining: 400_00 });
+    expect(check('bank', 400_00, now)).toBeUndefined();
+  });
+
+  it('should limit attempts per hour, counting only those within the amount limits', () => {
+    setFundingLimitOverrides(db, userId, { attemptsPerHour: 2 });
+    const now = new Date('2026-03-10T15:00:00Z');
+
+    expect(check('card', 100_000_00, now)).toMatchObject({ limit: 'per_transaction' });
+    expect(check('bank', 1_00, now)).toBeUndefined();
+    expect(check('card', 1_00, now)).toBeUndefined();
+    expect(check('card', 1_00, now)).toEqual({ limit: 'attempts_per_hour', fundingType: 'card', maximum: 2, remaining: 0 });
+    expect(check('card', 1_00, new Date('2026-03-10T16:00:01Z'))).toBeUndefined();
+  });
+});
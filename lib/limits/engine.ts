@@ -0,0 +1,167 @@
+import { and, eq, gte, notInArray, sql } from "drizzle-orm";
+import { fundingAttempts, fundingLimitOverrides, transactions } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import {
+  DEFAULT_FUNDING_LIMITS,
+  mergeFundingLimits,
+  type FundingLimitOverrides,
+  type FundingLimitPolicy,
+  type FundingType,
+} from "./config";
+
+const HOUR_MS = 60 * 60 * 1000;
+const ROLLING_WINDOW_MS = 30 * 24 * HOUR_MS;
+
+const CHANNELS: Record<FundingType, string> = { card: "card", bank: "ach" };
+
+export type FundingLimitName = "per_transaction" | "daily" | "rolling_30_day" | "attempts_per_hour";
+
+/** Which limit was hit. Amount limits are in cents; attempts_per_hour counts attempts. */
+export type FundingLimitDetails = {
+  limit: FundingLimitName;
+  fundingType: FundingType;
+  maximum: number;
+  /** For amount limits, the most that can still be deposited now under all of them. */
+  remaining: number;
+};
+
+type FundingCheckInput = {
+  userId: number;
+  account: { id: number; accountType: string };
+  fundingType: FundingType;
+  amountCents: number;
+};
+
+const LIMIT_LABELS: Record<FundingLimitName, string> = {
+  per_transaction: "per-transaction",
+  daily: "daily",
+  rolling_30_day: "30-day",
+  attempts_per_hour: "hourly attempt",
+};
+
+export class FundingLimitExceededError extends Error {
+  constructor(public readonly details: FundingLimitDetails) {
+    super(`${details.fundingType === "card" ? "Card" : "Bank"} ${LIMIT_LABELS[details.limit]} funding limit exceeded`);
+    this.name = "FundingLimitExceededError";
+  }
+}
+
+/**
+ * The limits that apply to one of the user's accounts: the account type defaults with the user's
+ * overrides on top.
+ */
+export function getFundingLimits(executor: DbExecutor, userId: number, accountType: string): FundingLimitPolicy {
+  const defaults = DEFAULT_FUNDING_LIMITS[accountType];
+  if (!defaults) {
+    throw new Error(`No funding limits configured for ${accountType} accounts`);
+  }
+
+  const override = executor
+    .select({ limits: fundingLimitOverrides.limits })
+    .from(fundingLimitOverrides)
+    .where(eq(fundingLimitOverrides.userId, userId))
+    .get();
+  return mergeFundingLimits(defaults, override ? (JSON.parse(override.limits) as FundingLimitOverrides) : undefined);
+}
+
+/**
+ * Replaces the user's overrides. Limits left out fall back to the account type defaults; an empty
+ * object removes every override.
+ */
+export function setFundingLimitOverrides(executor: DbExecutor, userId: number, overrides: FundingLimitOverrides) {
+  const limits = JSON.stringify(overrides);
+  const updatedAt = new Date().toISOString();
+
+  executor
+    .insert(fundingLimitOverrides)
+    .values({ userId, limits, updatedAt })
+    .onConflictDoUpdate({ target: fundingLimitOverrides.userId, set: { limits, updatedAt } })
+    .run();
+}
+
+// Deposits from this funding type that still count toward the limits, i.e. everything not failed or returned.
+function getFundedTotal(executor: DbExecutor, accountId: number, fundingType: FundingType, since: Date): number {
+  const row = executor
+    .select({ total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)` })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, accountId),
+        eq(transactions.type, "deposit"),
+        eq(transactions.channel, CHANNELS[fundingType]),
+        notInArray(transactions.status, ["failed", "returned"]),
+        sql`datetime(${transactions.createdAt}) >= datetime(${since.toISOString()})`
+      )
+    )
+    .get();
+  return row?.total ?? 0;
+}
+
+function countRecentAttempts(executor: DbExecutor, accountId: number, now: Date): number {
+  const row = executor
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(fundingAttempts)
+    .where(
+      and(
+        eq(fundingAttempts.accountId, accountId),
+        gte(fundingAttempts.createdAt, new Date(now.getTime() - HOUR_MS).toISOString())
+      )
+    )
+    .get();
+  return row?.count ?? 0;
+}
+
+/**
+ * Checks a deposit against the hourly attempt limit and the per-transaction, daily (UTC calendar day)
+ * and rolling 30-day limits, then records it as an attempt. Only attempts that pass count toward the
+ * hourly limit; they are recorded before the charge, so ones the gateway declines still count.
+ */
+export function enforceFundingLimits(executor: DbExecutor, input: FundingCheckInput, now = new Date()) {
+  const { userId, account, fundingType, amountCents } = input;
+
+  executor.transaction((tx) => {
+    const policy = getFundingLimits(tx, userId, account.accountType);
+
+    const attempts = countRecentAttempts(tx, account.id, now);
+    if (attempts >= policy.attemptsPerHour) {
+      throw new FundingLimitExceededError({
+        limit: "attempts_per_hour",
+        fundingType,
+        maximum: policy.attemptsPerHour,
+        remaining: 0,
+      });
+    }
+
+    const limits = policy[fundingType];
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const windows = (
+      [
+        ["daily", limits.dailyCents, startOfDay],
+        ["rolling_30_day", limits.rolling30DayCents, new Date(now.getTime() - ROLLING_WINDOW_MS)],
+      ] as [FundingLimitName, number, Date][]
+    ).map(([limit, maximum, since]) => ({
+      limit,
+      maximum,
+      left: Math.max(maximum - getFundedTotal(tx, account.id, fundingType, since), 0),
+    }));
+    const remaining = Math.min(limits.perTransactionCents, ...windows.map(({ left }) => left));
+
+    if (amountCents > limits.perTransactionCents) {
+      throw new FundingLimitExceededError({
+        limit: "per_transaction",
+        fundingType,
+        maximum: limits.perTransactionCents,
+        remaining,
+      });
+    }
+    for (const { limit, maximum, left } of windows) {
+      if (amountCents > left) {
+        throw new FundingLimitExceededError({ limit, fundingType, maximum, remaining });
+      }
+    }
+
+    tx.insert(fundingAttempts)
+      .values({ userId, accountId: account.id, fundingType, amount: amountCents, createdAt: now.toISOString() })
+      .run();
+  });
+}
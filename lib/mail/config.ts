@@ -0,0 +1,16 @@
+// Outgoing mail settings. The defaults write to a local outbox for development and tests; production
+// values come from the environment.
+export type MailConfig = {
+  from: string;
+  outboxDir: string;
+  /** Base URL for links in emails. */
+  appUrl: string;
+};
+
+export function getMailConfig(): MailConfig {
+  return {
+    from: process.env.MAIL_FROM || "SecureBank <no-reply@securebank.local>",
+    outboxDir: process.env.MAIL_OUTBOX_DIR || "mail/outbox",
+    appUrl: (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, ""),
+  };
+}
@@ -0,0 +1,25 @@
+import { getMailConfig } from "./config";
+import type { Mailer } from "./mailer";
+import { OutboxMailer } from "./outbox";
+
+export * from "./config";
+export * from "./mailer";
+export { OutboxMailer, type OutboxMessage } from "./outbox";
+
+let mailer: Mailer | undefined;
+
+/**
+ * The mailer account emails go through. Defaults to the local outbox; a real transport is installed
+ * with setMailer at startup.
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const { outboxDir, from } = getMailConfig();
+    mailer = new OutboxMailer(outboxDir, from);
+  }
+  return mailer;
+}
+
+export function setMailer(next: Mailer | undefined) {
+  mailer = next;
+}
@@ -0,0 +1,11 @@
+// Outgoing email abstraction used for account notices (unlock and password reset links).
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
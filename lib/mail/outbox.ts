@@ -0,0 +1,42 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { MailMessage, Mailer } from "./mailer";
+
+export type OutboxMessage = MailMessage & { from: string; sentAt: string };
+
+/**
+ * Writes each message as a JSON file to a local directory instead of sending it. Used in development
+ * and tests, where links in the mails are followed by hand or read back by the test.
+ */
+export class OutboxMailer implements Mailer {
+  constructor(
+    private readonly outboxDir: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const outboxMessage: OutboxMessage = { ...message, from: this.from, sentAt: sentAt.toISOString() };
+
+    fs.mkdirSync(this.outboxDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outboxDir, `${sentAt.getTime()}-${randomUUID()}.json`),
+      JSON.stringify(outboxMessage, null, 2)
+    );
+  }
+
+  /** Messages in the outbox, oldest first, optionally only those to one recipient. */
+  readMessages(to?: string): OutboxMessage[] {
+    if (!fs.existsSync(this.outboxDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.outboxDir)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => JSON.parse(fs.readFileSync(path.join(this.outboxDir, file), "utf8")) as OutboxMessage)
+      .filter((message) => to === undefined || message.to === to);
+  }
+}
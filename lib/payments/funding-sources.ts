@@ -0,0 +1,182 @@
+import { and, asc, desc, eq, ne } from "drizzle-orm";
+import { fundingSources } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { decryptField, encryptField } from "@/lib/encryption";
+import { bankAccountFingerprint } from "@/lib/ach/entries";
+import { describeCard, tokenizeCard } from "./vault";
+
+export type FundingSourceRecord = typeof fundingSources.$inferSelect;
+
+type SaveCardInput = {
+  number: string;
+  expirationMonth: number;
+  expirationYear: number;
+  postalCode: string;
+  nickname?: string;
+};
+
+type SaveBankAccountInput = {
+  routingNumber: string;
+  accountNumber: string;
+  bankName: string;
+  nickname?: string;
+};
+
+export class FundingSourceNotFoundError extends Error {
+  constructor(id: number) {
+    super(`Funding source ${id} does not exist`);
+    this.name = "FundingSourceNotFoundError";
+  }
+}
+
+export class DuplicateFundingSourceError extends Error {
+  constructor() {
+    super("This funding source is already saved");
+    this.name = "DuplicateFundingSourceError";
+  }
+}
+
+// The first source a user saves becomes their default.
+function insertFundingSource(
+  executor: DbExecutor,
+  values: Omit<typeof fundingSources.$inferInsert, "isDefault">
+): FundingSourceRecord {
+  const existing = executor
+    .select()
+    .from(fundingSources)
+    .where(eq(fundingSources.userId, values.userId))
+    .all();
+
+  if (existing.some((source) => source.fingerprint === values.fingerprint)) {
+    throw new DuplicateFundingSourceError();
+  }
+
+  return executor
+    .insert(fundingSources)
+    .values({ ...values, isDefault: existing.length === 0 })
+    .returning()
+    .get();
+}
+
+/**
+ * Saves a card for later deposits. The number goes into the card vault; the CVV is never kept,
+ * so charges against a saved card are card-on-file charges.
+ */
+export function saveCard(executor: DbExecutor, userId: number, input: SaveCardInput): FundingSourceRecord {
+  return executor.transaction((tx) => {
+    const card = tokenizeCard(tx, {
+      userId,
+      number: input.number,
+      expirationMonth: input.expirationMonth,
+      expirationYear: input.expirationYear,
+    });
+
+    return insertFundingSource(tx, {
+      userId,
+      type: "card",
+      nickname: input.nickname ?? describeCard(card),
+      fingerprint: card.fingerprint,
+      last4: card.last4,
+      cardToken: card.token,
+      brand: card.brand,
+      postalCode: input.postalCode.trim(),
+    });
+  });
+}
+
+export function saveBankAccount(executor: DbExecutor, userId: number, input: SaveBankAccountInput): FundingSourceRecord {
+  const last4 = input.accountNumber.slice(-4);
+
+  return insertFundingSource(executor, {
+    userId,
+    type: "bank",
+    nickname: input.nickname ?? `${input.bankName} •••• ${last4}`,
+    fingerprint: bankAccountFingerprint(input.routingNumber, input.accountNumber),
+    last4,
+    routingNumber: input.routingNumber,
+    accountNumber: encryptField(input.accountNumber),
+    bankName: input.bankName,
+  });
+}
+
+// Default source first, then oldest to newest.
+export function listFundingSources(executor: DbExecutor, userId: number): FundingSourceRecord[] {
+  return executor
+    .select()
+    .from(fundingSources)
+    .where(eq(fundingSources.userId, userId))
+    .orderBy(desc(fundingSources.isDefault), asc(fundingSources.id))
+    .all();
+}
+
+/**
+ * Loads one of the user's funding sources. Sources owned by someone else are reported as missing.
+ */
+export function getFundingSource(executor: DbExecutor, userId: number, id: number): FundingSourceRecord {
+  const source = executor
+    .select()
+    .from(fundingSources)
+    .where(and(eq(fundingSources.id, id), eq(fundingSources.userId, userId)))
+    .get();
+
+  if (!source) {
+    throw new FundingSourceNotFoundError(id);
+  }
+  return source;
+}
+
+export function renameFundingSource(
+  executor: DbExecutor,
+  userId: number,
+  id: number,
+  nickname: string
+): FundingSourceRecord {
+  getFundingSource(executor, userId, id);
+
+  return executor.update(fundingSources).set({ nickname }).where(eq(fundingSources.id, id)).returning().get();
+}
+
+export function setDefaultFundingSource(executor: DbExecutor, userId: number, id: number): FundingSourceRecord {
+  return executor.transaction((tx) => {
+    getFundingSource(tx, userId, id);
+
+    tx.update(fundingSources)
+      .set({ isDefault: false })
+      .where(and(eq(fundingSources.userId, userId), ne(fundingSources.id, id)))
+      .run();
+    return tx.update(fundingSources).set({ isDefault: true }).where(eq(fundingSources.id, id)).returning().get();
+  });
+}
+
+/**
+ * Removes a saved source. When it was the default, the oldest remaining source takes its place.
+ * The card stays in the vault because past authorizations still reference its token.
+ */
+export function deleteFundingSource(executor: DbExecutor, userId: number, id: number) {
+  executor.transaction((tx) => {
+    const source = getFundingSource(tx, userId, id);
+    tx.delete(fundingSources).where(eq(fundingSources.id, id)).run();
+
+    if (source.isDefault) {
+      const next = tx
+        .select()
+        .from(fundingSources)
+        .where(eq(fundingSources.userId, userId))
+        .orderBy(asc(fundingSources.id))
+        .get();
+      if (next) {
+        tx.update(fundingSources).set({ isDefault: true }).where(eq(fundingSources.id, next.id)).run();
+      }
+    }
+  });
+}
+
+/**
+ * Returns the full account number of a saved bank account, for queueing ACH entries.
+ */
+export function revealBankAccountNumber(source: FundingSourceRecord): string {
+  if (source.type !== "bank" || !source.accountNumber) {
+    throw new Error(`Funding source ${source.id} is not a bank account`);
+  }
+  return decryptField(source.accountNumber, "account number");
+}
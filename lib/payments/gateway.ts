@@ -0,0 +1,66 @@
+// Card processor abstraction used by card funding. Amounts are in cents.
+
+export type AuthorizationStatus = "authorized" | "captured" | "voided" | "refunded";
+
+export type Authorization = {
+  id: string;
+  status: AuthorizationStatus;
+  amountCents: number;
+  capturedCents: number;
+  refundedCents: number;
+  last4: string;
+};
+
+/** A vaulted card plus the details checked per charge. Card-on-file charges have no CVV. */
+export type ChargeCard = {
+  token: string;
+  cvv?: string;
+  postalCode: string;
+};
+
+export type AuthorizeRequest = {
+  amountCents: number;
+  card: ChargeCard;
+  /** Our own reference (e.g. an idempotency key) passed through to the processor. */
+  reference?: string;
+};
+
+export interface PaymentGateway {
+  /** Places a hold on the card for the amount. */
+  authorize(request: AuthorizeRequest): Promise<Authorization>;
+  /** Collects funds from an authorization; defaults to the full authorized amount. */
+  capture(authorizationId: string, amountCents?: number): Promise<Authorization>;
+  /** Releases an authorization that was never captured. */
+  void(authorizationId: string): Promise<Authorization>;
+  /** Returns captured funds to the card; defaults to everything not yet refunded. */
+  refund(authorizationId: string, amountCents?: number): Promise<Authorization>;
+}
+
+export type DeclineReason = "card_declined" | "insufficient_funds" | "suspected_fraud";
+
+const DECLINE_MESSAGES: Record<DeclineReason, string> = {
+  card_declined: "Card was declined",
+  insufficient_funds: "Card has insufficient funds",
+  suspected_fraud: "Card was declined due to suspected fraud",
+};
+
+export class PaymentDeclinedError extends Error {
+  constructor(public readonly reason: DeclineReason) {
+    super(DECLINE_MESSAGES[reason]);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+export class PaymentGatewayTimeoutError extends Error {
+  constructor() {
+    super("Payment processor timed out, please try again");
+    this.name = "PaymentGatewayTimeoutError";
+  }
+}
+
+export class InvalidPaymentStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPaymentStateError";
+  }
+}
@@ -0,0 +1,17 @@
+import type { PaymentGateway } from "./gateway";
+import { SimulatedPaymentGateway } from "./simulator";
+
+export * from "./gateway";
+export * from "./funding-sources";
+export { cardFingerprint, describeCard, detokenizeCard, getVaultedCard, tokenizeCard, type VaultedCard } from "./vault";
+
+let gateway: PaymentGateway | undefined;
+
+/**
+ * The gateway card funding goes through. Only the local simulator exists today; a live processor
+ * would be selected here.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  gateway ??= new SimulatedPaymentGateway();
+  return gateway;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { createTestUserData } from '@/server/test-utils';
+import { InvalidPaymentStateError, PaymentDeclinedError, PaymentGatewayTimeoutError } from './gateway';
+import { SimulatedPaymentGateway, TEST_CARDS } from './simulator';
+import { tokenizeCard } from './vault';
+
+describe('SimulatedPaymentGateway', () => {
+  let userId: number;
+
+  beforeAll(() => {
+    userId = db.insert(users).values(createTestUserData()).returning().get().id;
+  });
+
+  const card = (number: string) => ({
+    token: tokenizeCard(db, { userId, number, expirationMonth: 12, expirationYear: new Date().getFullYear() + 3 }).token,
+    cvv: '123',
+    postalCode: '12345',
+  });
+
+  it('should authorize, capture and refund a charge', async () => {
+    const gateway = new SimulatedPaymentGateway();
+
+    const authorization = await gateway.authorize({ amountCents: 5000, card: card('4242424242424242') });
+    expect(authorization).toMatchObject({ status: 'authorized', amountCents: 5000, last4: '4242' });
+
+    expect(await gateway.capture(authorization.id)).toMatchObject({ status: 'captured', capturedCents: 5000 });
+    expect(await gateway.refund(authorization.id, 2000)).toMatchObject({ status: 'captured', refundedCents: 2000 });
+    expect(await gateway.refund(authorization.id)).toMatchObject({ status: 'refunded', refundedCents: 5000 });
+  });
+
+  it('should not capture an authorization after it was voided', async () => {
+    const gateway = new SimulatedPaymentGateway();
+    const authorization = await gateway.authorize({ amountCents: 1000, card: card('4242424242424242') });
+
+    await gateway.void(authorization.id);
+
+    await expect(gateway.capture(authorization.id)).rejects.toThrow(InvalidPaymentStateError);
+  });
+
+  it('should not refund more than was captured', async () => {
+    const gateway = new SimulatedPaymentGateway();
+    const authorization = await gateway.authorize({ amountCents: 1000, card: card('4242424242424242') });
+    await gateway.capture(authorization.id, 600);
+
+    await expect(gateway.refund(authorization.id, 700)).rejects.toThrow(InvalidPaymentStateError);
+  });
+
+  it.each([
+    [TEST_CARDS.declined, 'card_declined'],
+    [TEST_CARDS.insufficientFunds, 'insufficient_funds'],
+    [TEST_CARDS.suspectedFraud, 'suspected_fraud'],
+  ])('should decline test card %s with %s', async (number, reason) => {
+    const gateway = new SimulatedPaymentGateway();
+
+    await expect(gateway.authorize({ amountCents: 1000, card: card(number) })).rejects.toMatchObject({
+      constructor: PaymentDeclinedError,
+      reason,
+    });
+  });
+
+  it('should time out for the timeout test card', async () => {
+    const gateway = new SimulatedPaymentGateway();
+
+    await expect(gateway.authorize({ amountCents: 1000, card: card(TEST_CARDS.timeout) })).rejects.toThrow(
+      PaymentGatewayTimeoutError
+    );
+  });
+});
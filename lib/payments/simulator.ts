@@ -0,0 +1,103 @@
+import { randomUUID } from "crypto";
+import { db } from "@/lib/db";
+import type { DbExecutor } from "@/lib/db/ledger";
+import {
+  InvalidPaymentStateError,
+  PaymentDeclinedError,
+  PaymentGatewayTimeoutError,
+  type Authorization,
+  type AuthorizeRequest,
+  type PaymentGateway,
+} from "./gateway";
+import { detokenizeCard } from "./vault";
+
+/**
+ * Luhn-valid card numbers that make the simulator fail authorization in a fixed way.
+ * Every other valid card is approved.
+ */
+export const TEST_CARDS = {
+  declined: "4000000000000002",
+  insufficientFunds: "4000000000009995",
+  suspectedFraud: "4100000000000019",
+  timeout: "4000000000000119",
+} as const;
+
+const FAILURES: Record<string, () => Error> = {
+  [TEST_CARDS.declined]: () => new PaymentDeclinedError("card_declined"),
+  [TEST_CARDS.insufficientFunds]: () => new PaymentDeclinedError("insufficient_funds"),
+  [TEST_CARDS.suspectedFraud]: () => new PaymentDeclinedError("suspected_fraud"),
+  [TEST_CARDS.timeout]: () => new PaymentGatewayTimeoutError(),
+};
+
+/**
+ * In-memory stand-in for a card processor. Authorizations live for the lifetime of the process.
+ * Like a real processor, it reads card numbers out of the vault by token.
+ */
+export class SimulatedPaymentGateway implements PaymentGateway {
+  private readonly authorizations = new Map<string, Authorization>();
+
+  constructor(private readonly executor: DbExecutor = db) {}
+
+  async authorize(request: AuthorizeRequest): Promise<Authorization> {
+    const pan = detokenizeCard(this.executor, request.card.token);
+    const failure = FAILURES[pan];
+    if (failure) {
+      throw failure();
+    }
+
+    const authorization: Authorization = {
+      id: `auth_${randomUUID()}`,
+      status: "authorized",
+      amountCents: request.amountCents,
+      capturedCents: 0,
+      refundedCents: 0,
+      last4: pan.slice(-4),
+    };
+    this.authorizations.set(authorization.id, authorization);
+    return { ...authorization };
+  }
+
+  async capture(authorizationId: string, amountCents?: number): Promise<Authorization> {
+    const authorization = this.load(authorizationId, "authorized");
+    const amount = amountCents ?? authorization.amountCents;
+    if (amount <= 0 || amount > authorization.amountCents) {
+      throw new InvalidPaymentStateError(`Cannot capture ${amount} cents of a ${authorization.amountCents} cent authorization`);
+    }
+
+    authorization.capturedCents = amount;
+    authorization.status = "captured";
+    return { ...authorization };
+  }
+
+  async void(authorizationId: string): Promise<Authorization> {
+    const authorization = this.load(authorizationId, "authorized");
+    authorization.status = "voided";
+    return { ...authorization };
+  }
+
+  async refund(authorizationId: string, amountCents?: number): Promise<Authorization> {
+    const authorization = this.load(authorizationId, "captured");
+    const refundable = authorization.capturedCents - authorization.refundedCents;
+    const amount = amountCents ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new InvalidPaymentStateError(`Cannot refund ${amount} cents, ${refundable} cents are refundable`);
+    }
+
+    authorization.refundedCents += amount;
+    if (authorization.refundedCents === authorization.capturedCents) {
+      authorization.status = "refunded";
+    }
+    return { ...authorization };
+  }
+
+  private load(authorizationId: string, expected: Authorization["status"]) {
+    const authorization = this.authorizations.get(authorizationId);
+    if (!authorization) {
+      throw new InvalidPaymentStateError(`Authorization ${authorizationId} does not exist`);
+    }
+    if (authorization.status !== expected) {
+      throw new InvalidPaymentStateError(`Authorization ${authorizationId} is ${authorization.status}, expected ${expected}`);
+    }
+    return authorization;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { cardTokens, users } from '@/lib/db/schema';
+import { createTestUserData } from '@/server/test-utils';
+import { UnknownCardTokenError, describeCard, detokenizeCard, getVaultedCard, tokenizeCard } from './vault';
+
+describe('Card vault', () => {
+  let userId: number;
+
+  beforeAll(() => {
+    userId = db.insert(users).values(createTestUserData()).returning().get().id;
+  });
+
+  const tokenize = (number: string) => tokenizeCard(db, { userId, number, expirationMonth: 12, expirationYear: 2030 });
+
+  it('should swap a card number for an opaque token', () => {
+    const card = tokenize('4242 4242 4242 4242');
+
+    expect(card).toMatchObject({ brand: 'Visa', last4: '4242', expirationMonth: 12, expirationYear: 2030 });
+    expect(card.token).toMatch(/^tok_[a-f0-9]{32}$/);
+    expect(describeCard(card)).toBe('Visa •••• 4242');
+    expect(getVaultedCard(db, card.token)).toEqual(card);
+  });
+
+  it('should store the card number encrypted under the vault key', () => {
+    const card = tokenize('4242424242424242');
+
+    const record = db.select().from(cardTokens).where(eq(cardTokens.token, card.token)).get();
+    expect(record?.encryptedPan).not.toContain('4242424242424242');
+    expect(detokenizeCard(db, card.token)).toBe('4242424242424242');
+
+    const vaultKey = process.env.CARD_VAULT_KEY;
+    process.env.CARD_VAULT_KEY = process.env.ENCRYPTION_KEY;
+    try {
+      expect(() => detokenizeCard(db, card.token)).toThrow(/Failed to decrypt card number/);
+    } finally {
+      process.env.CARD_VAULT_KEY = vaultKey;
+    }
+  });
+
+  it('should give the same card the same fingerprint', () => {
+    const first = tokenize('4242424242424242');
+    const other = tokenize('5555555555554444');
+    const renewed = tokenizeCard(db, { userId, number: '4242424242424242', expirationMonth: 12, expirationYear: 2031 });
+
+    expect(renewed.token).not.toBe(first.token);
+    expect(renewed.fingerprint).toBe(first.fingerprint);
+    expect(other.fingerprint).not.toBe(first.fingerprint);
+  });
+
+  it('should reuse the token of a card the user already vaulted', () => {
+    const first = tokenize('4000056655665556');
+    const second = tokenize('4000-0566-5566-5556');
+
+    expect(second).toEqual(first);
+    expect(db.select().from(cardTokens).where(eq(cardTokens.fingerprint, first.fingerprint)).all()).toHaveLength(1);
+  });
+
+  it('should refuse invalid card numbers and unknown tokens', () => {
+    expect(() => tokenize('4242424242424241')).toThrow(/Invalid visa card number/);
+    expect(() => detokenizeCard(db, 'tok_missing')).toThrow(UnknownCardTokenError);
+  });
+});
@@ -0,0 +1,117 @@
+import { randomBytes } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { cardTokens } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { decryptField, encryptField, fingerprintField } from "@/lib/encryption";
+import { normalizeCardNumber, validateCardNumber } from "@/lib/validation/payment";
+
+// The vault has its own key so a leaked ENCRYPTION_KEY does not expose card numbers.
+const VAULT_KEY_VARIABLE = "CARD_VAULT_KEY";
+
+export type VaultedCard = {
+  token: string;
+  brand: string;
+  last4: string;
+  fingerprint: string;
+  expirationMonth: number;
+  expirationYear: number;
+};
+
+type TokenizeCardInput = {
+  userId: number;
+  number: string;
+  expirationMonth: number;
+  expirationYear: number;
+};
+
+export class UnknownCardTokenError extends Error {
+  constructor(token: string) {
+    super(`Card token ${token} does not exist`);
+    this.name = "UnknownCardTokenError";
+  }
+}
+
+const toVaultedCard = (record: typeof cardTokens.$inferSelect): VaultedCard => ({
+  token: record.token,
+  brand: record.brand,
+  last4: record.last4,
+  fingerprint: record.fingerprint,
+  expirationMonth: record.expirationMonth,
+  expirationYear: record.expirationYear,
+});
+
+/**
+ * Keyed fingerprint of a normalized card number, so the same card can be recognized across users and
+ * tokens without decrypting it.
+ */
+export function cardFingerprint(pan: string): string {
+  return fingerprintField(pan);
+}
+
+/**
+ * Stores a card number in the vault and returns the token that stands in for it from then on.
+ * Tokenizing a card the user already vaulted (same number and expiry) returns the existing token, so
+ * repeated, declined or replayed deposits do not pile up copies of the card.
+ */
+export function tokenizeCard(executor: DbExecutor, input: TokenizeCardInput): VaultedCard {
+  const validation = validateCardNumber(input.number);
+  if (!validation.isValid) {
+    throw new Error(validation.message);
+  }
+
+  const pan = normalizeCardNumber(input.number);
+  const fingerprint = cardFingerprint(pan);
+  const existing = executor
+    .select()
+    .from(cardTokens)
+    .where(
+      and(
+        eq(cardTokens.userId, input.userId),
+        eq(cardTokens.fingerprint, fingerprint),
+        eq(cardTokens.expirationMonth, input.expirationMonth),
+        eq(cardTokens.expirationYear, input.expirationYear)
+      )
+    )
+    .get();
+  if (existing) {
+    return toVaultedCard(existing);
+  }
+
+  const record = executor
+    .insert(cardTokens)
+    .values({
+      token: `tok_${randomBytes(16).toString("hex")}`,
+      userId: input.userId,
+      encryptedPan: encryptField(pan, VAULT_KEY_VARIABLE),
+      fingerprint,
+      brand: validation.brand,
+      last4: validation.last4,
+      expirationMonth: input.expirationMonth,
+      expirationYear: input.expirationYear,
+    })
+    .returning()
+    .get();
+
+  return toVaultedCard(record);
+}
+
+export function getVaultedCard(executor: DbExecutor, token: string): VaultedCard | undefined {
+  const record = executor.select().from(cardTokens).where(eq(cardTokens.token, token)).get();
+  return record ? toVaultedCard(record) : undefined;
+}
+
+/**
+ * Returns the raw card number behind a token. Only the payment processor should call this.
+ */
+export function detokenizeCard(executor: DbExecutor, token: string): string {
+  const record = executor.select().from(cardTokens).where(eq(cardTokens.token, token)).get();
+  if (!record) {
+    throw new UnknownCardTokenError(token);
+  }
+  return decryptField(record.encryptedPan, "card number", VAULT_KEY_VARIABLE);
+}
+
+// Customer-facing label, e.g. "Visa •••• 4242".
+export function describeCard(card: Pick<VaultedCard, "brand" | "last4">): string {
+  return `${card.brand} •••• ${card.last4}`;
+}
@@ -0,0 +1,3 @@
+export * from "./sdn-list";
+export * from "./matching";
+export * from "./screening";
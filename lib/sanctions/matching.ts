@@ -0,0 +1,131 @@
+import type { SdnEntry, SdnName } from "./sdn-list";
+
+/** Jaro-Winkler similarity every name token has to reach for a name to count as a match. */
+export const NAME_MATCH_THRESHOLD = 0.9;
+
+export type ScreenedPerson = {
+  firstName: string;
+  lastName: string;
+  /** YYYY-MM-DD */
+  dateOfBirth: string;
+};
+
+export type SanctionsMatch = {
+  uid: string;
+  matchedName: string;
+  score: number;
+  programs: string[];
+};
+
+/**
+ * Lowercase ASCII tokens: accents are dropped, punctuation becomes a separator and particles such as
+ * "al-" stay attached to the following word so "Al-Rashid" and "Al Rashid" compare equal.
+ */
+export function normalizeName(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\b(al|el|abu|bin|ibn|van|von|de|del|da|di|le|la)[\s-]+/g, "$1")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) {
+      continue;
+    }
+    while (!bMatched[j]) {
+      j++;
+    }
+    if (a[i] !== b[j]) {
+      transpositions++;
+    }
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How closely a person's name matches a listed name: every token of the person's first and last name
+ * must resemble some token of the listed name (in any order, so reversed names and extra middle names
+ * on the list still match). Returns the weakest token similarity.
+ */
+export function scoreName(person: Pick<ScreenedPerson, "firstName" | "lastName">, listed: SdnName): number {
+  const personTokens = normalizeName(`${person.firstName} ${person.lastName}`);
+  const listedTokens = normalizeName(`${listed.firstName} ${listed.lastName}`);
+  if (personTokens.length === 0 || listedTokens.length === 0) {
+    return 0;
+  }
+
+  return Math.min(...personTokens.map((token) => Math.max(...listedTokens.map((other) => jaroWinkler(token, other)))));
+}
+
+// A listed DOB may only give the year or month; it is compatible when the known parts agree.
+// Entries without any DOB cannot be ruled out by date.
+function dateOfBirthMatches(entry: SdnEntry, dateOfBirth: string): boolean {
+  return entry.datesOfBirth.length === 0 || entry.datesOfBirth.some((listed) => dateOfBirth.startsWith(listed));
+}
+
+/**
+ * Individuals on the list whose name (or an alias) matches the person and whose DOB does not rule
+ * them out, best match first.
+ */
+export function findSanctionsMatches(person: ScreenedPerson, entries: SdnEntry[]): SanctionsMatch[] {
+  const matches: SanctionsMatch[] = [];
+
+  for (const entry of entries) {
+    if (entry.type !== "individual" || !dateOfBirthMatches(entry, person.dateOfBirth)) {
+      continue;
+    }
+
+    const best = entry.names
+      .map((name) => ({ name, score: scoreName(person, name) }))
+      .reduce((top, candidate) => (candidate.score > top.score ? candidate : top));
+    if (best.score >= NAME_MATCH_THRESHOLD) {
+      matches.push({
+        uid: entry.uid,
+        matchedName: [best.name.lastName, best.name.firstName].filter(Boolean).join(", "),
+        score: Math.round(best.score * 1000) / 1000,
+        programs: entry.programs,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { findSanctionsMatches, normalizeName, scoreName } from './matching';
+import { loadSdnList, parseSdnDate, SanctionsListUnavailableError } from './sdn-list';
+import { screenPerson } from './screening';
+
+const CSV_FIXTURE = 'tests/fixtures/sdn.csv';
+const XML_FIXTURE = 'tests/fixtures/sdn.xml';
+
+describe('SDN list loading', () => {
+  it('should read names, aliases, DOBs and programs from the CSV list', () => {
+    const [kovalenko, alRashid, , entity, halvorsen] = loadSdnList(CSV_FIXTURE);
+
+    expect(kovalenko).toEqual({
+      uid: '9001',
+      type: 'individual',
+      names: [
+        { lastName: 'KOVALENKO', firstName: 'Dmitri Ivanovich' },
+        { lastName: 'KOWALENKO', firstName: 'Dmitry' },
+      ],
+      datesOfBirth: ['1968-03-12'],
+      programs: ['UKRAINE-EO13660', 'RUSSIA-EO14024'],
+    });
+    expect(alRashid.datesOfBirth).toEqual(['1975', '1976']);
+    expect(entity.type).toBe('entity');
+    expect(halvorsen).toMatchObject({ datesOfBirth: [], names: [{ lastName: 'HALVORSEN', firstName: 'Erik' }] });
+  });
+
+  it('should read the same entries from the XML list', () => {
+    const csv = loadSdnList(CSV_FIXTURE);
+    const xml = loadSdnList(XML_FIXTURE);
+
+    expect(xml[0]).toEqual(csv[0]);
+    expect(xml[1]).toEqual(csv[2]);
+    expect(xml[2]).toMatchObject({ type: 'entity', names: [{ lastName: 'NORTHWIND TRADING & SHIPPING LLC' }] });
+  });
+
+  it('should parse partial and approximate dates', () => {
+    expect(parseSdnDate('05 Jul 1980')).toBe('1980-07-05');
+    expect(parseSdnDate('Jul 1980')).toBe('1980-07');
+    expect(parseSdnDate('circa 1980')).toBe('1980');
+    expect(parseSdnDate('1980 to 1982')).toBeNull();
+  });
+
+  it('should fail when the list file is missing', () => {
+    expect(() => loadSdnList('tests/fixtures/missing.csv')).toThrow(SanctionsListUnavailableError);
+  });
+});
+
+describe('Sanctions name matching', () => {
+  it('should normalize accents, punctuation and name particles', () => {
+    expect(normalizeName('José  Al-Rashid')).toEqual(['jose', 'alrashid']);
+    expect(normalizeName("O'Brien, Seán")).toEqual(['o', 'brien', 'sean']);
+  });
+
+  it('should score transliterations and reordered names close to the listed name', () => {
+    const listed = { lastName: 'KOVALENKO', firstName: 'Dmitri Ivanovich' };
+
+    expect(scoreName({ firstName: 'Dmitri', lastName: 'Kovalenko' }, listed)).toBe(1);
+    expect(scoreName({ firstName: 'Dmitriy', lastName: 'Kovalenko' }, listed)).toBeGreaterThan(0.9);
+    expect(scoreName({ firstName: 'Kovalenko', lastName: 'Dmitri' }, listed)).toBe(1);
+    expect(scoreName({ firstName: 'Dmitri', lastName: 'Kovacs' }, listed)).toBeLessThan(0.9);
+  });
+
+  it('should match on name and a compatible DOB only', () => {
+    const entries = loadSdnList(CSV_FIXTURE);
+
+    expect(findSanctionsMatches({ firstName: 'Dmitry', lastName: 'Kowalenko', dateOfBirth: '1968-03-12' }, entries)).toEqual([
+      { uid: '9001', matchedName: 'KOWALENKO, Dmitry', score: 1, programs: ['UKRAINE-EO13660', 'RUSSIA-EO14024'] },
+    ]);
+    expect(findSanctionsMatches({ firstName: 'Dmitri', lastName: 'Kovalenko', dateOfBirth: '1991-03-12' }, entries)).toEqual([]);
+    // Only the year of birth is listed.
+    expect(findSanctionsMatches({ firstName: 'Yusuf', lastName: 'Al Rashid', dateOfBirth: '1976-11-30' }, entries)).toHaveLength(1);
+    // No DOB is listed, so any date matches.
+    expect(findSanctionsMatches({ firstName: 'Erik', lastName: 'Halvorsen', dateOfBirth: '2001-01-01' }, entries)).toHaveLength(1);
+  });
+
+  it('should not match entities', () => {
+    expect(
+      screenPerson({ firstName: 'Northwind', lastName: 'Trading', dateOfBirth: '1980-01-01' }, CSV_FIXTURE)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { and, asc, eq } from "drizzle-orm";
+import { sanctionsMatches, users } from "@/lib/db/schema";
+import type { DbExecutor } from "@/lib/db/ledger";
+import { findSanctionsMatches, type SanctionsMatch, type ScreenedPerson } from "./matching";
+import { loadSdnList } from "./sdn-list";
+
+/** Review outcome: cleared (false positive, the user is activated) or confirmed (the user stays blocked). */
+export type SanctionsReviewOutcome = "cleared" | "confirmed";
+
+export type SanctionsMatchRecord = typeof sanctionsMatches.$inferSelect;
+
+export class SanctionsReviewNotFoundError extends Error {
+  constructor(userId: number) {
+    super(`User ${userId} has no sanctions matches waiting for review`);
+    this.name = "SanctionsReviewNotFoundError";
+  }
+}
+
+/**
+ * Checks a person against the current SDN list. Throws SanctionsListUnavailableError when the list
+ * cannot be read, so callers fail closed instead of letting an unscreened user through.
+ */
+export function screenPerson(person: ScreenedPerson, filePath?: string): SanctionsMatch[] {
+  return findSanctionsMatches(person, loadSdnList(filePath));
+}
+
+export function recordSanctionsMatches(executor: DbExecutor, userId: number, matches: SanctionsMatch[]) {
+  for (const match of matches) {
+    executor
+      .insert(sanctionsMatches)
+      .values({
+        userId,
+        listEntryUid: match.uid,
+        matchedName: match.matchedName,
+        score: match.score,
+        programs: match.programs.join(","),
+      })
+      .run();
+  }
+}
+
+/**
+ * Users waiting on a sanctions review with their pending matches, oldest signup first.
+ */
+export function listPendingSanctionsReviews(executor: DbExecutor) {
+  return executor
+    .select({ userId: sanctionsMatches.userId, match: sanctionsMatches })
+    .from(sanctionsMatches)
+    .innerJoin(users, eq(sanctionsMatches.userId, users.id))
+    .where(and(eq(users.status, "pending_review"), eq(sanctionsMatches.status, "pending")))
+    .orderBy(asc(sanctionsMatches.userId), asc(sanctionsMatches.id))
+    .all();
+}
+
+/**
+ * Closes a user's pending matches. Clearing them activates the user; confirming any blocks the user
+ * for good.
+ */
+export function resolveSanctionsReview(
+  executor: DbExecutor,
+  userId: number,
+  outcome: SanctionsReviewOutcome,
+  now = new Date()
+) {
+  return executor.transaction((tx) => {
+    const pending = tx
+      .update(sanctionsMatches)
+      .set({ status: outcome, reviewedAt: now.toISOString() })
+      .where(and(eq(sanctionsMatches.userId, userId), eq(sanctionsMatches.status, "pending")))
+      .returning()
+      .all();
+
+    if (pending.length === 0) {
+      throw new SanctionsReviewNotFoundError(userId);
+    }
+
+    return tx
+      .update(users)
+      .set({ status: outcome === "cleared" ? "active" : "blocked" })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, status: users.status })
+      .get();
+  });
+}
@@ -0,0 +1,191 @@
+import fs from "fs";
+
+// Loader for the OFAC Specially Designated Nationals list, in either of the formats OFAC publishes:
+// sdn.csv (no header; names in "LAST, First" form, DOBs and aliases inside the remarks column) or sdn.xml.
+
+export type SdnName = {
+  firstName: string;
+  lastName: string;
+};
+
+export type SdnEntry = {
+  uid: string;
+  type: "individual" | "entity" | "vessel" | "aircraft";
+  /** Primary name first, then aliases. */
+  names: SdnName[];
+  /** "YYYY-MM-DD", "YYYY-MM" or "YYYY", depending on how precise the list is. */
+  datesOfBirth: string[];
+  programs: string[];
+};
+
+export class SanctionsListUnavailableError extends Error {
+  constructor(filePath: string, cause?: unknown) {
+    super(`Sanctions list could not be loaded from ${filePath}; point OFAC_SDN_PATH at a copy of the OFAC SDN list`, { cause });
+    this.name = "SanctionsListUnavailableError";
+  }
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// OFAC writes dates as "12 Mar 1968", "Mar 1968" or "1968", sometimes prefixed with "circa".
+export function parseSdnDate(value: string): string | null {
+  const match = value
+    .trim()
+    .replace(/^circa\s+/i, "")
+    .match(/^(?:(\d{1,2})\s+)?(?:([A-Za-z]{3})[a-z]*\s+)?(\d{4})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, day, month, year] = match;
+  const monthIndex = month ? MONTHS.indexOf(month.toLowerCase()) : -1;
+  if (month && monthIndex === -1) {
+    return null;
+  }
+  if (!month) {
+    return year;
+  }
+
+  const yearMonth = `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+  return day ? `${yearMonth}-${day.padStart(2, "0")}` : yearMonth;
+}
+
+// "KOVALENKO, Dmitri Ivanovich" -> last name before the comma, given names after it.
+function splitSdnName(value: string): SdnName {
+  const [lastName, ...rest] = value.split(",");
+  return { lastName: lastName.trim(), firstName: rest.join(",").trim() };
+}
+
+function normalizeType(value: string): SdnEntry["type"] {
+  const type = value.trim().toLowerCase();
+  return type === "individual" || type === "vessel" || type === "aircraft" ? type : "entity";
+}
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+// "-0-" marks an empty field in OFAC's CSV files.
+const csvValue = (value: string | undefined) => (value === undefined || value.trim() === "-0-" ? "" : value.trim());
+
+export function parseSdnCsv(text: string): SdnEntry[] {
+  return parseCsvRows(text).map((fields) => {
+    const [uid, name, type, program, , , , , , , , remarks] = fields.map(csvValue);
+    const aliases = [...remarks.matchAll(/a\.k\.a\.\s+'([^']+)'/gi)].map((match) => splitSdnName(match[1]));
+    const datesOfBirth = [...remarks.matchAll(/DOB\s+([^;]+)/g)]
+      .map((match) => parseSdnDate(match[1]))
+      .filter((date): date is string => date !== null);
+
+    return {
+      uid,
+      type: normalizeType(type),
+      names: [splitSdnName(name), ...aliases],
+      datesOfBirth,
+      programs: program.split(/\]\s*\[|;/).map((value) => value.replace(/[[\]]/g, "").trim()).filter(Boolean),
+    };
+  });
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]).trim();
+}
+
+function xmlElements(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g"))].map((match) => match[1]);
+}
+
+const xmlText = (xml: string, tag: string) => decodeXml(xmlElements(xml, tag)[0] ?? "");
+
+export function parseSdnXml(text: string): SdnEntry[] {
+  return xmlElements(text, "sdnEntry").map((entry) => {
+    const akaList = xmlElements(entry, "akaList")[0] ?? "";
+    const dobList = xmlElements(entry, "dateOfBirthList")[0] ?? "";
+    // Strip nested lists before reading the entry's own name fields.
+    const own = entry.replace(/<(akaList|dateOfBirthList|addressList|idList|programList)[\s\S]*?<\/\1>/g, "");
+
+    return {
+      uid: xmlText(own, "uid"),
+      type: normalizeType(xmlText(own, "sdnType")),
+      names: [
+        { firstName: xmlText(own, "firstName"), lastName: xmlText(own, "lastName") },
+        ...xmlElements(akaList, "aka").map((aka) => ({
+          firstName: xmlText(aka, "firstName"),
+          lastName: xmlText(aka, "lastName"),
+        })),
+      ],
+      datesOfBirth: xmlElements(dobList, "dateOfBirth")
+        .map((value) => parseSdnDate(decodeXml(value)))
+        .filter((date): date is string => date !== null),
+      programs: xmlElements(entry, "program").map(decodeXml),
+    };
+  });
+}
+
+export function getSdnListPath(): string {
+  return process.env.OFAC_SDN_PATH || "ofac/sdn.csv";
+}
+
+let cached: { filePath: string; modifiedAt: number; entries: SdnEntry[] } | undefined;
+
+/**
+ * Reads and parses the SDN list, picking the format from the file extension. The parsed list is kept
+ * in memory until the file changes.
+ */
+export function loadSdnList(filePath = getSdnListPath()): SdnEntry[] {
+  let modifiedAt: number;
+  let text: string;
+  try {
+    modifiedAt = fs.statSync(filePath).mtimeMs;
+    if (cached?.filePath === filePath && cached.modifiedAt === modifiedAt) {
+      return cached.entries;
+    }
+    text = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new SanctionsListUnavailableError(filePath, error);
+  }
+
+  const entries = filePath.toLowerCase().endsWith(".xml") ? parseSdnXml(text) : parseSdnCsv(text);
+  cached = { filePath, modifiedAt, entries };
+  return entries;
+}
@@ -1,10 +1,12 @@
 import valid from "card-validator";
+import routingDirectory from "./routing-directory.json";
 
+// Valid results carry only the brand and last four digits; the full number goes straight to the card vault.
 export type CardValidationResult =
   | {
       isValid: true;
       brand: string;
-      normalized: string;
+      last4: string;
     }
   | {
       isValid: false;
@@ -14,8 +16,12 @@ export type CardValidationResult =
 
 const DIGIT_STRIPPER = /[\s-]/g;
 
+export function normalizeCardNumber(raw: string): string {
+  return raw.replace(DIGIT_STRIPPER, "");
+}
+
 export function validateCardNumber(raw: string): CardValidationResult {
-  const normalized = raw.replace(DIGIT_STRIPPER, "");
+  const normalized = normalizeCardNumber(raw);
   const validation = valid.number(normalized);
   const brand = validation.card?.niceType ?? "card";
 
@@ -31,7 +37,127 @@ export function validateCardNumber(raw: string): CardValidationResult {
   return {
     isValid: true,
     brand,
-    normalized,
+    last4: normalized.slice(-4),
   };
 }
 
+
+export type CardDetails = {
+  number: string;
+  expirationMonth: number;
+  expirationYear: number;
+  cvv: string;
+  postalCode: string;
+};
+
+export type CardField = "number" | "expiration" | "cvv" | "postalCode";
+
+export type CardDetailsValidationResult =
+  | {
+      isValid: true;
+      brand: string;
+      last4: string;
+    }
+  | {
+      isValid: false;
+      brand: string;
+      /** One message per invalid field, so forms can show each next to its input. */
+      errors: Partial<Record<CardField, string>>;
+    };
+
+// Cards are not issued with expiry dates further out than this.
+const MAX_EXPIRATION_YEARS = 20;
+const BILLING_ZIP = /^\d{5}(-\d{4})?$/;
+
+export function validateExpiration(month: number, year: number, now = new Date()): string | undefined {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    return "Invalid expiration month";
+  }
+
+  const currentYear = now.getFullYear();
+  if (!Number.isInteger(year) || year > currentYear + MAX_EXPIRATION_YEARS) {
+    return "Invalid expiration year";
+  }
+
+  // A card is valid through the last day of its expiration month.
+  if (year < currentYear || (year === currentYear && month < now.getMonth() + 1)) {
+    return "Card has expired";
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates everything needed to charge a card: the number, expiry (not in the past),
+ * a CVV of the length the brand uses (4 digits for Amex) and the billing ZIP code.
+ */
+export function validateCardDetails(details: CardDetails, now = new Date()): CardDetailsValidationResult {
+  const numberValidation = validateCardNumber(details.number);
+  const errors: Partial<Record<CardField, string>> = {};
+
+  if (!numberValidation.isValid) {
+    errors.number = numberValidation.message;
+  }
+
+  const expirationError = validateExpiration(details.expirationMonth, details.expirationYear, now);
+  if (expirationError) {
+    errors.expiration = expirationError;
+  }
+
+  const cvvLength = valid.number(normalizeCardNumber(details.number)).card?.code.size ?? 3;
+  if (!/^\d+$/.test(details.cvv) || details.cvv.length !== cvvLength) {
+    errors.cvv = `CVV must be ${cvvLength} digits`;
+  }
+
+  if (!BILLING_ZIP.test(details.postalCode.trim())) {
+    errors.postalCode = "Invalid billing ZIP code";
+  }
+
+  if (!numberValidation.isValid || Object.keys(errors).length > 0) {
+    return { isValid: false, brand: numberValidation.brand, errors };
+  }
+
+  return { isValid: true, brand: numberValidation.brand, last4: numberValidation.last4 };
+}
+
+export type RoutingNumberValidationResult =
+  | {
+      isValid: true;
+      routingNumber: string;
+      bankName: string;
+    }
+  | {
+      isValid: false;
+      message: string;
+    };
+
+// Weights for the ABA check digit: 3, 7, 1 repeated across the nine digits.
+const ROUTING_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+// Routing numbers we accept and the institution each belongs to. Refresh the file from the
+// Federal Reserve E-Payments Routing Directory when banks merge or new numbers are issued.
+const ROUTING_DIRECTORY: Record<string, string> = routingDirectory.institutions;
+
+export function lookupBankName(routingNumber: string): string | undefined {
+  return ROUTING_DIRECTORY[routingNumber];
+}
+
+export function validateRoutingNumber(raw: string): RoutingNumberValidationResult {
+  const routingNumber = raw.replace(DIGIT_STRIPPER, "");
+
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return { isValid: false, message: "Routing number must be 9 digits" };
+  }
+
+  const checksum = ROUTING_WEIGHTS.reduce((sum, weight, index) => sum + weight * Number(routingNumber[index]), 0);
+  if (checksum % 10 !== 0) {
+    return { isValid: false, message: "Invalid routing number" };
+  }
+
+  const bankName = lookupBankName(routingNumber);
+  if (!bankName) {
+    return { isValid: false, message: "Unknown routing number" };
+  }
+
+  return { isValid: true, routingNumber, bankName };
+}
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { achEntries } from '@/lib/db/schema';
+import { accountRouter } from '../routers/account';
+import { paymentMethodsRouter } from '../routers/payment-methods';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
+import { exportAchFile } from './ach-export';
+
+describe('exportAchFile', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should export pending bank funding and withdrawals as NACHA entries', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const funding = await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 100,
+      fundingSource: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+    });
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 50,
+      fundingSource: createTestCardSource(),
+    });
+    const withdrawal = await accountCaller.withdraw({
+      accountId: account.id,
+      amount: 40,
+      destination: { type: 'bank', accountNumber: '55554444', routingNumber: '026009593' },
+    });
+
+    const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ach-outbox-'));
+    const result = exportAchFile({ now: new Date('2025-01-06T14:30:00Z'), outboxDir });
+
+    expect(result).not.toBeNull();
+    expect(result!.file.fileName).toBe('ACH_20250106_A.txt');
+    expect(fs.readFileSync(result!.filePath!, 'utf-8')).toBe(result!.contents);
+
+    const lines = result!.contents.trimEnd().split('\n');
+    const entryLines = lines.filter((line) => line.startsWith('6'));
+    expect(entryLines).toHaveLength(2);
+    expect(entryLines[0]).toMatch(/^627021000021000123456789     0000010000/);
+    expect(entryLines[1]).toMatch(/^62202600959355554444         0000004000/);
+    expect(lines.filter((line) => line.startsWith('5')).map((line) => line.slice(50, 53))).toEqual(['WEB', 'PPD']);
+
+    const [fundingEntry] = await db.select().from(achEntries).where(eq(achEntries.transactionId, funding.transaction.id)).all();
+    const [withdrawalEntry] = await db
+      .select()
+      .from(achEntries)
+      .where(eq(achEntries.transactionId, withdrawal.transaction.id))
+      .all();
+    expect(fundingEntry.status).toBe('exported');
+    expect(fundingEntry.achFileId).toBe(result!.file.id);
+    expect(fundingEntry.accountNumber).not.toContain('000123456789');
+    expect(entryLines[0].slice(79)).toBe(fundingEntry.traceNumber);
+    expect(entryLines[1].slice(79)).toBe(withdrawalEntry.traceNumber);
+  });
+
+  it('should return null when nothing is pending and use the next file ID modifier afterwards', async () => {
+    const now = new Date('2025-02-03T10:00:00Z');
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const fundByBank = () =>
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 1,
+        fundingSource: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+      });
+
+    await fundByBank();
+    const first = exportAchFile({ now, outboxDir: null });
+    expect(exportAchFile({ now, outboxDir: null })).toBeNull();
+
+    await fundByBank();
+    const second = exportAchFile({ now, outboxDir: null });
+
+    expect(first!.file.fileIdModifier).toBe('A');
+    expect(second!.file.fileIdModifier).toBe('B');
+    expect(second!.file.fileName).toBe('ACH_20250203_B.txt');
+  });
+
+  it('should send micro-deposits in their own ACCTVERIFY batch', async () => {
+    const ctx = await createAuthenticatedContext();
+    const verification = await paymentMethodsRouter.createCaller(ctx).startBankVerification({
+      accountNumber: '000123456789',
+      routingNumber: '021000021',
+    });
+
+    const result = exportAchFile({ now: new Date('2025-03-03T10:00:00Z'), outboxDir: null });
+
+    const lines = result!.contents.trimEnd().split('\n');
+    expect(lines.filter((line) => line.startsWith('5')).map((line) => line.slice(53, 63))).toEqual(['ACCTVERIFY']);
+    const addenda = lines.filter((line) => line.startsWith('7')).map((line) => line.slice(3, 83).trim());
+    expect(addenda).toEqual([
+      `ACCOUNT VERIFICATION REF ${verification.id}`,
+      `ACCOUNT VERIFICATION REF ${verification.id}`,
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { asc, eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { achEntries, achFiles } from "@/lib/db/schema";
+import { decryptField } from "@/lib/encryption";
+import { getAchConfig } from "@/lib/ach/config";
+import { buildNachaFile, TRANSACTION_CODES, type NachaBatch, type NachaEntry } from "@/lib/ach/nacha";
+import { addBusinessDays } from "./settlement";
+
+const FILE_ID_MODIFIERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+type AchEntryRecord = typeof achEntries.$inferSelect;
+
+type ExportOptions = {
+  now?: Date;
+  /** Directory the file is written to; `null` skips writing (the contents are still returned). */
+  outboxDir?: string | null;
+};
+
+// Trace numbers are the ODFI's 8-digit id plus a 7-digit sequence; the entry id keeps them unique.
+function traceNumberFor(odfiRoutingNumber: string, entry: AchEntryRecord): string {
+  return `${odfiRoutingNumber.slice(0, 8)}${String(entry.id % 10_000_000).padStart(7, "0")}`;
+}
+
+function toNachaEntry(entry: AchEntryRecord, traceNumber: string): NachaEntry {
+  const codes = TRANSACTION_CODES[entry.accountType === "savings" ? "savings" : "checking"];
+  return {
+    transactionCode: entry.direction === "debit" ? codes.debit : codes.credit,
+    routingNumber: entry.routingNumber,
+    accountNumber: decryptField(entry.accountNumber, "account number"),
+    amountCents: entry.amount,
+    individualId: `SB${entry.userId}`,
+    individualName: entry.individualName,
+    traceNumber,
+    addenda: entry.bankVerificationId
+      ? `ACCOUNT VERIFICATION REF ${entry.bankVerificationId}`
+      : `${entry.direction === "debit" ? "ACCOUNT FUNDING" : "WITHDRAWAL"} REF ${entry.transactionId ?? entry.id}`,
+  };
+}
+
+/**
+ * Collects every pending ACH entry into a NACHA file, marks the entries exported and writes the
+ * file to the outbox for the ODFI. Debits (customer funding) go in a WEB batch, credits
+ * (withdrawals) in a PPD batch and micro-deposits in their own PPD batch described as ACCTVERIFY,
+ * as NACHA requires for micro-entries.
+ *
+ * @returns The recorded file and its contents, or null when nothing is pending
+ */
+export function exportAchFile(options: ExportOptions = {}) {
+  const now = options.now ?? new Date();
+  const config = getAchConfig();
+  const outboxDir = options.outboxDir === undefined ? config.outboxDir : options.outboxDir;
+
+  return db.transaction((tx) => {
+    const pending = tx
+      .select()
+      .from(achEntries)
+      .where(eq(achEntries.status, "pending"))
+      .orderBy(asc(achEntries.id))
+      .all();
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const day = now.toISOString().slice(0, 10);
+    const filesToday = tx
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(achFiles)
+      .where(sql`substr(${achFiles.createdAt}, 1, 10) = ${day}`)
+      .get();
+    const fileIdModifier = FILE_ID_MODIFIERS[filesToday?.count ?? 0];
+    if (!fileIdModifier) {
+      throw new Error(`No file ID modifiers left for ${day}`);
+    }
+
+    const traced = pending.map((entry) => ({ entry, traceNumber: traceNumberFor(config.odfiRoutingNumber, entry) }));
+    const effectiveEntryDate = addBusinessDays(now, 1);
+    const batches: NachaBatch[] = [];
+
+    const debits = traced.filter(({ entry }) => entry.direction === "debit");
+    if (debits.length > 0) {
+      batches.push({
+        serviceClassCode: "225",
+        secCode: "WEB",
+        companyEntryDescription: "FUNDING",
+        effectiveEntryDate,
+        entries: debits.map(({ entry, traceNumber }) => toNachaEntry(entry, traceNumber)),
+      });
+    }
+
+    const credits = traced.filter(({ entry }) => entry.direction === "credit");
+    const withdrawals = credits.filter(({ entry }) => !entry.bankVerificationId);
+    if (withdrawals.length > 0) {
+      batches.push({
+        serviceClassCode: "220",
+        secCode: "PPD",
+        companyEntryDescription: "WITHDRAWAL",
+        effectiveEntryDate,
+        entries: withdrawals.map(({ entry, traceNumber }) => toNachaEntry(entry, traceNumber)),
+      });
+    }
+
+    const microDeposits = credits.filter(({ entry }) => entry.bankVerificationId);
+    if (microDeposits.length > 0) {
+      batches.push({
+        serviceClassCode: "220",
+        secCode: "PPD",
+        companyEntryDescription: "ACCTVERIFY",
+        effectiveEntryDate,
+        entries: microDeposits.map(({ entry, traceNumber }) => toNachaEntry(entry, traceNumber)),
+      });
+    }
+
+    const contents = buildNachaFile({
+      immediateDestination: config.odfiRoutingNumber,
+      immediateDestinationName: config.odfiName,
+      immediateOrigin: config.companyId,
+      immediateOriginName: config.companyName,
+      companyName: config.companyName,
+      companyId: config.companyId,
+      odfiRoutingNumber: config.odfiRoutingNumber,
+      fileIdModifier,
+      createdAt: now,
+      batches,
+    });
+
+    const fileName = `ACH_${day.replace(/-/g, "")}_${fileIdModifier}.txt`;
+    const file = tx
+      .insert(achFiles)
+      .values({
+        fileName,
+        fileIdModifier,
+        entryCount: pending.length,
+        totalDebit: debits.reduce((sum, { entry }) => sum + entry.amount, 0),
+        totalCredit: credits.reduce((sum, { entry }) => sum + entry.amount, 0),
+        createdAt: now.toISOString(),
+      })
+      .returning()
+      .get();
+
+    for (const { entry, traceNumber } of traced) {
+      tx.update(achEntries)
+        .set({ status: "exported", traceNumber, achFileId: file.id })
+        .where(eq(achEntries.id, entry.id))
+        .run();
+    }
+
+    // Written inside the transaction so a failed write leaves the entries pending.
+    let filePath: string | null = null;
+    if (outboxDir) {
+      fs.mkdirSync(outboxDir, { recursive: true });
+      filePath = path.join(outboxDir, fileName);
+      fs.writeFileSync(filePath, contents);
+    }
+
+    return { file, contents, filePath, entryIds: pending.map((entry) => entry.id) };
+  });
+}
+
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { achEntries, bankVerifications, postings, transactions } from '@/lib/db/schema';
+import { verifyAccountBalance } from '@/lib/db/ledger';
+import { parseReturnFile } from '@/lib/ach/returns';
+import { startBankVerification } from '@/lib/ach/verification';
+import { accountRouter } from '../routers/account';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
+import { exportAchFile } from './ach-export';
+import { importAchReturns } from './ach-returns';
+
+const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+
+// Builds a minimal return file: one entry detail and type 99 addenda per returned entry.
+function buildReturnFile(returns: { traceNumber: string; amountCents: number; reasonCode: string }[]) {
+  const records = returns.flatMap(({ traceNumber, amountCents, reasonCode }, index) => {
+    const rdfiTrace = `02100002${String(index + 1).padStart(7, '0')}`;
+    return [
+      '626' +
+        '021000021' +
+        '000123456789'.padEnd(17) +
+        String(amountCents).padStart(10, '0') +
+        'SB1'.padEnd(15) +
+        'JANE DOE'.padEnd(22) +
+        '  1' +
+        rdfiTrace,
+      '799' + reasonCode + traceNumber + ' '.repeat(6) + '02100002' + ' '.repeat(44) + rdfiTrace,
+    ];
+  });
+  return [
+    '101 011000015 0210000212501081200A094101LOCAL ODFI             CHASE                          ',
+    ...records,
+    '9'.repeat(94),
+  ].join('\n');
+}
+
+async function exportedEntryFor(transactionId: number) {
+  exportAchFile({ outboxDir: null });
+  return (await db.select().from(achEntries).where(eq(achEntries.transactionId, transactionId)).get())!;
+}
+
+describe('parseReturnFile', () => {
+  it('should read the reason code, original trace number and amount', () => {
+    const [achReturn] = parseReturnFile(
+      buildReturnFile([{ traceNumber: '011000010000042', amountCents: 2500, reasonCode: 'R03' }])
+    );
+
+    expect(achReturn).toEqual({
+      returnReasonCode: 'R03',
+      originalTraceNumber: '011000010000042',
+      routingNumber: '021000021',
+      amountCents: 2500,
+      addendaInformation: '',
+    });
+  });
+
+  it('should reject records that are not 94 characters', () => {
+    expect(() => parseReturnFile('799R01')).toThrow(/expected 94/);
+  });
+});
+
+describe('importAchReturns', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should mark a bounced deposit returned with its reason code and reverse it', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 75, fundingSource: bankSource });
+    const entry = await exportedEntryFor(transaction.id);
+
+    const result = importAchReturns(
+      buildReturnFile([{ traceNumber: entry.traceNumber!, amountCents: entry.amount, reasonCode: 'R01' }])
+    );
+
+    expect(result.returned).toEqual([transaction.id]);
+    const returned = await db.select().from(transactions).where(eq(transactions.id, transaction.id)).get();
+    expect(returned?.status).toBe('returned');
+    expect(returned?.returnReasonCode).toBe('R01');
+
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(0);
+    expect(verifyAccountBalance(db, account.id).matches).toBe(true);
+  });
+
+  it('should refund a withdrawal the receiving bank could not credit', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 60,
+      fundingSource: createTestCardSource(),
+    });
+    const { transaction } = await accountCaller.withdraw({ accountId: account.id, amount: 60, destination: bankSource });
+    const entry = await exportedEntryFor(transaction.id);
+
+    importAchReturns(buildReturnFile([{ traceNumber: entry.traceNumber!, amountCents: 6000, reasonCode: 'R02' }]));
+
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(60);
+  });
+
+  it('should ignore a return file that was already imported', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 40, fundingSource: bankSource });
+    const entry = await exportedEntryFor(transaction.id);
+    const file = buildReturnFile([{ traceNumber: entry.traceNumber!, amountCents: entry.amount, reasonCode: 'R03' }]);
+
+    importAchReturns(file);
+    const second = importAchReturns(file);
+
+    expect(second.returned).toEqual([]);
+    expect(second.skipped).toHaveLength(1);
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(0);
+  });
+
+  it('should take a returned micro-deposit off the verification expense and fail its verification', async () => {
+    const { user } = await createAuthenticatedContext();
+    const verification = startBankVerification(db, {
+      userId: user!.id,
+      routingNumber: '021000021',
+      accountNumber: '000111222333',
+      individualName: 'Jane Doe',
+    });
+    exportAchFile({ outboxDir: null });
+    const [entry] = await db.select().from(achEntries).where(eq(achEntries.bankVerificationId, verification.id)).all();
+
+    importAchReturns(buildReturnFile([{ traceNumber: entry.traceNumber!, amountCents: entry.amount, reasonCode: 'R03' }]));
+
+    const expense = await db
+      .select()
+      .from(postings)
+      .where(and(eq(postings.systemAccount, 'verification_expense'), eq(postings.amount, entry.amount)))
+      .all();
+    expect(expense).toHaveLength(1);
+    expect((await db.select().from(achEntries).where(eq(achEntries.id, entry.id)).get())?.status).toBe('returned');
+    expect((await db.select().from(bankVerifications).where(eq(bankVerifications.id, verification.id)).get())?.status).toBe(
+      'failed'
+    );
+  });
+
+  it('should report returns that do not match an exported entry', () => {
+    const result = importAchReturns(
+      buildReturnFile([{ traceNumber: '011000019999999', amountCents: 100, reasonCode: 'R04' }])
+    );
+
+    expect(result.returned).toEqual([]);
+    expect(result.unmatched.map((achReturn) => achReturn.originalTraceNumber)).toEqual(['011000019999999']);
+  });
+});
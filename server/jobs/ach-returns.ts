@@ -0,0 +1,77 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { achEntries } from "@/lib/db/schema";
+import { postJournalEntry } from "@/lib/db/ledger";
+import { InvalidTransitionError, reverseTransaction } from "@/lib/db/settlement";
+import { parseReturnFile, type AchReturn } from "@/lib/ach/returns";
+import { failBankVerification } from "@/lib/ach/verification";
+
+type ImportResult = {
+  /** Transactions that were marked returned and reversed. */
+  returned: number[];
+  /** Returns that do not match an entry we sent; these need manual review. */
+  unmatched: AchReturn[];
+  /** Returns for entries that were already returned or can no longer be reversed. */
+  skipped: AchReturn[];
+};
+
+/**
+ * Applies a NACHA return file: each returned entry is matched to the ACH entry we exported by
+ * its original trace number, and the linked transaction is marked returned with the reason code
+ * and reversed. Each return is applied in its own transaction, so importing the same file twice
+ * is harmless.
+ */
+export function importAchReturns(contents: string, options: { now?: Date } = {}): ImportResult {
+  const now = options.now ?? new Date();
+  const result: ImportResult = { returned: [], unmatched: [], skipped: [] };
+
+  for (const achReturn of parseReturnFile(contents)) {
+    db.transaction((tx) => {
+      const entry = tx
+        .select()
+        .from(achEntries)
+        .where(eq(achEntries.traceNumber, achReturn.originalTraceNumber))
+        .get();
+
+      if (!entry || entry.amount !== achReturn.amountCents) {
+        result.unmatched.push(achReturn);
+        return;
+      }
+      if (entry.status === "returned") {
+        result.skipped.push(achReturn);
+        return;
+      }
+
+      if (entry.transactionId) {
+        try {
+          reverseTransaction(tx, entry.transactionId, "returned", {
+            processedAt: now,
+            returnReasonCode: achReturn.returnReasonCode,
+          });
+        } catch (error) {
+          if (!(error instanceof InvalidTransitionError)) {
+            throw error;
+          }
+          result.skipped.push(achReturn);
+          return;
+        }
+        result.returned.push(entry.transactionId);
+      } else if (entry.bankVerificationId) {
+        // A returned micro-deposit came back to us; take it off the verification expense. The user can
+        // never confirm amounts that did not arrive, so the verification fails.
+        failBankVerification(tx, entry.bankVerificationId);
+        postJournalEntry(tx, {
+          description: `Returned micro-deposit for bank verification ${entry.bankVerificationId}`,
+          postings: [
+            { systemAccount: "ach_clearing", amount: -entry.amount },
+            { systemAccount: "verification_expense", amount: entry.amount },
+          ],
+        });
+      }
+
+      tx.update(achEntries).set({ status: "returned" }).where(eq(achEntries.id, entry.id)).run();
+    });
+  }
+
+  return result;
+}
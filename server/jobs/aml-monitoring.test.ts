@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { amlAlertTransactions, amlAlerts, transactions, users } from '@/lib/db/schema';
+import { updateAmlAlertStatus } from '@/lib/aml/alerts';
+import { accountRouter } from '../routers/account';
+import { createAuthenticatedContext, createTestUserData } from '../test-utils';
+import { exportAmlReport, runAmlMonitoring } from './aml-monitoring';
+
+describe('AML monitoring', () => {
+  let userId: number;
+  let checkingId: number;
+  let savingsId: number;
+  let ssn: string;
+
+  beforeEach(async () => {
+    const userData = createTestUserData();
+    ssn = userData.ssn;
+    const ctx = await createAuthenticatedContext(userData);
+    const accountCaller = accountRouter.createCaller(ctx);
+    userId = ctx.user!.id;
+    checkingId = (await accountCaller.createAccount({ accountType: 'checking' })).id;
+    savingsId = (await accountCaller.createAccount({ accountType: 'savings' })).id;
+  });
+
+  const deposit = (amount: number, createdAt: string, values: { accountId?: number; channel?: string; status?: string } = {}) =>
+    db
+      .insert(transactions)
+      .values({
+        accountId: values.accountId ?? checkingId,
+        type: 'deposit',
+        amount,
+        channel: values.channel ?? 'ach',
+        status: values.status ?? 'completed',
+        createdAt,
+      })
+      .returning()
+      .get().id;
+
+  const alertsForUser = () =>
+    db
+      .select()
+      .from(amlAlerts)
+      .where(eq(amlAlerts.userId, userId))
+      .all()
+      .map((alert) => ({
+        ...alert,
+        transactionIds: db
+          .select()
+          .from(amlAlertTransactions)
+          .where(eq(amlAlertTransactions.alertId, alert.id))
+          .all()
+          .map((row) => row.transactionId),
+      }));
+
+  it('should flag a single deposit of $10,000 or more once', () => {
+    const large = deposit(10_000_00, '2025-02-03T10:00:00.000Z');
+    deposit(9_999_99, '2025-02-04T10:00:00.000Z', { accountId: savingsId });
+
+    const now = new Date('2025-02-04T12:00:00Z');
+    runAmlMonitoring({ now });
+    runAmlMonitoring({ now });
+
+    expect(alertsForUser()).toMatchObject([
+      { type: 'large_deposit', amount: 10_000_00, status: 'open', transactionIds: [large] },
+    ]);
+  });
+
+  it('should flag deposits across accounts that add up past the threshold within a business day', () => {
+    // Friday afternoon and Monday morning fall within one business day of each other.
+    const first = deposit(5_000_00, '2025-03-07T15:00:00.000Z');
+    const second = deposit(4_999_00, '2025-03-10T09:00:00.000Z', { accountId: savingsId });
+    deposit(9_000_00, '2025-03-10T11:00:00.000Z', { channel: 'internal' });
+    deposit(9_000_00, '2025-03-10T11:30:00.000Z', { status: 'failed' });
+
+    runAmlMonitoring({ now: new Date('2025-03-10T12:00:00Z') });
+    expect(alertsForUser()).toHaveLength(0);
+
+    const third = deposit(2_00, '2025-03-10T13:00:00.000Z');
+    runAmlMonitoring({ now: new Date('2025-03-10T14:00:00Z') });
+    expect(alertsForUser()).toMatchObject([
+      {
+        type: 'structuring',
+        amount: 10_001_00,
+        windowStart: '2025-03-07T15:00:00.000Z',
+        windowEnd: '2025-03-10T13:00:00.000Z',
+        transactionIds: [first, second, third],
+      },
+    ]);
+
+    // A later deposit in the same window joins the open case instead of raising another alert.
+    const fourth = deposit(50_00, '2025-03-10T14:30:00.000Z');
+    const { created, extended } = runAmlMonitoring({ now: new Date('2025-03-10T14:45:00Z') });
+    expect(created).toHaveLength(0);
+    expect(alertsForUser()).toMatchObject([{ amount: 10_051_00, transactionIds: [first, second, third, fourth] }]);
+    expect(extended).toEqual([alertsForUser()[0].id]);
+  });
+
+  it('should keep adding to a structuring case under investigation', () => {
+    const first = deposit(6_000_00, '2025-03-12T09:00:00.000Z');
+    const second = deposit(5_000_00, '2025-03-12T10:00:00.000Z');
+    runAmlMonitoring({ now: new Date('2025-03-12T11:00:00Z') });
+    const [alert] = alertsForUser();
+    updateAmlAlertStatus(db, alert.id, 'investigating', 'Asked the customer about the source of funds');
+
+    const third = deposit(1_00, '2025-03-12T12:00:00.000Z');
+    runAmlMonitoring({ now: new Date('2025-03-12T13:00:00Z') });
+    runAmlMonitoring({ now: new Date('2025-03-12T14:00:00Z') });
+
+    expect(alertsForUser()).toMatchObject([
+      { id: alert.id, status: 'investigating', amount: 11_001_00, transactionIds: [first, second, third] },
+    ]);
+  });
+
+  it('should not aggregate deposits more than a business day apart', () => {
+    deposit(6_000_00, '2025-04-07T09:00:00.000Z');
+    deposit(6_000_00, '2025-04-08T09:00:01.000Z');
+
+    runAmlMonitoring({ now: new Date('2025-04-08T12:00:00Z') });
+
+    expect(alertsForUser()).toHaveLength(0);
+  });
+
+  it('should export open cases as a CTR-style CSV', () => {
+    const first = deposit(12_345_67, '2025-05-05T10:00:00.000Z');
+    deposit(1_00, '2025-05-05T11:00:00.000Z', { accountId: savingsId });
+    runAmlMonitoring({ now: new Date('2025-05-05T12:00:00Z') });
+    const [large, structuring] = alertsForUser();
+    updateAmlAlertStatus(db, structuring.id, 'dismissed', 'Same customer, already reported');
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aml-reports-'));
+    const report = exportAmlReport({ now: new Date('2025-05-06T08:00:00Z'), outputDir });
+
+    expect(report.alertIds).toContain(large.id);
+    expect(report.alertIds).not.toContain(structuring.id);
+    expect(report.filePath).toBe(path.join(outputDir, 'CTR_20250506T080000.csv'));
+    expect(fs.readFileSync(report.filePath!, 'utf-8')).toBe(report.contents);
+
+    const [header, ...rows] = report.contents.trim().split('\r\n');
+    expect(header.split(',')).toContain('total_amount');
+    const row = rows.find((line) => line.startsWith(`${large.id},`))!;
+    expect(row).toContain(',large_deposit,open,');
+    expect(row).toContain(`,User,Test,1990-01-01,123 Main St,City,NY,12345,${ssn.slice(-4)},`);
+    expect(row).toContain(`,1,${first},12345.67,2025-05-05T10:00:00.000Z,2025-05-05T10:00:00.000Z`);
+  });
+
+  it('should keep customer details from running as spreadsheet formulas', () => {
+    db.update(users).set({ lastName: '=1+2', address: '@SUM(A1:A9)' }).where(eq(users.id, userId)).run();
+    deposit(10_000_00, '2025-06-02T10:00:00.000Z');
+    runAmlMonitoring({ now: new Date('2025-06-02T12:00:00Z') });
+
+    const [alert] = alertsForUser();
+    const row = exportAmlReport({ outputDir: null }).contents.split('\r\n').find((line) => line.startsWith(`${alert.id},`));
+
+    expect(row).toContain(`,'=1+2,Test,1990-01-01,'@SUM(A1:A9),City,`);
+  });
+});
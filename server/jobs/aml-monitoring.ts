@@ -0,0 +1,232 @@
+import fs from "fs";
+import path from "path";
+import { and, asc, desc, eq, inArray, isNull, ne, notInArray, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { accounts, amlAlertTransactions, amlAlerts, transactions, users } from "@/lib/db/schema";
+import { decryptSSN } from "@/lib/encryption";
+import type { DbExecutor } from "@/lib/db/ledger";
+import {
+  CTR_THRESHOLD_CENTS,
+  isAmlAlertClosed,
+  type AmlAlertRecord,
+  type AmlAlertStatus,
+  type AmlAlertType,
+} from "@/lib/aml/alerts";
+import { buildCtrReport, type CtrReportRow } from "@/lib/aml/ctr-report";
+import { addBusinessDays, parseDbTimestamp } from "./settlement";
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Deposit = { id: number; userId: number; amount: number; createdAt: Date };
+
+type MonitoringOptions = {
+  now?: Date;
+  /** How far back deposits are scanned. Re-scanning is safe: deposits already on an alert are not flagged twice. */
+  lookbackDays?: number;
+};
+
+type ReportOptions = {
+  now?: Date;
+  /** Case statuses to include; dismissed alerts are left out by default. */
+  statuses?: AmlAlertStatus[];
+  /** Directory the report is written to; `null` skips writing (the contents are still returned). */
+  outputDir?: string | null;
+};
+
+function getReportDir(): string {
+  return process.env.AML_REPORT_DIR || "aml/reports";
+}
+
+function createAlert(
+  executor: DbExecutor,
+  type: AmlAlertType,
+  deposits: Deposit[],
+  now: Date
+): AmlAlertRecord {
+  const alert = executor
+    .insert(amlAlerts)
+    .values({
+      userId: deposits[0].userId,
+      type,
+      amount: deposits.reduce((sum, deposit) => sum + deposit.amount, 0),
+      windowStart: deposits[0].createdAt.toISOString(),
+      windowEnd: deposits[deposits.length - 1].createdAt.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    })
+    .returning()
+    .get();
+
+  executor
+    .insert(amlAlertTransactions)
+    .values(deposits.map((deposit) => ({ alertId: alert.id, transactionId: deposit.id })))
+    .run();
+  return alert;
+}
+
+/**
+ * Scans recent deposits for Bank Secrecy Act reporting. A single deposit of $10,000 or more raises a
+ * large_deposit alert. Deposits by one customer, across all their accounts, that add up to more than
+ * $10,000 within a rolling business day raise a structuring alert; later deposits in the same window
+ * are added to that alert until its case is filed or dismissed.
+ *
+ * Internal transfers, held deposits (not yet accepted, or under review) and failed deposits are not counted.
+ *
+ * @returns Ids of the alerts that were created or extended
+ */
+export function runAmlMonitoring(options: MonitoringOptions = {}) {
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * DAY_MS);
+
+  return db.transaction((tx) => {
+    const deposits: Deposit[] = tx
+      .select({ id: transactions.id, userId: accounts.userId, amount: transactions.amount, createdAt: transactions.createdAt })
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(
+        and(
+          eq(transactions.type, "deposit"),
+          notInArray(transactions.status, ["held", "reviewing", "failed"]),
+          or(isNull(transactions.channel), ne(transactions.channel, "internal")),
+          sql`datetime(${transactions.createdAt}) >= datetime(${since.toISOString()})`
+        )
+      )
+      .all()
+      .map((row) => ({ ...row, createdAt: parseDbTimestamp(row.createdAt!) }))
+      .sort((a, b) => a.userId - b.userId || a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+
+    // Which alert each scanned deposit already belongs to, by alert type.
+    const flagged = tx
+      .select({ transactionId: amlAlertTransactions.transactionId, alert: amlAlerts })
+      .from(amlAlertTransactions)
+      .innerJoin(amlAlerts, eq(amlAlertTransactions.alertId, amlAlerts.id))
+      .where(
+        inArray(
+          amlAlertTransactions.transactionId,
+          deposits.map((deposit) => deposit.id)
+        )
+      )
+      .all();
+    const largeFlagged = new Set(flagged.filter(({ alert }) => alert.type === "large_deposit").map((row) => row.transactionId));
+    const structuringAlerts = new Map(
+      flagged.filter(({ alert }) => alert.type === "structuring").map((row) => [row.transactionId, row.alert])
+    );
+
+    const created: number[] = [];
+    const extended: number[] = [];
+
+    for (const deposit of deposits) {
+      if (deposit.amount >= CTR_THRESHOLD_CENTS && !largeFlagged.has(deposit.id)) {
+        created.push(createAlert(tx, "large_deposit", [deposit], now).id);
+      }
+    }
+
+    deposits.forEach((deposit, index) => {
+      const windowStart = addBusinessDays(deposit.createdAt, -1);
+      let first = index;
+      while (first > 0 && deposits[first - 1].userId === deposit.userId && deposits[first - 1].createdAt > windowStart) {
+        first--;
+      }
+      const window = deposits.slice(first, index + 1);
+      const total = window.reduce((sum, earlier) => sum + earlier.amount, 0);
+      const unflagged = window.filter((earlier) => !structuringAlerts.has(earlier.id));
+
+      if (window.length < 2 || total <= CTR_THRESHOLD_CENTS || unflagged.length === 0) {
+        return;
+      }
+
+      const existing = window
+        .map((earlier) => structuringAlerts.get(earlier.id))
+        .filter((alert): alert is AmlAlertRecord => alert !== undefined && !isAmlAlertClosed(alert.status))
+        .pop();
+      if (existing) {
+        tx.insert(amlAlertTransactions)
+          .values(unflagged.map((earlier) => ({ alertId: existing.id, transactionId: earlier.id })))
+          .run();
+        const updated = tx
+          .update(amlAlerts)
+          .set({
+            amount: sql`${amlAlerts.amount} + ${unflagged.reduce((sum, earlier) => sum + earlier.amount, 0)}`,
+            windowEnd: deposit.createdAt.toISOString(),
+            updatedAt: now.toISOString(),
+          })
+          .where(eq(amlAlerts.id, existing.id))
+          .returning()
+          .get();
+        unflagged.forEach((earlier) => structuringAlerts.set(earlier.id, updated));
+        if (!created.includes(existing.id) && !extended.includes(existing.id)) {
+          extended.push(existing.id);
+        }
+        return;
+      }
+
+      const alert = createAlert(tx, "structuring", window, now);
+      window.forEach((earlier) => structuringAlerts.set(earlier.id, alert));
+      created.push(alert.id);
+    });
+
+    return { created, extended };
+  });
+}
+
+/**
+ * Writes a CTR-style CSV of AML alerts, one row per alert, newest first.
+ *
+ * @returns The report contents, where it was written and which alerts it covers
+ */
+export function exportAmlReport(options: ReportOptions = {}) {
+  const now = options.now ?? new Date();
+  const statuses = options.statuses ?? ["open", "investigating", "filed"];
+  const outputDir = options.outputDir === undefined ? getReportDir() : options.outputDir;
+
+  const alerts = db
+    .select({ alert: amlAlerts, user: users })
+    .from(amlAlerts)
+    .innerJoin(users, eq(amlAlerts.userId, users.id))
+    .where(inArray(amlAlerts.status, statuses))
+    .orderBy(desc(amlAlerts.id))
+    .all();
+
+  const rows: CtrReportRow[] = alerts.map(({ alert, user }) => {
+    const flaggedDeposits = db
+      .select({ id: transactions.id, accountNumber: accounts.accountNumber })
+      .from(amlAlertTransactions)
+      .innerJoin(transactions, eq(amlAlertTransactions.transactionId, transactions.id))
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(eq(amlAlertTransactions.alertId, alert.id))
+      .orderBy(asc(transactions.id))
+      .all();
+
+    return {
+      alertId: alert.id,
+      alertType: alert.type,
+      status: alert.status,
+      detectedAt: alert.createdAt!,
+      customerId: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      dateOfBirth: user.dateOfBirth,
+      address: user.address,
+      city: user.city,
+      state: user.state,
+      zipCode: user.zipCode,
+      ssnLast4: decryptSSN(user.ssn).slice(-4),
+      accountNumbers: [...new Set(flaggedDeposits.map((deposit) => deposit.accountNumber))],
+      transactionIds: flaggedDeposits.map((deposit) => deposit.id),
+      amountCents: alert.amount,
+      windowStart: alert.windowStart,
+      windowEnd: alert.windowEnd,
+    };
+  });
+
+  const contents = buildCtrReport(rows);
+  let filePath: string | null = null;
+  if (outputDir) {
+    fs.mkdirSync(outputDir, { recursive: true });
+    filePath = path.join(outputDir, `CTR_${now.toISOString().replace(/[-:]/g, "").slice(0, 15)}.csv`);
+    fs.writeFileSync(filePath, contents);
+  }
+
+  return { contents, filePath, alertIds: rows.map((row) => row.alertId) };
+}
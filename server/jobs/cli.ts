@@ -0,0 +1,158 @@
+// Entry point for running background jobs by hand: `npm run jobs -- <command> [args]`.
+import fs from "fs";
+import { runSettlement } from "./settlement";
+import { exportAchFile } from "./ach-export";
+import { importAchReturns } from "./ach-returns";
+import { db } from "@/lib/db";
+import { setFundingLimitOverrides } from "@/lib/limits";
+import { listHeldDeposits, type FraudRuleOutcome } from "@/lib/fraud";
+import { AML_ALERT_STATUSES, isAmlAlertStatus, updateAmlAlertStatus } from "@/lib/aml/alerts";
+import { exportAmlReport, runAmlMonitoring } from "./aml-monitoring";
+import { reencryptCustomerFields } from "./reencrypt";
+import { rekeyFingerprints } from "./fingerprint-rekey";
+import { listPendingSanctionsReviews, resolveSanctionsReview } from "@/lib/sanctions";
+import { users } from "@/lib/db/schema";
+import { backfillSsnIndex, findUsersBySsn } from "@/lib/kyc";
+import { eq } from "drizzle-orm";
+
+const commands: Record<string, (args: string[]) => void | Promise<void>> = {
+  settle: () => {
+    const { settled } = runSettlement();
+    console.log(`Settled ${settled.length} pending ACH transaction(s)`);
+  },
+  "ach-export": () => {
+    const result = exportAchFile();
+    console.log(
+      result
+        ? `Wrote ${result.entryIds.length} ACH entr${result.entryIds.length === 1 ? "y" : "ies"} to ${result.filePath}`
+        : "No pending ACH entries"
+    );
+  },
+  "ach-returns": ([filePath]) => {
+    if (!filePath) {
+      console.error("Usage: npm run jobs -- ach-returns <return-file>");
+      process.exit(1);
+    }
+
+    const { returned, unmatched, skipped } = importAchReturns(fs.readFileSync(filePath, "utf-8"));
+    console.log(`Returned ${returned.length} transaction(s), skipped ${skipped.length}`);
+    for (const achReturn of unmatched) {
+      console.warn(
+        `No matching entry for trace ${achReturn.originalTraceNumber} (${achReturn.returnReasonCode}, ${achReturn.amountCents} cents)`
+      );
+    }
+  },
+  // Overrides are JSON in cents, e.g. '{"card":{"dailyCents":2000000},"attemptsPerHour":20}'. Pass '{}' to clear them.
+  "funding-limits": ([userId, overrides]) => {
+    if (!userId || !overrides) {
+      console.error("Usage: npm run jobs -- funding-limits <user-id> <overrides-json>");
+      process.exit(1);
+    }
+
+    setFundingLimitOverrides(db, Number(userId), JSON.parse(overrides));
+    console.log(`Updated funding limits for user ${userId}`);
+  },
+  // Held deposits are approved or rejected through the admin router: a review captures or voids the card
+  // authorization, which only the server's payment gateway holds.
+  "fraud-queue": () => {
+    const held = listHeldDeposits(db);
+    console.log(`${held.length} deposit(s) held for review`);
+    for (const { screening, transaction } of held) {
+      const reasons = (JSON.parse(screening.results) as FraudRuleOutcome[]).map((outcome) => outcome.reason ?? outcome.rule);
+      console.log(
+        `#${transaction.id} account ${transaction.accountId} ${transaction.channel} ${transaction.amount} cents, score ${screening.score}: ${reasons.join("; ")}`
+      );
+    }
+  },
+  "aml-monitor": () => {
+    const { created, extended } = runAmlMonitoring();
+    console.log(`Raised ${created.length} AML alert(s), added deposits to ${extended.length}`);
+  },
+  "aml-report": () => {
+    const { alertIds, filePath } = exportAmlReport();
+    console.log(`Wrote ${alertIds.length} alert(s) to ${filePath}`);
+  },
+  "aml-case": ([alertId, status, ...note]) => {
+    if (!alertId || !status || !isAmlAlertStatus(status)) {
+      console.error(`Usage: npm run jobs -- aml-case <alert-id> <${AML_ALERT_STATUSES.join("|")}> [note]`);
+      process.exit(1);
+    }
+
+    const alert = updateAmlAlertStatus(db, Number(alertId), status, note.length > 0 ? note.join(" ") : undefined);
+    console.log(`AML alert ${alert.id} is now ${alert.status}`);
+  },
+  "sanctions-queue": () => {
+    const pending = listPendingSanctionsReviews(db);
+    console.log(`${new Set(pending.map(({ userId }) => userId)).size} signup(s) waiting on a sanctions review`);
+    for (const { userId, match } of pending) {
+      console.log(`user ${userId}: SDN #${match.listEntryUid} ${match.matchedName} (${match.programs}), score ${match.score}`);
+    }
+  },
+  // clear = false positive, the user can open accounts; confirm = true match, the user stays blocked.
+  "sanctions-review": ([userId, outcome]) => {
+    if (!userId || (outcome !== "clear" && outcome !== "confirm")) {
+      console.error("Usage: npm run jobs -- sanctions-review <user-id> <clear|confirm>");
+      process.exit(1);
+    }
+
+    const user = resolveSanctionsReview(db, Number(userId), outcome === "clear" ? "cleared" : "confirmed");
+    console.log(`User ${user.id} is now ${user.status}`);
+  },
+  // Admins can work the KYC queue through the admin router.
+  "grant-admin": ([userId]) => {
+    if (!userId) {
+      console.error("Usage: npm run jobs -- grant-admin <user-id>");
+      process.exit(1);
+    }
+
+    const user = db.update(users).set({ role: "admin" }).where(eq(users.id, Number(userId))).returning().get();
+    console.log(user ? `User ${user.id} (${user.email}) is now an admin` : `User ${userId} does not exist`);
+  },
+  // Safe to re-run: only users still missing the index are touched.
+  "ssn-index-backfill": () => {
+    console.log(`Indexed ${backfillSsnIndex(db)} user SSN(s)`);
+  },
+  "find-ssn": ([ssn]) => {
+    if (!ssn) {
+      console.error("Usage: npm run jobs -- find-ssn <ssn>");
+      process.exit(1);
+    }
+
+    const matches = findUsersBySsn(db, ssn.replace(/-/g, ""));
+    console.log(`${matches.length} user(s) with this SSN`);
+    for (const user of matches) {
+      console.log(`user ${user.id}: ${user.firstName} ${user.lastName} <${user.email}>, ${user.status}, since ${user.createdAt}`);
+    }
+  },
+  // Moves every encrypted customer field to the active ENCRYPTION_KEY_ID key; safe to stop and run again.
+  reencrypt: ([batchSize]) => {
+    const { keyId, migrated, total } = reencryptCustomerFields({
+      batchSize: batchSize ? Number(batchSize) : undefined,
+      onProgress: (progress) => console.log(`Re-encrypted ${progress.migrated}/${progress.total} value(s) (${progress.column})`),
+    });
+    console.log(`Done: ${migrated} of ${total} value(s) moved to key ${keyId}`);
+  },
+  // Run with the app stopped, right after setting the new FINGERPRINT_KEY (see README).
+  "rekey-fingerprints": () => {
+    const { updated, unmatched } = rekeyFingerprints();
+    console.log(`Rekeyed ${updated} fingerprint(s)`);
+    if (unmatched > 0) {
+      console.warn(`${unmatched} verification(s) or deposit(s) matched no vaulted card or bank account and kept their fingerprint`);
+    }
+  },
+};
+
+const [command, ...args] = process.argv.slice(2);
+const job = command ? commands[command] : undefined;
+
+if (!job) {
+  console.error(`Usage: npm run jobs -- <${Object.keys(commands).join("|")}>`);
+  process.exit(1);
+}
+
+Promise.resolve()
+  .then(() => job(args))
+  .catch((error) => {
+    console.error(`${command} failed:`, error);
+    process.exitCode = 1;
+  });
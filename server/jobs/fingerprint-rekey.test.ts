@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { achEntries, bankVerifications, cardTokens, fundingSources, transactions } from '@/lib/db/schema';
+import { bankAccountFingerprint } from '@/lib/ach/entries';
+import { cardFingerprint } from '@/lib/payments';
+import { accountRouter } from '../routers/account';
+import { paymentMethodsRouter } from '../routers/payment-methods';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
+import { rekeyFingerprints } from './fingerprint-rekey';
+
+const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+
+describe('rekeyFingerprints', () => {
+  const previousKey = process.env.FINGERPRINT_KEY;
+
+  afterEach(() => {
+    process.env.FINGERPRINT_KEY = previousKey;
+  });
+
+  it('should move every card and bank account fingerprint to the new key', async () => {
+    const ctx = await createAuthenticatedContext();
+    const accountCaller = accountRouter.createCaller(ctx);
+    const paymentMethodsCaller = paymentMethodsRouter.createCaller(ctx);
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const card = createTestCardSource();
+    await paymentMethodsCaller.add({ fundingSource: card });
+    await paymentMethodsCaller.add({ fundingSource: bankSource });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 20, fundingSource: bankSource });
+    const verification = await paymentMethodsCaller.startBankVerification(bankSource);
+
+    process.env.FINGERPRINT_KEY = crypto.randomBytes(32).toString('hex');
+    const result = rekeyFingerprints();
+
+    const bankFingerprint = bankAccountFingerprint(bankSource.routingNumber, bankSource.accountNumber);
+    const cardFingerprintUnderNewKey = cardFingerprint(card.accountNumber);
+    expect(result.unmatched).toBe(0);
+    expect(db.select().from(cardTokens).all().map((row) => row.fingerprint)).toEqual([cardFingerprintUnderNewKey]);
+    expect(
+      db
+        .select()
+        .from(fundingSources)
+        .all()
+        .map((row) => row.fingerprint)
+    ).toEqual(expect.arrayContaining([cardFingerprintUnderNewKey, bankFingerprint]));
+    expect(new Set(db.select().from(achEntries).all().map((row) => row.accountFingerprint))).toEqual(new Set([bankFingerprint]));
+    expect(
+      db.select().from(bankVerifications).where(eq(bankVerifications.id, verification.id)).get()?.accountFingerprint
+    ).toBe(bankFingerprint);
+    expect(db.select().from(transactions).where(eq(transactions.id, transaction.id)).get()?.sourceFingerprint).toBe(
+      bankFingerprint
+    );
+
+    expect(rekeyFingerprints()).toEqual({ updated: 0, unmatched: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+import { eq, isNotNull } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { achEntries, bankVerifications, cardTokens, fundingSources, transactions } from "@/lib/db/schema";
+import { decryptField } from "@/lib/encryption";
+import { bankAccountFingerprint } from "@/lib/ach/entries";
+import { cardFingerprint, detokenizeCard } from "@/lib/payments";
+
+export type FingerprintRekeyResult = {
+  /** Rows whose fingerprint changed. */
+  updated: number;
+  /** Verifications and deposits whose fingerprint matched no vaulted card or bank account; left as they were. */
+  unmatched: number;
+};
+
+/**
+ * Recomputes every stored card and bank account fingerprint under the current FINGERPRINT_KEY, in one
+ * transaction. Cards, saved sources and ACH entries still have the encrypted number to fingerprint again;
+ * verifications and deposits only kept the fingerprint, so they take the new value of the card or
+ * account whose old fingerprint they carry. Fingerprints already on the current key come out unchanged,
+ * so running it twice is harmless.
+ */
+export function rekeyFingerprints(): FingerprintRekeyResult {
+  return db.transaction((tx) => {
+    const rekeyed = new Map<string, string>();
+    const result: FingerprintRekeyResult = { updated: 0, unmatched: 0 };
+
+    const rekey = (previous: string | null, next: string) => {
+      if (previous !== null) {
+        rekeyed.set(previous, next);
+      }
+      return previous !== next;
+    };
+
+    for (const card of tx.select().from(cardTokens).all()) {
+      const fingerprint = cardFingerprint(detokenizeCard(tx, card.token));
+      if (rekey(card.fingerprint, fingerprint)) {
+        tx.update(cardTokens).set({ fingerprint }).where(eq(cardTokens.id, card.id)).run();
+        result.updated++;
+      }
+    }
+
+    for (const entry of tx.select().from(achEntries).all()) {
+      const fingerprint = bankAccountFingerprint(entry.routingNumber, decryptField(entry.accountNumber, "account number"));
+      if (rekey(entry.accountFingerprint, fingerprint)) {
+        tx.update(achEntries).set({ accountFingerprint: fingerprint }).where(eq(achEntries.id, entry.id)).run();
+        result.updated++;
+      }
+    }
+
+    for (const source of tx.select().from(fundingSources).all()) {
+      const fingerprint = source.cardToken
+        ? cardFingerprint(detokenizeCard(tx, source.cardToken))
+        : bankAccountFingerprint(source.routingNumber!, decryptField(source.accountNumber!, "account number"));
+      if (rekey(source.fingerprint, fingerprint)) {
+        tx.update(fundingSources).set({ fingerprint }).where(eq(fundingSources.id, source.id)).run();
+        result.updated++;
+      }
+    }
+
+    const remap = (previous: string) => {
+      const next = rekeyed.get(previous);
+      if (next === undefined) {
+        result.unmatched++;
+      }
+      return next;
+    };
+
+    for (const verification of tx.select().from(bankVerifications).all()) {
+      const fingerprint = remap(verification.accountFingerprint);
+      if (fingerprint !== undefined && fingerprint !== verification.accountFingerprint) {
+        tx.update(bankVerifications).set({ accountFingerprint: fingerprint }).where(eq(bankVerifications.id, verification.id)).run();
+        result.updated++;
+      }
+    }
+
+    for (const transaction of tx.select().from(transactions).where(isNotNull(transactions.sourceFingerprint)).all()) {
+      const fingerprint = remap(transaction.sourceFingerprint!);
+      if (fingerprint !== undefined && fingerprint !== transaction.sourceFingerprint) {
+        tx.update(transactions).set({ sourceFingerprint: fingerprint }).where(eq(transactions.id, transaction.id)).run();
+        result.updated++;
+      }
+    }
+
+    return result;
+  });
+}
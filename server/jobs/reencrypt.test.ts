@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { achEntries, fundingSources, twoFactorCredentials, users } from '@/lib/db/schema';
+import { decryptField, decryptSSN, encryptSSN, getKeyIdOf } from '@/lib/encryption';
+import { accountRouter } from '../routers/account';
+import { paymentMethodsRouter } from '../routers/payment-methods';
+import { twoFactorRouter } from '../routers/two-factor';
+import { createAuthenticatedContext, createTestUserData } from '../test-utils';
+import { reencryptCustomerFields } from './reencrypt';
+
+describe('customer field re-encryption', () => {
+  // Shared by the tests so users migrated by one can still be read by the next.
+  const rotatedRing = `2026-10:${crypto.randomBytes(32).toString('hex')}`;
+  const previousRing = { keys: process.env.ENCRYPTION_KEYS, activeKeyId: process.env.ENCRYPTION_KEY_ID };
+
+  afterEach(() => {
+    for (const [name, value] of [
+      ['ENCRYPTION_KEYS', previousRing.keys],
+      ['ENCRYPTION_KEY_ID', previousRing.activeKeyId],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  const insertUsers = (count: number) =>
+    Array.from({ length: count }, () => {
+      const data = createTestUserData();
+      return db.insert(users).values({ ...data, ssn: encryptSSN(data.ssn) }).returning().get();
+    });
+
+  const storedSsns = (ids: number[]) =>
+    db.select({ ssn: users.ssn }).from(users).where(inArray(users.id, ids)).orderBy(users.id).all().map((row) => row.ssn);
+
+  it('should move every SSN to the active key in batches and report progress', () => {
+    const created = insertUsers(5);
+    const ids = created.map((user) => user.id);
+    const plaintexts = created.map((user) => decryptSSN(user.ssn));
+
+    process.env.ENCRYPTION_KEYS = rotatedRing;
+    const progress: number[] = [];
+    const result = reencryptCustomerFields({ batchSize: 2, onProgress: ({ migrated }) => progress.push(migrated) });
+
+    expect(result.keyId).toBe('2026-10');
+    expect(result.migrated).toBe(result.total);
+    expect(result.total).toBeGreaterThanOrEqual(5);
+    expect(progress[progress.length - 1]).toBe(result.total);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+
+    const migrated = storedSsns(ids);
+    expect(migrated.map((ssn) => getKeyIdOf(ssn))).toEqual(Array(5).fill('2026-10'));
+    expect(migrated.map(decryptSSN)).toEqual(plaintexts);
+  });
+
+  it('should move 2FA secrets and bank account numbers too', async () => {
+    const ctx = await createAuthenticatedContext();
+    const userId = ctx.user!.id;
+    const accountCaller = accountRouter.createCaller(ctx);
+    const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    await paymentMethodsRouter.createCaller(ctx).add({ fundingSource: bankSource });
+    await accountCaller.fundAccount({ accountId: account.id, amount: 20, fundingSource: bankSource });
+    const { secret } = await twoFactorRouter.createCaller(ctx).startEnrollment();
+
+    process.env.ENCRYPTION_KEYS = rotatedRing;
+    reencryptCustomerFields();
+
+    const stored = [
+      db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).get()!.secret,
+      ...db.select().from(fundingSources).where(eq(fundingSources.userId, userId)).all().map((row) => row.accountNumber!),
+      ...db.select().from(achEntries).where(eq(achEntries.userId, userId)).all().map((row) => row.accountNumber),
+    ];
+    expect(stored).toHaveLength(3);
+    expect(stored.map((value) => getKeyIdOf(value))).toEqual(Array(3).fill('2026-10'));
+    expect(stored.map((value) => decryptField(value))).toEqual([secret, bankSource.accountNumber, bankSource.accountNumber]);
+  });
+
+  it('should skip values already on the active key when run again', () => {
+    insertUsers(2);
+    process.env.ENCRYPTION_KEYS = rotatedRing;
+    reencryptCustomerFields();
+
+    expect(reencryptCustomerFields()).toEqual({ keyId: '2026-10', migrated: 0, total: 0 });
+  });
+});
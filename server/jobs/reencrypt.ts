@@ -0,0 +1,135 @@
+import { and, asc, eq, gt, isNotNull, notLike, sql } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import { db } from "@/lib/db";
+import { achEntries, fundingSources, twoFactorCredentials, users } from "@/lib/db/schema";
+import { decryptField, encryptField, getActiveKeyId } from "@/lib/encryption";
+
+const DEFAULT_BATCH_SIZE = 200;
+
+export type ReencryptionProgress = {
+  keyId: string;
+  /** Values moved to the active key so far in this run, across all columns. */
+  migrated: number;
+  /** Values that were not on the active key when the run started, across all columns. */
+  total: number;
+};
+
+type ReencryptOptions = {
+  batchSize?: number;
+  /** Called after every committed batch, with the column the batch came from. */
+  onProgress?: (progress: ReencryptionProgress & { column: string }) => void;
+};
+
+type EncryptedColumn = {
+  /** table.column, as reported in progress. */
+  column: string;
+  table: SQLiteTable;
+  id: SQLiteColumn;
+  value: SQLiteColumn;
+  /** Property of `value` on the table, which is what updates are keyed by. */
+  field: string;
+  /** Names the field in decryption errors. */
+  label: string;
+};
+
+// Every column encrypted with the ENCRYPTION_KEY ring. Card numbers live in the card vault under their own key.
+const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+  { column: "users.ssn", table: users, id: users.id, value: users.ssn, field: "ssn", label: "SSN" },
+  {
+    column: "two_factor_credentials.secret",
+    table: twoFactorCredentials,
+    id: twoFactorCredentials.id,
+    value: twoFactorCredentials.secret,
+    field: "secret",
+    label: "2FA secret",
+  },
+  {
+    column: "funding_sources.account_number",
+    table: fundingSources,
+    id: fundingSources.id,
+    value: fundingSources.accountNumber,
+    field: "accountNumber",
+    label: "account number",
+  },
+  {
+    column: "ach_entries.account_number",
+    table: achEntries,
+    id: achEntries.id,
+    value: achEntries.accountNumber,
+    field: "accountNumber",
+    label: "account number",
+  },
+];
+
+/**
+ * Re-encrypts every encrypted customer field (SSNs, 2FA secrets and bank account numbers) that is not on
+ * the active ENCRYPTION_KEY yet (legacy values and values under retired keys), one batch per transaction.
+ * Rows already on the active key are skipped, so an interrupted run picks up where it stopped when
+ * started again.
+ */
+export function reencryptCustomerFields(options: ReencryptOptions = {}): ReencryptionProgress {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const keyId = getActiveKeyId();
+  // Card sources have no account number; NULLs are never stale.
+  const staleIn = ({ value }: EncryptedColumn) => and(isNotNull(value), notLike(value, `v2:${keyId}:%`));
+
+  const total = ENCRYPTED_COLUMNS.reduce(
+    (sum, column) =>
+      sum + (db.select({ count: sql<number>`COUNT(*)` }).from(column.table).where(staleIn(column)).get()?.count ?? 0),
+    0
+  );
+  const progress: ReencryptionProgress = { keyId, migrated: 0, total };
+
+  for (const column of ENCRYPTED_COLUMNS) {
+    progress.migrated += reencryptColumn(column, staleIn(column), batchSize, (migrated) => {
+      options.onProgress?.({ ...progress, migrated: progress.migrated + migrated, column: column.column });
+    });
+  }
+  return progress;
+}
+
+// Returns how many values of the column were moved; `onBatch` gets the running count for the column.
+function reencryptColumn(
+  { table, id, value, field, label }: EncryptedColumn,
+  stale: ReturnType<typeof and>,
+  batchSize: number,
+  onBatch: (migrated: number) => void
+): number {
+  let migrated = 0;
+  let lastId = 0;
+
+  for (;;) {
+    const batch = db.transaction((tx) => {
+      const rows = tx
+        .select({ id: sql<number>`${id}`, value: sql<string>`${value}` })
+        .from(table)
+        .where(and(stale, gt(id, lastId)))
+        .orderBy(asc(id))
+        .limit(batchSize)
+        .all();
+
+      let changed = 0;
+      for (const row of rows) {
+        // Compare-and-set: a value changed since it was read is left for the next run.
+        changed += tx
+          .update(table)
+          .set({ [field]: encryptField(decryptField(row.value, label)) })
+          .where(and(eq(id, row.id), eq(value, row.value)))
+          .run().changes;
+      }
+      return { rows, changed };
+    });
+
+    if (batch.rows.length === 0) {
+      return migrated;
+    }
+
+    lastId = batch.rows[batch.rows.length - 1].id;
+    migrated += batch.changed;
+    onBatch(migrated);
+
+    if (batch.rows.length < batchSize) {
+      return migrated;
+    }
+  }
+}
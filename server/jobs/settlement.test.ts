@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { transactions } from '@/lib/db/schema';
+import { verifyAccountBalance } from '@/lib/db/ledger';
+import { InvalidTransitionError, reverseTransaction } from '@/lib/db/settlement';
+import { accountRouter } from '../routers/account';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
+import { addBusinessDays, runSettlement } from './settlement';
+import { exportAchFile } from './ach-export';
+
+const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+
+describe('addBusinessDays', () => {
+  it('should skip weekends', () => {
+    const friday = new Date('2025-01-03T15:00:00Z');
+    expect(addBusinessDays(friday, 2).toISOString()).toBe('2025-01-07T15:00:00.000Z');
+    expect(addBusinessDays(new Date('2025-01-06T15:00:00Z'), -1).toISOString()).toBe('2025-01-03T15:00:00.000Z');
+  });
+});
+
+describe('Settlement lifecycle for bank funding', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should hold pending bank deposits out of the available balance', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const savings = await accountCaller.createAccount({ accountType: 'savings' });
+
+    const result = await accountCaller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: bankSource });
+
+    expect(result.transaction.status).toBe('pending');
+    expect(result.transaction.processedAt).toBeNull();
+    expect(result.newBalance).toBe(100);
+    expect(result.availableBalance).toBe(0);
+
+    await expect(
+      accountCaller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 50 })
+    ).rejects.toThrow(/insufficient funds/i);
+  });
+
+  it('should complete pending ACH transactions once the settlement window passes', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 100, fundingSource: bankSource });
+    const createdAt = new Date(Date.UTC(2025, 0, 6, 12)); // Monday
+    await db.update(transactions).set({ createdAt: createdAt.toISOString() }).where(eq(transactions.id, transaction.id));
+
+    const beforeExport = runSettlement({ now: addBusinessDays(createdAt, 5), businessDays: 2 });
+    expect(beforeExport.settled).not.toContain(transaction.id);
+
+    exportAchFile({ now: createdAt, outboxDir: null });
+
+    const early = runSettlement({ now: addBusinessDays(createdAt, 1), businessDays: 2 });
+    expect(early.settled).not.toContain(transaction.id);
+
+    const due = runSettlement({ now: addBusinessDays(createdAt, 2), businessDays: 2 });
+    expect(due.settled).toContain(transaction.id);
+
+    const [updatedAccount] = await accountCaller.getAccounts();
+    const settled = await db.select().from(transactions).where(eq(transactions.id, transaction.id)).get();
+    expect(settled?.status).toBe('completed');
+    expect(settled?.processedAt).toBeTruthy();
+    expect(updatedAccount.availableBalance).toBe(100);
+    expect(updatedAccount.balance).toBe(100);
+  });
+
+  it('should reverse a returned deposit even if the funds were already spent', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 80, fundingSource: bankSource });
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 20,
+      fundingSource: createTestCardSource(),
+    });
+
+    const returned = reverseTransaction(db, transaction.id, 'returned');
+
+    expect(returned?.status).toBe('returned');
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(20);
+    expect(updatedAccount.availableBalance).toBe(20);
+    expect(verifyAccountBalance(db, account.id).matches).toBe(true);
+  });
+
+  it('should refund a failed withdrawal', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 30,
+      fundingSource: createTestCardSource(),
+    });
+    const { transaction } = await accountCaller.withdraw({ accountId: account.id, amount: 30, destination: bankSource });
+
+    reverseTransaction(db, transaction.id, 'failed');
+
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(30);
+  });
+
+  it('should reject transitions out of a final status', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 10,
+      fundingSource: createTestCardSource(),
+    });
+
+    expect(() => reverseTransaction(db, transaction.id, 'failed')).toThrow(InvalidTransitionError);
+  });
+});
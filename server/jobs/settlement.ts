@@ -0,0 +1,87 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { achEntries, achFiles, transactions } from "@/lib/db/schema";
+import { settleTransaction } from "@/lib/db/settlement";
+
+const DEFAULT_SETTLEMENT_BUSINESS_DAYS = 2;
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+function getSettlementBusinessDays(): number {
+  const configured = Number(process.env.ACH_SETTLEMENT_BUSINESS_DAYS);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_SETTLEMENT_BUSINESS_DAYS;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone marker ("2025-01-01 12:00:00").
+export function parseDbTimestamp(value: string): Date {
+  return new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+}
+
+// Weekends do not count towards ACH settlement. Bank holidays are not modelled. Negative counts step backwards.
+export function addBusinessDays(start: Date, days: number): Date {
+  const result = new Date(start);
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + step);
+    const weekday = result.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Completes pending ACH transactions whose settlement window has passed. The window starts when
+ * the entry is sent to the ODFI; entries still waiting for the next ACH file are left pending.
+ * Transactions from before the exporter existed have no entry and are timed from creation.
+ *
+ * @returns Ids of the transactions that were settled
+ */
+export function runSettlement(options: { now?: Date; businessDays?: number } = {}) {
+  const now = options.now ?? new Date();
+  const businessDays = options.businessDays ?? getSettlementBusinessDays();
+
+  const pending = db
+    .select({ transaction: transactions, entry: achEntries, file: achFiles })
+    .from(transactions)
+    .leftJoin(achEntries, eq(achEntries.transactionId, transactions.id))
+    .leftJoin(achFiles, eq(achFiles.id, achEntries.achFileId))
+    .where(and(eq(transactions.status, "pending"), eq(transactions.channel, "ach")))
+    .all();
+
+  const settled: number[] = [];
+  for (const { transaction, entry, file } of pending) {
+    if (entry && !file) {
+      continue;
+    }
+
+    const startedAt = parseDbTimestamp(file ? file.createdAt! : transaction.createdAt!);
+    if (addBusinessDays(startedAt, businessDays) <= now && settleTransaction(db, transaction.id, now)) {
+      settled.push(transaction.id);
+    }
+  }
+
+  return { settled };
+}
+
+/**
+ * Runs the settlement processor on an interval for the lifetime of the server process.
+ *
+ * @returns A function that stops the scheduler
+ */
+export function startSettlementScheduler(intervalMs = DEFAULT_INTERVAL_MS) {
+  const timer = setInterval(() => {
+    try {
+      const { settled } = runSettlement();
+      if (settled.length > 0) {
+        console.info(`Settled ${settled.length} pending ACH transaction(s)`);
+      }
+    } catch (error) {
+      console.error("Settlement run failed", error);
+    }
+  }, intervalMs);
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
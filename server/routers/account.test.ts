@@ -1,11 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fc from 'fast-check';
 import { accountRouter } from './account';
-import { createAuthenticatedContext } from '../test-utils';
+import { paymentMethodsRouter } from './payment-methods';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
 import { db } from '@/lib/db';
-import { transactions, accounts } from '@/lib/db/schema';
+import { transactions, accounts, journalEntries, achEntries, bankVerifications, fraudScreenings, idempotencyKeys, fundingSources } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { validateCardNumber } from '@/lib/validation/payment';
+import { getPaymentGateway, PaymentGatewayTimeoutError, saveCard } from '@/lib/payments';
+import { decryptField } from '@/lib/encryption';
+import { SimulatedPaymentGateway, TEST_CARDS } from '@/lib/payments/simulator';
+import { setFundingLimitOverrides } from '@/lib/limits';
+import { approveHeldDeposit, listHeldDeposits, rejectHeldDeposit } from '@/lib/fraud';
+import { fingerprintRequest } from '../utils/idempotency';
 
 const digitArb = fc.integer({ min: 0, max: 9 }).map((n) => `${n}`);
 
@@ -230,18 +237,17 @@ describe('account.fundAccount - Balance Precision (PERF-406)', () => {
 
   it('should persist exact balances after many micro deposits', async () => {
     const account = await accountCaller.createAccount({ accountType: 'checking' });
+    setFundingLimitOverrides(db, ctx.user!.id, { attemptsPerHour: 500 });
 
     const deposits = 500;
     const depositAmount = 0.01;
+    const fundingSource = createTestCardSource();
 
     for (let i = 0; i < deposits; i++) {
       await accountCaller.fundAccount({
         accountId: account.id,
         amount: depositAmount,
-        fundingSource: {
-          type: 'card',
-          accountNumber: '4111111111111111',
-        },
+        fundingSource,
       });
     }
 
@@ -259,10 +265,7 @@ describe('account.fundAccount - Balance Precision (PERF-406)', () => {
     const result = await accountCaller.fundAccount({
       accountId: account.id,
       amount: 0.1,
-      fundingSource: {
-        type: 'card',
-        accountNumber: '4111111111111111',
-      },
+      fundingSource: createTestCardSource(),
     });
 
     const dbAccount = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
@@ -309,10 +312,7 @@ describe('account.fundAccount - Payment Validation (VAL-206, VAL-207, VAL-210)',
         accountCaller.fundAccount({
           accountId: account.id,
           amount: 10,
-          fundingSource: {
-            type: 'card',
-            accountNumber: cardNumber,
-          },
+          fundingSource: createTestCardSource({ accountNumber: cardNumber }),
         })
       ).rejects.toThrow(/card/i);
     });
@@ -333,10 +333,7 @@ describe('account.fundAccount - Payment Validation (VAL-206, VAL-207, VAL-210)',
         accountCaller.fundAccount({
           accountId: account.id,
           amount: 10,
-          fundingSource: {
-            type: 'card',
-            accountNumber: cardNumber,
-          },
+          fundingSource: createTestCardSource({ accountNumber: cardNumber }),
         })
       ).rejects.toThrow(/card/i);
     });
@@ -345,6 +342,513 @@ describe('account.fundAccount - Payment Validation (VAL-206, VAL-207, VAL-210)',
   });
 });
 
+describe('account.fundAccount - Card Details Validation', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should reject expired cards', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const lastYear = new Date().getFullYear() - 1;
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource({ expirationYear: lastYear }),
+      })
+    ).rejects.toThrow(/expired/i);
+  });
+
+  it('should require a 4-digit CVV for American Express', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource({ accountNumber: '378282246310005', cvv: '123' }),
+      })
+    ).rejects.toThrow(/CVV must be 4 digits/);
+
+    const result = await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 10,
+      fundingSource: createTestCardSource({ accountNumber: '378282246310005', cvv: '1234' }),
+    });
+    expect(result.transaction.status).toBe('completed');
+  });
+
+  it('should reject a 4-digit CVV for Visa', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource({ cvv: '1234' }),
+      })
+    ).rejects.toThrow(/CVV must be 3 digits/);
+  });
+
+  it('should reject an invalid billing ZIP code', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource({ postalCode: '1234' }),
+      })
+    ).rejects.toThrow(/ZIP/);
+  });
+});
+
+describe('account.fundAccount - Card Payment Gateway', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should capture the charge and complete the deposit', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource: createTestCardSource() });
+
+    expect(result.transaction.status).toBe('completed');
+    const stored = await db.select().from(transactions).where(eq(transactions.id, result.transaction.id)).get();
+    expect(stored?.gatewayReference).toMatch(/^auth_/);
+    expect(result.availableBalance).toBe(25);
+  });
+
+  it('should only refer to the card by its masked label', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    const fundingSource = createTestCardSource();
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource });
+
+    expect(result.transaction.description).toBe('Funding from Visa •••• 1111');
+    const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, result.transaction.journalEntryId!)).all();
+    expect(entry.description).toBe('Funding from Visa •••• 1111');
+    expect(JSON.stringify(result)).not.toContain(fundingSource.accountNumber);
+    expect(result.transaction).not.toHaveProperty('gatewayReference');
+    expect(result.transaction).not.toHaveProperty('sourceFingerprint');
+    const [listed] = await accountCaller.getTransactions({ accountId: account.id });
+    expect(listed).not.toHaveProperty('sourceFingerprint');
+  });
+
+  it.each([
+    [TEST_CARDS.declined, /declined/],
+    [TEST_CARDS.insufficientFunds, /insufficient funds/],
+    [TEST_CARDS.suspectedFraud, /suspected fraud/],
+  ])('should reject test card %s without recording a deposit', async (cardNumber, message) => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 25,
+        fundingSource: createTestCardSource({ accountNumber: cardNumber }),
+      })
+    ).rejects.toMatchObject({ code: 'PAYMENT_REQUIRED', message: expect.stringMatching(message) });
+
+    const accountTransactions = await db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    expect(accountTransactions).toHaveLength(0);
+  });
+
+  it('should surface processor timeouts', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 25,
+        fundingSource: createTestCardSource({ accountNumber: TEST_CARDS.timeout }),
+      })
+    ).rejects.toMatchObject({ code: 'GATEWAY_TIMEOUT' });
+  });
+
+  it('should fail the deposit and void the authorization when the capture does not go through', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    vi.spyOn(getPaymentGateway(), 'capture').mockRejectedValueOnce(new PaymentGatewayTimeoutError());
+    const voidSpy = vi.spyOn(getPaymentGateway(), 'void');
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource: createTestCardSource() })
+    ).rejects.toMatchObject({ code: 'GATEWAY_TIMEOUT' });
+
+    const [deposit] = await db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(deposit.status).toBe('failed');
+    expect(updatedAccount.balance).toBe(0);
+    expect(voidSpy).toHaveBeenCalledWith(deposit.gatewayReference);
+    voidSpy.mockRestore();
+  });
+
+  it('should surface the original error when voiding the authorization fails too', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    vi.spyOn(getPaymentGateway(), 'capture').mockRejectedValueOnce(new PaymentGatewayTimeoutError());
+    const voidSpy = vi.spyOn(getPaymentGateway(), 'void').mockRejectedValueOnce(new Error('connection reset'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource: createTestCardSource() })
+    ).rejects.toMatchObject({ code: 'GATEWAY_TIMEOUT' });
+
+    expect(voidSpy).toHaveBeenCalledTimes(1);
+    expect(consoleSpy).toHaveBeenCalled();
+    voidSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('account.fundAccount - Routing Number Validation', () => {
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should reject routing numbers that fail the ABA checksum', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: { type: 'bank', accountNumber: '000123456789', routingNumber: '123456789' },
+      })
+    ).rejects.toThrow(/invalid routing number/i);
+  });
+
+  it('should reject routing numbers that are not in the routing directory', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    // 011401533 passes the checksum but is not a bank we know about.
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: { type: 'bank', accountNumber: '000123456789', routingNumber: '011401533' },
+      })
+    ).rejects.toThrow(/unknown routing number/i);
+  });
+
+  it('should resolve the bank name for a known routing number', async () => {
+    await expect(accountCaller.lookupRoutingNumber({ routingNumber: '021000021' })).resolves.toEqual({
+      routingNumber: '021000021',
+      bankName: 'Chase Bank, N.A.',
+    });
+  });
+});
+
+describe('account.fundAccount - Saved Funding Sources', () => {
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+  let paymentMethodsCaller: ReturnType<typeof paymentMethodsRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+    paymentMethodsCaller = paymentMethodsRouter.createCaller(ctx);
+  });
+
+  it('should charge a saved card without the card details', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const source = await paymentMethodsCaller.add({ fundingSource: createTestCardSource() });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 40, fundingSourceId: source.id });
+
+    expect(result.transaction).toMatchObject({ status: 'completed', description: 'Funding from Visa •••• 1111' });
+    expect(result.availableBalance).toBe(40);
+  });
+
+  it('should queue an ACH debit against a saved bank account', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const source = await paymentMethodsCaller.add({
+      fundingSource: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+    });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 40, fundingSourceId: source.id });
+
+    expect(result.transaction.status).toBe('pending');
+    const [entry] = await db.select().from(achEntries).where(eq(achEntries.transactionId, result.transaction.id)).all();
+    expect(entry).toMatchObject({ direction: 'debit', routingNumber: '021000021', amount: 4000 });
+    expect(decryptField(entry.accountNumber)).toBe('000123456789');
+  });
+
+  it('should require exactly one of inline details or a saved source', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const source = await paymentMethodsCaller.add({ fundingSource: createTestCardSource() });
+
+    await expect(accountCaller.fundAccount({ accountId: account.id, amount: 10 })).rejects.toThrow(/funding source/);
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource(),
+        fundingSourceId: source.id,
+      })
+    ).rejects.toThrow(/funding source/);
+  });
+
+  it("should reject another user's saved source and expired saved cards", async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const otherCaller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+    const otherSource = await otherCaller.add({ fundingSource: createTestCardSource() });
+    const expired = saveCard(db, ctx.user!.id, {
+      number: '5555555555554444',
+      expirationMonth: 1,
+      expirationYear: 2020,
+      postalCode: '12345',
+    });
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 10, fundingSourceId: otherSource.id })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 10, fundingSourceId: expired.id })
+    ).rejects.toThrow(/expired/);
+  });
+
+  it('should refuse a saved card whose vaulted card is gone', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const source = await paymentMethodsCaller.add({ fundingSource: createTestCardSource() });
+    db.update(fundingSources).set({ cardToken: null }).where(eq(fundingSources.id, source.id)).run();
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 10, fundingSourceId: source.id })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/Card not found/) });
+  });
+});
+
+describe('account.fundAccount - Unverified Bank Accounts', () => {
+  const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+  let paymentMethodsCaller: ReturnType<typeof paymentMethodsRouter.createCaller>;
+
+  beforeEach(async () => {
+    const ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+    paymentMethodsCaller = paymentMethodsRouter.createCaller(ctx);
+  });
+
+  it('should cap funding from a bank account until it is verified', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await accountCaller.fundAccount({ accountId: account.id, amount: 60, fundingSource: bankSource });
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 40.01, fundingSource: bankSource })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', message: expect.stringMatching(/Verify this bank account/) });
+    await accountCaller.fundAccount({ accountId: account.id, amount: 40, fundingSource: bankSource });
+
+    const [updatedAccount] = await accountCaller.getAccounts();
+    expect(updatedAccount.balance).toBe(100);
+  });
+
+  it('should not count debits that were never sent against the cap', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({ accountId: account.id, amount: 60, fundingSource: bankSource });
+    // As a rejected fraud review leaves it.
+    db.update(achEntries).set({ status: 'cancelled' }).where(eq(achEntries.transactionId, transaction.id)).run();
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 100, fundingSource: bankSource })
+    ).resolves.toMatchObject({ transaction: { status: 'pending' } });
+  });
+
+  it('should lift the cap once the micro-deposits are confirmed', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const verification = await paymentMethodsCaller.startBankVerification(bankSource);
+    const { firstAmount, secondAmount } = (await db
+      .select()
+      .from(bankVerifications)
+      .where(eq(bankVerifications.id, verification.id))
+      .get())!;
+    await paymentMethodsCaller.verifyBankAccount({
+      verificationId: verification.id,
+      amounts: [firstAmount / 100, secondAmount / 100],
+    });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 2500, fundingSource: bankSource });
+
+    expect(result.newBalance).toBe(2500);
+  });
+});
+
+describe('account.fundAccount - Funding Limits', () => {
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+  });
+
+  it('should reject a deposit above the per-transaction maximum', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 10_000_000, fundingSource: createTestCardSource() })
+    ).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Card per-transaction funding limit exceeded, $5000.00 remaining',
+    });
+    expect((await accountCaller.getAccounts())[0].balance).toBe(0);
+  });
+
+  it('should report the limit and remaining headroom in the error data', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'savings' });
+    setFundingLimitOverrides(db, ctx.user!.id, { card: { dailyCents: 300_00 } });
+    await accountCaller.fundAccount({ accountId: account.id, amount: 120.5, fundingSource: createTestCardSource() });
+
+    const error = await accountCaller
+      .fundAccount({ accountId: account.id, amount: 200, fundingSource: createTestCardSource() })
+      .catch((caught) => caught);
+
+    expect(error).toMatchObject({ code: 'FORBIDDEN', message: expect.stringMatching(/daily.*\$179\.50 remaining/) });
+    const shape = accountRouter._def._config.errorFormatter({
+      shape: { message: error.message, code: -32003, data: { code: 'FORBIDDEN', httpStatus: 403 } },
+      error,
+      type: 'mutation',
+      path: 'fundAccount',
+      input: undefined,
+      ctx,
+    });
+    expect(shape).toMatchObject({
+      data: { fundingLimit: { limit: 'daily', fundingType: 'card', maximum: 300, remaining: 179.5 } },
+    });
+  });
+
+  it('should throttle repeated funding attempts, including declined ones', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    setFundingLimitOverrides(db, ctx.user!.id, { attemptsPerHour: 2 });
+
+    await expect(
+      accountCaller.fundAccount({
+        accountId: account.id,
+        amount: 10,
+        fundingSource: createTestCardSource({ accountNumber: TEST_CARDS.declined }),
+      })
+    ).rejects.toMatchObject({ code: 'PAYMENT_REQUIRED' });
+    await accountCaller.fundAccount({ accountId: account.id, amount: 10, fundingSource: createTestCardSource() });
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 10, fundingSource: createTestCardSource() })
+    ).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS', message: expect.stringMatching(/hourly attempt/) });
+  });
+});
+
+describe('account.fundAccount - Fraud Screening', () => {
+  const bankSource = { type: 'bank' as const, accountNumber: '000555666777', routingNumber: '021000021' };
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+  });
+
+  it("should hold a deposit from another user's card until it is approved", async () => {
+    const fundingSource = createTestCardSource();
+    const otherCaller = accountRouter.createCaller(await createAuthenticatedContext());
+    const otherAccount = await otherCaller.createAccount({ accountType: 'checking' });
+    await otherCaller.fundAccount({ accountId: otherAccount.id, amount: 10, fundingSource });
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource });
+
+    expect(result).toMatchObject({ transaction: { status: 'held', journalEntryId: null }, newBalance: 0, availableBalance: 0 });
+    const held = listHeldDeposits(db).find((deposit) => deposit.transaction.id === result.transaction.id);
+    expect(held?.screening).toMatchObject({ decision: 'review', score: 60, reviewOutcome: null });
+
+    const approved = await approveHeldDeposit(db, getPaymentGateway(), result.transaction.id);
+    expect(approved.status).toBe('completed');
+    expect(await accountCaller.getAccounts()).toMatchObject([{ balance: 25, availableBalance: 25 }]);
+    await expect(approveHeldDeposit(db, getPaymentGateway(), result.transaction.id)).rejects.toThrow(/not a deposit held/);
+  });
+
+  it('should release the card authorization when a held deposit is rejected', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const voidSpy = vi.spyOn(getPaymentGateway(), 'void');
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 3000, fundingSource: createTestCardSource() });
+    expect(result.transaction.status).toBe('held');
+
+    const rejected = await rejectHeldDeposit(db, getPaymentGateway(), result.transaction.id);
+    expect(rejected.status).toBe('failed');
+    const stored = await db.select().from(transactions).where(eq(transactions.id, result.transaction.id)).get();
+    expect(voidSpy).toHaveBeenCalledWith(stored?.gatewayReference);
+    expect((await accountCaller.getAccounts())[0].balance).toBe(0);
+    voidSpy.mockRestore();
+  });
+
+  it('should fail a held card deposit whose authorization the gateway no longer has', async () => {
+    const holdDeposit = async (caller: typeof accountCaller) => {
+      const account = await caller.createAccount({ accountType: 'checking' });
+      const { transaction } = await caller.fundAccount({ accountId: account.id, amount: 3000, fundingSource: createTestCardSource() });
+      expect(transaction.status).toBe('held');
+      return transaction.id;
+    };
+    const approved = await holdDeposit(accountCaller);
+    const rejected = await holdDeposit(accountRouter.createCaller(await createAuthenticatedContext()));
+    // A gateway that starts out empty, as the simulator does after a restart.
+    const restarted = new SimulatedPaymentGateway(db);
+
+    expect(await approveHeldDeposit(db, restarted, approved)).toMatchObject({ status: 'failed' });
+    expect(await rejectHeldDeposit(db, restarted, rejected)).toMatchObject({ status: 'failed' });
+    expect(listHeldDeposits(db).map((deposit) => deposit.transaction.id)).not.toContain(approved);
+    expect((await accountCaller.getAccounts())[0].balance).toBe(0);
+  });
+
+  it('should keep the ACH debit of a held bank deposit out of the queue until approval', async () => {
+    const paymentMethodsCaller = paymentMethodsRouter.createCaller(ctx);
+    const verification = await paymentMethodsCaller.startBankVerification(bankSource);
+    const { firstAmount, secondAmount } = (await db
+      .select()
+      .from(bankVerifications)
+      .where(eq(bankVerifications.id, verification.id))
+      .get())!;
+    await paymentMethodsCaller.verifyBankAccount({
+      verificationId: verification.id,
+      amounts: [firstAmount / 100, secondAmount / 100],
+    });
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    const result = await accountCaller.fundAccount({ accountId: account.id, amount: 3000, fundingSource: bankSource });
+    const entry = () => db.select().from(achEntries).where(eq(achEntries.transactionId, result.transaction.id)).get();
+    expect(result.transaction.status).toBe('held');
+    expect(entry()?.status).toBe('held');
+
+    await approveHeldDeposit(db, getPaymentGateway(), result.transaction.id);
+    expect(entry()?.status).toBe('pending');
+    expect(await accountCaller.getAccounts()).toMatchObject([{ balance: 3000, availableBalance: 0 }]);
+  });
+
+  it('should refuse deposits the rules deny and keep a record of the screening', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    for (let i = 0; i < 4; i++) {
+      await accountCaller.fundAccount({ accountId: account.id, amount: 5, fundingSource: createTestCardSource() });
+    }
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 5, fundingSource: createTestCardSource() })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', message: 'This deposit could not be accepted' });
+
+    const [denied] = await db.select().from(fraudScreenings).where(eq(fraudScreenings.decision, 'deny')).all();
+    expect(denied).toMatchObject({ accountId: account.id, transactionId: null, amount: 500 });
+    expect(JSON.parse(denied.results)).toMatchObject([{ rule: 'distinct_cards', decision: 'deny' }]);
+  });
+});
+
 describe('account.fundAccount - Zero Amount Validation (VAL-205)', () => {
   let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
   let accountCaller: ReturnType<typeof accountRouter.createCaller>;
@@ -361,11 +865,234 @@ describe('account.fundAccount - Zero Amount Validation (VAL-205)', () => {
       accountCaller.fundAccount({
         accountId: account.id,
         amount: 0,
-        fundingSource: {
-          type: 'card',
-          accountNumber: '4111111111111111',
-        },
+        fundingSource: createTestCardSource(),
       })
     ).rejects.toThrow(/greater than 0/i);
   });
-});
\ No newline at end of file
+});
+describe('account.transfer - Internal Transfers', () => {
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+  });
+
+  it('should move money between owned accounts with a linked pair of transactions', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const savings = await accountCaller.createAccount({ accountType: 'savings' });
+    await accountCaller.fundAccount({
+      accountId: checking.id,
+      amount: 100,
+      fundingSource: createTestCardSource(),
+    });
+
+    const result = await accountCaller.transfer({
+      fromAccountId: checking.id,
+      toAccountId: savings.id,
+      amount: 40.25,
+    });
+
+    expect(result.fromBalance).toBe(59.75);
+    expect(result.toBalance).toBe(40.25);
+    expect(result.fromTransaction.type).toBe('withdrawal');
+    expect(result.toTransaction.type).toBe('deposit');
+
+    const legs = await db.select().from(transactions).where(eq(transactions.transferId, result.transferId)).all();
+    expect(legs).toHaveLength(2);
+    expect(legs.map((leg) => leg.accountId).sort()).toEqual([checking.id, savings.id].sort());
+    expect(legs.every((leg) => leg.amount === 4_025)).toBe(true);
+  });
+
+  it('should reject transfers that would overdraw the source account', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const savings = await accountCaller.createAccount({ accountType: 'savings' });
+    await accountCaller.fundAccount({
+      accountId: checking.id,
+      amount: 10,
+      fundingSource: createTestCardSource(),
+    });
+
+    await expect(
+      accountCaller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 10.01 })
+    ).rejects.toThrow(/insufficient funds/i);
+
+    const dbChecking = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+    const savingsTransactions = await db.select().from(transactions).where(eq(transactions.accountId, savings.id)).all();
+    expect(dbChecking?.balance).toBe(1_000);
+    expect(savingsTransactions).toHaveLength(0);
+  });
+
+  it('should reject transfers into another user\'s account', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const otherCaller = accountRouter.createCaller(await createAuthenticatedContext());
+    const otherAccount = await otherCaller.createAccount({ accountType: 'savings' });
+
+    await expect(
+      accountCaller.transfer({ fromAccountId: checking.id, toAccountId: otherAccount.id, amount: 1 })
+    ).rejects.toThrow(/account not found/i);
+  });
+
+  it('should reject transfers to the same account', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.transfer({ fromAccountId: checking.id, toAccountId: checking.id, amount: 1 })
+    ).rejects.toThrow(/same account/i);
+  });
+});
+
+describe('account.withdraw - External Bank Withdrawals', () => {
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+  });
+
+  it('should hold funds and record a pending withdrawal', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 50,
+      fundingSource: createTestCardSource(),
+    });
+
+    const result = await accountCaller.withdraw({
+      accountId: account.id,
+      amount: 20,
+      destination: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+    });
+
+    expect(result.newBalance).toBe(30);
+    expect(result.transaction.type).toBe('withdrawal');
+    expect(result.transaction.status).toBe('pending');
+    expect(result.transaction.processedAt).toBeNull();
+    expect(result.transaction.description).toBe('Withdrawal to bank ****6789');
+  });
+
+  it('should reject withdrawals above the balance', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.withdraw({
+        accountId: account.id,
+        amount: 0.01,
+        destination: { type: 'bank', accountNumber: '000123456789', routingNumber: '021000021' },
+      })
+    ).rejects.toThrow(/insufficient funds/i);
+
+    const accountTransactions = await db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    expect(accountTransactions).toHaveLength(0);
+  });
+
+  it('should reject destinations without a 9-digit routing number', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+
+    await expect(
+      accountCaller.withdraw({
+        accountId: account.id,
+        amount: 1,
+        destination: { type: 'bank', accountNumber: '000123456789', routingNumber: '1234' },
+      })
+    ).rejects.toThrow(/routing/i);
+  });
+});
+
+describe('account.fundAccount - Idempotency Keys', () => {
+  let ctx: Awaited<ReturnType<typeof createAuthenticatedContext>>;
+  let accountCaller: ReturnType<typeof accountRouter.createCaller>;
+
+  beforeEach(async () => {
+    ctx = await createAuthenticatedContext();
+    accountCaller = accountRouter.createCaller(ctx);
+  });
+
+  it('should replay the original result when the same key is retried', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const request = {
+      accountId: account.id,
+      amount: 25,
+      fundingSource: createTestCardSource(),
+      idempotencyKey: 'double-click-1',
+    };
+
+    const first = await accountCaller.fundAccount(request);
+    const second = await accountCaller.fundAccount(request);
+
+    expect(second).toEqual(first);
+
+    const deposits = await db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    const dbAccount = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
+    expect(deposits).toHaveLength(1);
+    expect(dbAccount?.balance).toBe(2_500);
+  });
+
+  it('should leave the CVV out of the stored request fingerprint', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { idempotencyKey, ...payload } = {
+      accountId: account.id,
+      amount: 25,
+      fundingSource: createTestCardSource(),
+      idempotencyKey: 'card-fingerprint',
+    };
+
+    await accountCaller.fundAccount({ ...payload, idempotencyKey });
+
+    const stored = await db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, idempotencyKey)).get();
+    const withoutCvv = { ...payload, fundingSource: { ...payload.fundingSource, cvv: undefined } };
+    expect(stored?.fingerprint).toBe(fingerprintRequest('account.fundAccount', withoutCvv));
+    expect(stored?.fingerprint).not.toBe(fingerprintRequest('account.fundAccount', payload));
+  });
+
+  it('should reject a reused key with a different payload', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const fundingSource = createTestCardSource();
+
+    await accountCaller.fundAccount({ accountId: account.id, amount: 25, fundingSource, idempotencyKey: 'reused-key' });
+
+    await expect(
+      accountCaller.fundAccount({ accountId: account.id, amount: 30, fundingSource, idempotencyKey: 'reused-key' })
+    ).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should release the key when the mutation fails so it can be retried', async () => {
+    const checking = await accountCaller.createAccount({ accountType: 'checking' });
+    const savings = await accountCaller.createAccount({ accountType: 'savings' });
+    const request = { fromAccountId: checking.id, toAccountId: savings.id, amount: 5, idempotencyKey: 'retry-after-fail' };
+
+    await expect(accountCaller.transfer(request)).rejects.toThrow(/insufficient funds/i);
+
+    await accountCaller.fundAccount({
+      accountId: checking.id,
+      amount: 5,
+      fundingSource: createTestCardSource(),
+    });
+    const result = await accountCaller.transfer(request);
+
+    expect(result.toBalance).toBe(5);
+  });
+
+  it('should scope keys to the user that sent them', async () => {
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const otherCaller = accountRouter.createCaller(await createAuthenticatedContext());
+    const otherAccount = await otherCaller.createAccount({ accountType: 'checking' });
+
+    await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 1,
+      fundingSource: createTestCardSource(),
+      idempotencyKey: 'shared-key',
+    });
+    const result = await otherCaller.fundAccount({
+      accountId: otherAccount.id,
+      amount: 2,
+      fundingSource: createTestCardSource(),
+      idempotencyKey: 'shared-key',
+    });
+
+    expect(result.newBalance).toBe(2);
+  });
+});
@@ -1,11 +1,40 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { randomInt } from "crypto";
+import { randomInt, randomUUID } from "crypto";
 import { protectedProcedure, router } from "../trpc";
 import { db } from "@/lib/db";
+import {
+  InsufficientFundsError,
+  getAvailableBalance,
+  getHeldAmount,
+  postJournalEntry,
+  type DbExecutor,
+  type JournalEntryInput,
+} from "@/lib/db/ledger";
+import { bankAccountFingerprint, queueAchEntry } from "@/lib/ach/entries";
+import { UNVERIFIED_FUNDING_LIMIT_CENTS, getBankFundingTotal, isBankAccountVerified } from "@/lib/ach/verification";
+import { reverseTransaction, settleTransaction } from "@/lib/db/settlement";
+import { FundingLimitExceededError, enforceFundingLimits, type FundingType } from "@/lib/limits";
+import { recordFraudScreening, screenDeposit, type FraudContext } from "@/lib/fraud";
+import { describeInactiveAccount, reviewNewAccount } from "@/lib/kyc";
+import {
+  FundingSourceNotFoundError,
+  PaymentDeclinedError,
+  PaymentGatewayTimeoutError,
+  describeCard,
+  getFundingSource,
+  getPaymentGateway,
+  getVaultedCard,
+  revealBankAccountNumber,
+  tokenizeCard,
+  type PaymentGateway,
+  type VaultedCard,
+} from "@/lib/payments";
 import { accounts, transactions } from "@/lib/db/schema";
 import { eq, and, desc } from "drizzle-orm";
-import { validateCardNumber } from "@/lib/validation/payment";
+import { validateExpiration, validateRoutingNumber } from "@/lib/validation/payment";
+import { withIdempotency } from "../utils/idempotency";
+import { assertValidCard, bankFundingSourceSchema, fundingSourceSchema } from "../utils/funding-source";
 
 type AccountRecord = typeof accounts.$inferSelect;
 type TransactionRecord = typeof transactions.$inferSelect;
@@ -13,15 +42,194 @@ type TransactionRecord = typeof transactions.$inferSelect;
 const centsFromDollars = (amount: number) => Math.round(amount * 100);
 const dollarsFromCents = (cents: number) => cents / 100;
 
+// `balance` is the ledger balance; `availableBalance` excludes deposits that have not settled yet.
 const serializeAccount = (account: AccountRecord) => ({
   ...account,
   balance: dollarsFromCents(account.balance),
+  availableBalance: dollarsFromCents(account.balance - getHeldAmount(db, account.id)),
 });
 
+// Only what the customer needs to see. The gateway reference and the source fingerprint (a keyed hash
+// of the card or bank account number) stay on the server.
 const serializeTransaction = (transaction: TransactionRecord) => ({
-  ...transaction,
+  id: transaction.id,
+  accountId: transaction.accountId,
+  type: transaction.type,
   amount: dollarsFromCents(transaction.amount),
+  description: transaction.description,
+  status: transaction.status,
+  channel: transaction.channel,
+  transferId: transaction.transferId,
+  journalEntryId: transaction.journalEntryId,
+  returnReasonCode: transaction.returnReasonCode,
+  createdAt: transaction.createdAt,
+  processedAt: transaction.processedAt,
 });
+
+// Optional client-generated key that makes a money-moving mutation safe to retry.
+const idempotencyKeySchema = z.string().min(1).max(255).optional();
+
+// Post to the ledger, surfacing overdrafts as a client error.
+function postEntry(entry: JournalEntryInput, executor: DbExecutor = db) {
+  try {
+    return postJournalEntry(executor, entry);
+  } catch (error) {
+    if (error instanceof InsufficientFundsError) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Insufficient funds",
+      });
+    }
+    throw error;
+  }
+}
+
+// Call the payment gateway, surfacing declines and processor timeouts as client errors.
+async function callGateway<T>(operation: (gateway: PaymentGateway) => Promise<T>): Promise<T> {
+  try {
+    return await operation(getPaymentGateway());
+  } catch (error) {
+    if (error instanceof PaymentDeclinedError) {
+      throw new TRPCError({
+        code: "PAYMENT_REQUIRED",
+        message: error.message,
+        cause: error,
+      });
+    }
+    if (error instanceof PaymentGatewayTimeoutError) {
+      throw new TRPCError({
+        code: "GATEWAY_TIMEOUT",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+// Release a card authorization for a deposit that did not go through. Best effort: a failed void must not
+// replace the error that failed the deposit, and an authorization that is never voided lapses on its own.
+async function voidAuthorization(authorizationId: string) {
+  try {
+    await getPaymentGateway().void(authorizationId);
+  } catch (error) {
+    console.error(`Failed to void authorization ${authorizationId}`, error);
+  }
+}
+
+type FundingInput = {
+  fundingSource?: z.infer<typeof fundingSourceSchema>;
+  fundingSourceId?: number;
+};
+
+type ResolvedFundingSource =
+  | { type: "card"; card: VaultedCard; cvv?: string; postalCode: string }
+  | { type: "bank"; routingNumber: string; accountNumber: string };
+
+// Turn inline details or a saved funding source into what the charge needs. Inline card numbers are
+// tokenized here, so nothing after this point sees the raw PAN.
+function resolveFundingSource(userId: number, input: FundingInput): ResolvedFundingSource {
+  const { fundingSource } = input;
+  if (fundingSource?.type === "card") {
+    const card = tokenizeCard(db, {
+      userId,
+      number: fundingSource.accountNumber,
+      expirationMonth: fundingSource.expirationMonth,
+      expirationYear: fundingSource.expirationYear,
+    });
+    return { type: "card", card, cvv: fundingSource.cvv, postalCode: fundingSource.postalCode };
+  }
+  if (fundingSource?.type === "bank") {
+    return fundingSource;
+  }
+
+  let saved;
+  try {
+    saved = getFundingSource(db, userId, input.fundingSourceId!);
+  } catch (error) {
+    if (error instanceof FundingSourceNotFoundError) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Funding source not found",
+      });
+    }
+    throw error;
+  }
+
+  if (saved.type === "bank") {
+    if (!saved.routingNumber || !saved.accountNumber) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This bank account is incomplete. Remove it and add it again.",
+      });
+    }
+    return { type: "bank", routingNumber: saved.routingNumber, accountNumber: revealBankAccountNumber(saved) };
+  }
+
+  // A saved card whose vault record is gone cannot be charged; the user has to add the card again.
+  const card = saved.cardToken ? getVaultedCard(db, saved.cardToken) : undefined;
+  if (!card) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Card not found. Remove it and add it again.",
+    });
+  }
+  if (!saved.postalCode) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This card is missing its billing ZIP code. Remove it and add it again.",
+    });
+  }
+  const expirationError = validateExpiration(card.expirationMonth, card.expirationYear);
+  if (expirationError) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: expirationError,
+    });
+  }
+  return { type: "card", card, postalCode: saved.postalCode };
+}
+
+// Bank accounts that have not passed micro-deposit verification can only fund up to a small first-time limit.
+function assertBankFundingAllowed(
+  executor: DbExecutor,
+  userId: number,
+  bankAccount: { routingNumber: string; accountNumber: string },
+  amountCents: number
+) {
+  const fingerprint = bankAccountFingerprint(bankAccount.routingNumber, bankAccount.accountNumber);
+  if (isBankAccountVerified(executor, userId, fingerprint)) {
+    return;
+  }
+
+  if (getBankFundingTotal(executor, userId, fingerprint) + amountCents > UNVERIFIED_FUNDING_LIMIT_CENTS) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Verify this bank account to deposit more than $${dollarsFromCents(UNVERIFIED_FUNDING_LIMIT_CENTS)}`,
+    });
+  }
+}
+
+// Check the deposit against the account's funding limits, surfacing a breach with the limit and remaining headroom.
+function assertWithinFundingLimits(userId: number, account: AccountRecord, fundingType: FundingType, amountCents: number) {
+  try {
+    enforceFundingLimits(db, { userId, account, fundingType, amountCents });
+  } catch (error) {
+    if (error instanceof FundingLimitExceededError) {
+      const { limit, remaining } = error.details;
+      throw new TRPCError({
+        code: limit === "attempts_per_hour" ? "TOO_MANY_REQUESTS" : "FORBIDDEN",
+        message:
+          limit === "attempts_per_hour"
+            ? `${error.message}, try again later`
+            : `${error.message}, $${dollarsFromCents(remaining).toFixed(2)} remaining`,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
 // Generate a random 10‑digit account number using a cryptographically secure RNG.
 function generateAccountNumber(): string {
   return randomInt(0, 10_000_000_000).toString().padStart(10, "0");
@@ -35,6 +243,17 @@ export const accountRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
+      // Users with a possible sanctions match cannot open accounts until compliance clears them.
+      if (ctx.user.status !== "active") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message:
+            ctx.user.status === "pending_review"
+              ? "Your application is under review. You can open an account once it is approved."
+              : "Accounts cannot be opened for this profile",
+        });
+      }
+
       // Check if user already has an account of this type
       const existingAccount = await db
         .select()
@@ -64,19 +283,22 @@ export const accountRouter = router({
         accountNumber: accountNumber!,
         accountType: input.accountType,
         balance: 0,
-        status: "active",
+        status: "pending",
       });
 
       // Fetch the created account so we can return the saved record with its generated fields.
-      const account = await db.select().from(accounts).where(eq(accounts.accountNumber, accountNumber!)).get();
+      const created = await db.select().from(accounts).where(eq(accounts.accountNumber, accountNumber!)).get();
 
-      if (!account) {
+      if (!created) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "Failed to create account",
         });
       }
 
+      // Accounts start pending; the automated KYC checks activate them or leave them for an admin.
+      const account = reviewNewAccount(db, created.id);
+
       return serializeAccount(account);
     }),
 
@@ -85,101 +307,382 @@ export const accountRouter = router({
 
     return userAccounts.map(serializeAccount);
   }),
-  // Fund an account from either a card or bank source, validating input based on the source type.
-  fundAccount: protectedProcedure
+  // Resolve a routing number to its bank so the funding form can confirm where the money comes from.
+  lookupRoutingNumber: protectedProcedure
     .input(
       z.object({
-        accountId: z.number(),
-        amount: z.number().positive(),
-        // Separated funding source into two types: card and bank because we need to validate different fields for each type.
-        fundingSource: z.discriminatedUnion("type", [
-          z.object({
-            type: z.literal("card"),
-            accountNumber: z.string(),
-          }),
-          z.object({
-            type: z.literal("bank"),
-            accountNumber: z.string(),
-            routingNumber: z.string().regex(/^\d{9}$/, "Routing number must be 9 digits"),
-          }),
-        ]),
+        routingNumber: z.string(),
       })
     )
+    .query(({ input }) => {
+      const validation = validateRoutingNumber(input.routingNumber);
+      if (!validation.isValid) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: validation.message,
+        });
+      }
+
+      return { routingNumber: validation.routingNumber, bankName: validation.bankName };
+    }),
+
+  // Fund an account from either a card or bank source, validating input based on the source type.
+  // The source is either entered inline or picked from the user's saved funding sources.
+  fundAccount: protectedProcedure
+    .input(
+      z
+        .object({
+          accountId: z.number(),
+          amount: z.number().positive(),
+          // Separated funding source into two types: card and bank because we need to validate different fields for each type.
+          fundingSource: fundingSourceSchema.optional(),
+          fundingSourceId: z.number().optional(),
+          idempotencyKey: idempotencyKeySchema,
+        })
+        .refine((value) => (value.fundingSource === undefined) !== (value.fundingSourceId === undefined), {
+          message: "Provide either funding source details or a saved funding source",
+          path: ["fundingSource"],
+        })
+    )
     .mutation(async ({ input, ctx }) => {
-      const amountCents = centsFromDollars(input.amount);
+      const { idempotencyKey, ...payload } = input;
+      // The CVV must not be kept after authorization, not even inside a fingerprint.
+      const fingerprinted =
+        payload.fundingSource?.type === "card" ? { ...payload, fundingSource: { ...payload.fundingSource, cvv: undefined } } : payload;
+      const idempotency = { userId: ctx.user.id, scope: "account.fundAccount", key: idempotencyKey, payload: fingerprinted };
+
+      return withIdempotency(idempotency, async () => {
+        const amountCents = centsFromDollars(input.amount);
+
+        if (input.fundingSource?.type === "card") {
+          assertValidCard(input.fundingSource);
+        }
 
-      if (input.fundingSource.type === "card") {
-        const cardValidation = validateCardNumber(input.fundingSource.accountNumber);
-        if (!cardValidation.isValid) {
+        // Verify account belongs to user
+        const account = await db
+          .select()
+          .from(accounts)
+          .where(and(eq(accounts.id, input.accountId), eq(accounts.userId, ctx.user.id)))
+          .get();
+
+        if (!account) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Account not found",
+          });
+        }
+
+        if (account.status !== "active") {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: cardValidation.message,
+            message: describeInactiveAccount(account),
           });
         }
-      }
 
-      // Verify account belongs to user
-      const account = await db
-        .select()
-        .from(accounts)
-        .where(and(eq(accounts.id, input.accountId), eq(accounts.userId, ctx.user.id)))
-        .get();
+        // Card funding is authorized with the payment gateway, recorded as a pending deposit and completed
+        // once the charge is captured. Bank funding is an ACH debit that stays pending (and on hold) until
+        // the settlement processor completes it.
+        const fundingSource = resolveFundingSource(ctx.user.id, input);
+        const isCard = fundingSource.type === "card";
+        assertWithinFundingLimits(ctx.user.id, account, fundingSource.type, amountCents);
 
-      if (!account) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Account not found",
-        });
-      }
+        // Deposits the fraud rules deny are refused outright. Ones sent to review are recorded as held,
+        // with the card authorized but not captured and the ACH debit not sent, until an analyst decides.
+        const fraudContext: FraudContext = {
+          userId: ctx.user.id,
+          accountId: account.id,
+          amountCents,
+          channel: isCard ? "card" : "ach",
+          sourceFingerprint:
+            fundingSource.type === "card"
+              ? fundingSource.card.fingerprint
+              : bankAccountFingerprint(fundingSource.routingNumber, fundingSource.accountNumber),
+          now: new Date(),
+        };
+        const screening = screenDeposit(db, fraudContext);
+        if (screening.decision === "deny") {
+          recordFraudScreening(db, fraudContext, screening, null);
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "This deposit could not be accepted",
+          });
+        }
+        const isHeld = screening.decision === "review";
 
-      if (account.status !== "active") {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Account is not active",
-        });
-      }
+        const authorization =
+          fundingSource.type === "card"
+            ? await callGateway((gateway) =>
+                gateway.authorize({
+                  amountCents,
+                  card: {
+                    token: fundingSource.card.token,
+                    cvv: fundingSource.cvv,
+                    postalCode: fundingSource.postalCode,
+                  },
+                  reference: idempotencyKey,
+                })
+              )
+            : null;
+        const description =
+          fundingSource.type === "card" ? `Funding from ${describeCard(fundingSource.card)}` : "Funding from bank";
+
+        let posted: { transaction: TransactionRecord; balance: number };
+        try {
+          posted = db.transaction((tx) => {
+            if (fundingSource.type === "bank") {
+              assertBankFundingAllowed(tx, ctx.user.id, fundingSource, amountCents);
+            }
 
-      // Create transaction
-      const insertedTransaction = await db
-        .insert(transactions)
-        .values({
-          accountId: input.accountId,
-          type: "deposit",
-          amount: amountCents,
-          description: `Funding from ${input.fundingSource.type}`,
-          status: "completed",
-          processedAt: new Date().toISOString(),
+            const deposit = {
+              accountId: account.id,
+              type: "deposit",
+              amount: amountCents,
+              description,
+              channel: isCard ? "card" : "ach",
+              gatewayReference: authorization?.id ?? null,
+              sourceFingerprint: fraudContext.sourceFingerprint,
+            };
+            let result: { transaction: TransactionRecord; balance: number };
+            if (isHeld) {
+              // Nothing is posted to the ledger until the review releases the deposit.
+              result = {
+                transaction: tx.insert(transactions).values({ ...deposit, status: "held" }).returning().get(),
+                balance: account.balance,
+              };
+            } else {
+              const entry = postEntry(
+                {
+                  description,
+                  postings: [
+                    { accountId: account.id, amount: amountCents },
+                    { systemAccount: isCard ? "card_clearing" : "ach_clearing", amount: -amountCents },
+                  ],
+                  transactions: [{ ...deposit, status: "pending" }],
+                },
+                tx
+              );
+              result = { transaction: entry.transactions[0], balance: entry.balances.get(account.id)! };
+            }
+
+            // Pull the funds from the customer's external bank account in the next ACH file.
+            if (fundingSource.type === "bank") {
+              queueAchEntry(tx, {
+                transactionId: result.transaction.id,
+                userId: ctx.user.id,
+                direction: "debit",
+                routingNumber: fundingSource.routingNumber,
+                accountNumber: fundingSource.accountNumber,
+                individualName: `${ctx.user.firstName} ${ctx.user.lastName}`,
+                amountCents,
+                status: isHeld ? "held" : "pending",
+              });
+            }
+            recordFraudScreening(tx, fraudContext, screening, result.transaction.id);
+
+            return result;
+          });
+        } catch (error) {
+          if (authorization) {
+            await voidAuthorization(authorization.id);
+          }
+          throw error;
+        }
+
+        let transaction = posted.transaction;
+        if (authorization && !isHeld) {
+          try {
+            await callGateway((gateway) => gateway.capture(authorization.id));
+          } catch (error) {
+            reverseTransaction(db, transaction.id, "failed");
+            await voidAuthorization(authorization.id);
+            throw error;
+          }
+          transaction = settleTransaction(db, transaction.id) ?? transaction;
+        }
+
+        return {
+          transaction: serializeTransaction(transaction),
+          newBalance: dollarsFromCents(posted.balance),
+          availableBalance: dollarsFromCents(getAvailableBalance(db, account.id)),
+        };
+      });
+    }),
+
+  // Move money between two accounts owned by the same user. Both legs are written in one SQLite transaction
+  // and only available (settled) funds can be moved.
+  transfer: protectedProcedure
+    .input(
+      z
+        .object({
+          fromAccountId: z.number(),
+          toAccountId: z.number(),
+          amount: z.number().positive(),
+          idempotencyKey: idempotencyKeySchema,
         })
-        .returning()
-        .get();
+        .refine((value) => value.fromAccountId !== value.toAccountId, {
+          message: "Cannot transfer to the same account",
+          path: ["toAccountId"],
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { idempotencyKey, ...payload } = input;
+      const idempotency = { userId: ctx.user.id, scope: "account.transfer", key: idempotencyKey, payload };
 
-      if (!insertedTransaction) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to record transaction",
+      return withIdempotency(idempotency, async () => {
+        const amountCents = centsFromDollars(input.amount);
+
+        // Verify both accounts belong to user
+        const fromAccount = await db
+          .select()
+          .from(accounts)
+          .where(and(eq(accounts.id, input.fromAccountId), eq(accounts.userId, ctx.user.id)))
+          .get();
+        const toAccount = await db
+          .select()
+          .from(accounts)
+          .where(and(eq(accounts.id, input.toAccountId), eq(accounts.userId, ctx.user.id)))
+          .get();
+
+        if (!fromAccount || !toAccount) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Account not found",
+          });
+        }
+
+        const inactiveAccount = [fromAccount, toAccount].find((candidate) => candidate.status !== "active");
+        if (inactiveAccount) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: describeInactiveAccount(inactiveAccount),
+          });
+        }
+
+        const transferId = randomUUID();
+        const processedAt = new Date().toISOString();
+
+        // The ledger rejects the entry if the source account would go below zero.
+        const { transactions: recorded, balances } = postEntry({
+          description: `Transfer ${transferId}`,
+          postings: [
+            { accountId: fromAccount.id, amount: -amountCents },
+            { accountId: toAccount.id, amount: amountCents },
+          ],
+          transactions: [
+            {
+              accountId: fromAccount.id,
+              type: "withdrawal",
+              amount: amountCents,
+              description: `Transfer to ${toAccount.accountType} ****${toAccount.accountNumber.slice(-4)}`,
+              status: "completed",
+              channel: "internal",
+              processedAt,
+              transferId,
+            },
+            {
+              accountId: toAccount.id,
+              type: "deposit",
+              amount: amountCents,
+              description: `Transfer from ${fromAccount.accountType} ****${fromAccount.accountNumber.slice(-4)}`,
+              status: "completed",
+              channel: "internal",
+              processedAt,
+              transferId,
+            },
+          ],
         });
-      }
 
-      const updatedAccount = await db
-        .update(accounts)
-        .set({
-          balance: account.balance + amountCents,
-        })
-        .where(eq(accounts.id, input.accountId))
-        .returning()
-        .get();
+        return {
+          transferId,
+          fromTransaction: serializeTransaction(recorded[0]),
+          toTransaction: serializeTransaction(recorded[1]),
+          fromBalance: dollarsFromCents(balances.get(fromAccount.id)!),
+          toBalance: dollarsFromCents(balances.get(toAccount.id)!),
+        };
+      });
+    }),
 
-      if (!updatedAccount) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to update account balance",
+  // Send money to an external bank account. The amount is held immediately and the withdrawal stays pending until it settles.
+  withdraw: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        amount: z.number().positive(),
+        destination: bankFundingSourceSchema,
+        idempotencyKey: idempotencyKeySchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { idempotencyKey, ...payload } = input;
+      const idempotency = { userId: ctx.user.id, scope: "account.withdraw", key: idempotencyKey, payload };
+
+      return withIdempotency(idempotency, async () => {
+        const amountCents = centsFromDollars(input.amount);
+
+        // Verify account belongs to user
+        const account = await db
+          .select()
+          .from(accounts)
+          .where(and(eq(accounts.id, input.accountId), eq(accounts.userId, ctx.user.id)))
+          .get();
+
+        if (!account) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Account not found",
+          });
+        }
+
+        if (account.status !== "active") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: describeInactiveAccount(account),
+          });
+        }
+
+        const description = `Withdrawal to bank ****${input.destination.accountNumber.slice(-4)}`;
+        const { transactions: recorded, balances } = db.transaction((tx) => {
+          const posted = postEntry(
+            {
+              description,
+              postings: [
+                { accountId: account.id, amount: -amountCents },
+                { systemAccount: "ach_clearing", amount: amountCents },
+              ],
+              transactions: [
+                {
+                  accountId: account.id,
+                  type: "withdrawal",
+                  amount: amountCents,
+                  description,
+                  status: "pending",
+                  channel: "ach",
+                },
+              ],
+            },
+            tx
+          );
+
+          // Push the funds to the destination account in the next ACH file.
+          queueAchEntry(tx, {
+            transactionId: posted.transactions[0].id,
+            userId: ctx.user.id,
+            direction: "credit",
+            routingNumber: input.destination.routingNumber,
+            accountNumber: input.destination.accountNumber,
+            individualName: `${ctx.user.firstName} ${ctx.user.lastName}`,
+            amountCents,
+          });
+
+          return posted;
         });
-      }
 
-      return {
-        transaction: serializeTransaction(insertedTransaction),
-        newBalance: dollarsFromCents(updatedAccount.balance),
-      };
+        return {
+          transaction: serializeTransaction(recorded[0]),
+          newBalance: dollarsFromCents(balances.get(account.id)!),
+          availableBalance: dollarsFromCents(getAvailableBalance(db, account.id)),
+        };
+      });
     }),
 
   getTransactions: protectedProcedure
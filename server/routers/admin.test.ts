@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { desc, eq } from 'drizzle-orm';
+import { adminRouter } from './admin';
+import { accountRouter } from './account';
+import { authRouter } from './auth';
+import {
+  createAuthenticatedContext,
+  createContextWithToken,
+  createTestCardSource,
+  createTestContext,
+  createTestUserData,
+} from '../test-utils';
+import { db } from '@/lib/db';
+import { kycReviews, users } from '@/lib/db/schema';
+import { LOGIN_THROTTLE_POLICIES, recordLoginFailure } from '@/lib/auth';
+import { getPaymentGateway } from '@/lib/payments';
+
+describe('admin - KYC Review', () => {
+  let adminCaller: ReturnType<typeof adminRouter.createCaller>;
+  let adminId: number;
+
+  beforeEach(async () => {
+    const { user, token } = await authRouter.createCaller(await createTestContext()).signup(createTestUserData());
+    adminId = user.id;
+    db.update(users).set({ role: 'admin' }).where(eq(users.id, adminId)).run();
+    adminCaller = adminRouter.createCaller(await createContextWithToken(token));
+  });
+
+  // Other tests leave their pending accounts behind, so look only at the given ones.
+  const queued = async (...accountIds: number[]) =>
+    (await adminCaller.kycQueue()).filter((item) => accountIds.includes(item.accountId));
+
+  const openAccount = async (overrides?: Parameters<typeof createTestUserData>[0]) => {
+    const caller = accountRouter.createCaller(await createAuthenticatedContext(createTestUserData(overrides)));
+    return { caller, account: await caller.createAccount({ accountType: 'checking' }) };
+  };
+
+  it('should activate accounts that pass every automated check', async () => {
+    const { account } = await openAccount();
+
+    expect(account).toMatchObject({ status: 'active', statusReason: null });
+    const [review] = await db.select().from(kycReviews).where(eq(kycReviews.accountId, account.id)).all();
+    expect(review).toMatchObject({ status: 'active', reviewerId: null });
+    expect(JSON.parse(review.checks!)).toEqual([
+      { check: 'age', passed: true },
+      { check: 'ssn_format', passed: true },
+      { check: 'address', passed: true },
+      { check: 'duplicate_ssn', passed: true },
+    ]);
+  });
+
+  it('should hold accounts that fail a check and tell the user why they cannot fund them', async () => {
+    const { caller, account } = await openAccount({ ssn: '666123456', address: 'PO Box 12' });
+
+    expect(account.status).toBe('pending');
+    expect(account.statusReason).toMatch(/Social Security number.*street address/);
+    await expect(
+      caller.fundAccount({ accountId: account.id, amount: 50, fundingSource: createTestCardSource() })
+    ).rejects.toThrow(/waiting on identity verification: The Social Security number/);
+
+    expect(await queued(account.id)).toMatchObject([
+      {
+        accountId: account.id,
+        failedChecks: [
+          { check: 'ssn_format', passed: false },
+          { check: 'address', passed: false },
+        ],
+      },
+    ]);
+  });
+
+  it('should flag an SSN that is already on file for another user', async () => {
+    const userData = createTestUserData();
+    const { account: original } = await openAccount({ ssn: userData.ssn });
+    const { account } = await openAccount({ ssn: userData.ssn });
+
+    expect(original.status).toBe('active');
+    expect(account.status).toBe('pending');
+    expect((await queued(original.id, account.id)).map((item) => item.failedChecks)).toEqual([
+      [{ check: 'duplicate_ssn', passed: false, reason: expect.any(String) }],
+    ]);
+  });
+
+  it('should let an admin approve or reject pending accounts', async () => {
+    const { caller, account } = await openAccount({ ssn: '000123456' });
+    const { account: rejected } = await openAccount({ ssn: '123000456' });
+
+    await expect(adminCaller.approveAccount({ accountId: account.id })).resolves.toEqual({
+      id: account.id,
+      status: 'active',
+      statusReason: null,
+    });
+    await expect(
+      caller.fundAccount({ accountId: account.id, amount: 50, fundingSource: createTestCardSource() })
+    ).resolves.toMatchObject({ newBalance: 50 });
+
+    await adminCaller.rejectAccount({ accountId: rejected.id, reason: 'Identity documents did not match' });
+    const reviewed = await db
+      .select()
+      .from(kycReviews)
+      .where(eq(kycReviews.accountId, rejected.id))
+      .orderBy(desc(kycReviews.id))
+      .get();
+    expect(reviewed).toMatchObject({ status: 'rejected', reviewerId: adminId, reason: 'Identity documents did not match' });
+    await expect(adminCaller.approveAccount({ accountId: rejected.id })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(await queued(account.id, rejected.id)).toHaveLength(0);
+  });
+
+  it('should freeze and unfreeze active accounts', async () => {
+    const { caller, account } = await openAccount();
+
+    await adminCaller.freezeAccount({ accountId: account.id, reason: 'Suspicious activity' });
+    await expect(
+      caller.fundAccount({ accountId: account.id, amount: 50, fundingSource: createTestCardSource() })
+    ).rejects.toThrow('This account is frozen: Suspicious activity');
+    expect(await caller.getAccounts()).toMatchObject([{ status: 'frozen', statusReason: 'Suspicious activity' }]);
+
+    await adminCaller.approveAccount({ accountId: account.id });
+    expect(await caller.getAccounts()).toMatchObject([{ status: 'active', statusReason: null }]);
+  });
+
+  it('should only be available to admins', async () => {
+    const customerCaller = adminRouter.createCaller(await createAuthenticatedContext());
+
+    await expect(customerCaller.kycQueue()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(customerCaller.approveAccount({ accountId: 1 })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('admin - SSN Lookup', () => {
+  it('should find customers by SSN without exposing it', async () => {
+    const { token } = await authRouter.createCaller(await createTestContext()).signup(createTestUserData());
+    const admin = await createContextWithToken(token);
+    db.update(users).set({ role: 'admin' }).where(eq(users.id, admin.user!.id)).run();
+    const adminCaller = adminRouter.createCaller(await createContextWithToken(token));
+
+    const customerData = createTestUserData();
+    const customer = await createAuthenticatedContext(customerData);
+    const formatted = `${customerData.ssn.slice(0, 3)}-${customerData.ssn.slice(3, 5)}-${customerData.ssn.slice(5)}`;
+
+    const found = await adminCaller.findUsersBySsn({ ssn: formatted });
+    expect(found).toEqual([expect.objectContaining({ id: customer.user!.id, email: customerData.email })]);
+    expect(JSON.stringify(found)).not.toContain(customerData.ssn);
+    await expect(adminCaller.findUsersBySsn({ ssn: '1234' })).rejects.toThrow(/9 digits/);
+  });
+});
+
+describe('admin - Sign-in Lockouts', () => {
+  it('should let an admin unlock a locked-out customer', async () => {
+    const { token } = await authRouter.createCaller(await createTestContext()).signup(createTestUserData());
+    const admin = await createContextWithToken(token);
+    db.update(users).set({ role: 'admin' }).where(eq(users.id, admin.user!.id)).run();
+    const adminCaller = adminRouter.createCaller(await createContextWithToken(token));
+
+    const customerData = createTestUserData();
+    const { user } = await authRouter.createCaller(await createTestContext()).signup(customerData);
+    for (let i = 0; i < LOGIN_THROTTLE_POLICIES.account.lockAfter; i++) {
+      recordLoginFailure(db, { email: customerData.email, ipAddress: '198.51.100.7' });
+    }
+    const login = async () =>
+      authRouter.createCaller(await createTestContext()).login({ email: customerData.email, password: customerData.password });
+    await expect(login()).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+    expect(await adminCaller.unlockLogin({ userId: user.id })).toEqual({ unlocked: true });
+    expect((await login()).user?.id).toBe(user.id);
+    expect(await adminCaller.unlockLogin({ userId: user.id })).toEqual({ unlocked: false });
+    await expect(adminCaller.unlockLogin({ userId: 999_999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('admin - Fraud Review', () => {
+  let adminCaller: ReturnType<typeof adminRouter.createCaller>;
+
+  beforeEach(async () => {
+    const { user, token } = await authRouter.createCaller(await createTestContext()).signup(createTestUserData());
+    db.update(users).set({ role: 'admin' }).where(eq(users.id, user.id)).run();
+    adminCaller = adminRouter.createCaller(await createContextWithToken(token));
+  });
+
+  const holdCardDeposit = async () => {
+    const accountCaller = accountRouter.createCaller(await createAuthenticatedContext());
+    const account = await accountCaller.createAccount({ accountType: 'checking' });
+    const { transaction } = await accountCaller.fundAccount({
+      accountId: account.id,
+      amount: 3000,
+      fundingSource: createTestCardSource(),
+    });
+    expect(transaction.status).toBe('held');
+    return { accountCaller, transaction };
+  };
+
+  it('should list held deposits and capture the card authorization on approval', async () => {
+    const { accountCaller, transaction } = await holdCardDeposit();
+
+    const queued = (await adminCaller.fraudQueue()).find((item) => item.transactionId === transaction.id);
+    expect(queued).toMatchObject({ amount: 300000, channel: 'card', reasons: [expect.any(String)] });
+
+    expect(await adminCaller.approveHeldDeposit({ transactionId: transaction.id })).toMatchObject({ status: 'completed' });
+    expect((await accountCaller.getAccounts())[0].balance).toBe(3000);
+    await expect(adminCaller.approveHeldDeposit({ transactionId: transaction.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('should let only one of two reviewers acting at once settle a deposit', async () => {
+    const { accountCaller, transaction } = await holdCardDeposit();
+    const capture = vi.spyOn(getPaymentGateway(), 'capture');
+
+    try {
+      const results = await Promise.allSettled([
+        adminCaller.approveHeldDeposit({ transactionId: transaction.id }),
+        adminCaller.rejectHeldDeposit({ transactionId: transaction.id }),
+      ]);
+
+      expect(results[0]).toMatchObject({ status: 'fulfilled', value: { status: 'completed' } });
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: { code: 'NOT_FOUND' } });
+      expect(capture).toHaveBeenCalledTimes(1);
+      expect((await accountCaller.getAccounts())[0].balance).toBe(3000);
+    } finally {
+      capture.mockRestore();
+    }
+  });
+
+  it('should void the card authorization on rejection', async () => {
+    const { accountCaller, transaction } = await holdCardDeposit();
+
+    expect(await adminCaller.rejectHeldDeposit({ transactionId: transaction.id })).toMatchObject({ status: 'failed' });
+    expect((await accountCaller.getAccounts())[0].balance).toBe(0);
+    expect((await adminCaller.fraudQueue()).map((item) => item.transactionId)).not.toContain(transaction.id);
+  });
+
+  it('should only be available to admins', async () => {
+    const customerCaller = adminRouter.createCaller(await createAuthenticatedContext());
+
+    await expect(customerCaller.fraudQueue()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(customerCaller.approveHeldDeposit({ transactionId: 1 })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, router } from "../trpc";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { unlockLogin } from "@/lib/auth";
+import {
+  HeldDepositNotFoundError,
+  approveHeldDeposit,
+  listHeldDeposits,
+  rejectHeldDeposit,
+  type FraudRuleOutcome,
+} from "@/lib/fraud";
+import { PaymentGatewayTimeoutError, getPaymentGateway } from "@/lib/payments";
+import { KycAccountNotFoundError, KycTransitionError, findUsersBySsn, listKycQueue, setAccountStatus } from "@/lib/kyc";
+
+const reasonSchema = z.string().trim().min(1, "A reason is required").max(500);
+
+// Record a KYC decision, surfacing unknown accounts and impossible transitions as client errors.
+function decide(input: Parameters<typeof setAccountStatus>[1]) {
+  try {
+    const { id, status, statusReason } = setAccountStatus(db, input);
+    return { id, status, statusReason };
+  } catch (error) {
+    if (error instanceof KycAccountNotFoundError) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Account not found",
+      });
+    }
+    if (error instanceof KycTransitionError) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+// Approve or reject a held deposit. This has to run in the server process: the card authorizations the
+// review captures or voids live in its payment gateway.
+async function reviewHeldDeposit(review: typeof approveHeldDeposit, transactionId: number) {
+  try {
+    const { id, status, amount, channel } = await review(db, getPaymentGateway(), transactionId);
+    return { id, status, amount, channel };
+  } catch (error) {
+    if (error instanceof HeldDepositNotFoundError) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: error.message,
+      });
+    }
+    if (error instanceof PaymentGatewayTimeoutError) {
+      throw new TRPCError({
+        code: "GATEWAY_TIMEOUT",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+export const adminRouter = router({
+  // Accounts whose automated KYC checks failed, with the failing checks.
+  kycQueue: adminProcedure.query(() => {
+    return listKycQueue(db).map(({ account, user, checks }) => ({
+      accountId: account.id,
+      accountType: account.accountType,
+      openedAt: account.createdAt,
+      user,
+      failedChecks: checks.filter((check) => !check.passed),
+    }));
+  }),
+
+  approveAccount: adminProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      return decide({ accountId: input.accountId, status: "active", reviewerId: ctx.user.id });
+    }),
+
+  rejectAccount: adminProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        reason: reasonSchema,
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      return decide({ accountId: input.accountId, status: "rejected", reviewerId: ctx.user.id, reason: input.reason });
+    }),
+
+  freezeAccount: adminProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        reason: reasonSchema,
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      return decide({ accountId: input.accountId, status: "frozen", reviewerId: ctx.user.id, reason: input.reason });
+    }),
+
+  // Deposits the fraud rules held for review, oldest first, with the reasons they were held.
+  fraudQueue: adminProcedure.query(() => {
+    return listHeldDeposits(db).map(({ screening, transaction }) => ({
+      transactionId: transaction.id,
+      accountId: transaction.accountId,
+      amount: transaction.amount,
+      channel: transaction.channel,
+      heldAt: transaction.createdAt,
+      score: screening.score,
+      reasons: (JSON.parse(screening.results) as FraudRuleOutcome[]).map((outcome) => outcome.reason ?? outcome.rule),
+    }));
+  }),
+
+  approveHeldDeposit: adminProcedure
+    .input(
+      z.object({
+        transactionId: z.number(),
+      })
+    )
+    .mutation(({ input }) => {
+      return reviewHeldDeposit(approveHeldDeposit, input.transactionId);
+    }),
+
+  rejectHeldDeposit: adminProcedure
+    .input(
+      z.object({
+        transactionId: z.number(),
+      })
+    )
+    .mutation(({ input }) => {
+      return reviewHeldDeposit(rejectHeldDeposit, input.transactionId);
+    }),
+
+  // Support lookup by SSN; dashes and spaces are ignored.
+  findUsersBySsn: adminProcedure
+    .input(
+      z.object({
+        ssn: z
+          .string()
+          .transform((value) => value.replace(/[\s-]/g, ""))
+          .pipe(z.string().regex(/^\d{9}$/, "SSN must be 9 digits")),
+      })
+    )
+    .query(({ input }) => {
+      return findUsersBySsn(db, input.ssn);
+    }),
+
+  // Lifts a sign-in lockout for a customer who cannot use the emailed unlock link.
+  unlockLogin: adminProcedure
+    .input(
+      z.object({
+        userId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const user = await db.select({ email: users.email }).from(users).where(eq(users.id, input.userId)).get();
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      return { unlocked: unlockLogin(db, user.email) };
+    }),
+});
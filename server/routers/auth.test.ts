@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { authRouter } from './auth';
 import { 
   createTestContext, 
@@ -7,10 +7,15 @@ import {
   createAuthenticatedContext,
   getUserSessions,
   getTokenFromContext,
+  createContextWithToken,
 } from '../test-utils';
+import { accountRouter } from './account';
 import { db } from '@/lib/db';
-import { users, sessions } from '@/lib/db/schema';
+import { users, sessions, sanctionsMatches, kycReviews } from '@/lib/db/schema';
+import { resolveSanctionsReview } from '@/lib/sanctions';
 import { eq } from 'drizzle-orm';
+import { LOGIN_THROTTLE_POLICIES } from '@/lib/auth';
+import { OutboxMailer, getMailConfig } from '@/lib/mail';
 
 describe("auth.signup - Input Validation Issues (VAL-201, VAL-202, VAL-203, VAL-204, VAL-208)", () => {
   it("notifies users when their email is normalized to lowercase", async () => {
@@ -206,7 +211,7 @@ describe('auth.signup - SSN Security (SEC-301)', () => {
       .get();
 
     expect(storedUser?.ssn).not.toBe(plaintextSSN);
-    expect(storedUser?.ssn).toMatch(/^[a-f0-9]+:[a-f0-9]+:[a-f0-9]+$/i);
+    expect(storedUser?.ssn).toMatch(/^v2:[\w-]+:[a-f0-9]+:[a-f0-9]+:[a-f0-9]+$/i);
     expect(storedUser?.ssn.length).toBeGreaterThan(plaintextSSN.length);
   });
 
@@ -239,6 +244,24 @@ describe('auth.signup - SSN Security (SEC-301)', () => {
     expect(user.password).toBeUndefined();
     expect(user.email).toBe(testData.email);
   });
+
+  it("should not reveal that an SSN is on file, and hold the duplicate's accounts for KYC review", async () => {
+    const original = createTestUserData();
+    const first = await authRouter.createCaller(await createTestContext()).signup(original);
+    const duplicate = await authRouter
+      .createCaller(await createTestContext())
+      .signup(createTestUserData({ ssn: original.ssn }));
+
+    expect(Object.keys(duplicate.user).sort()).toEqual(Object.keys(first.user).sort());
+    expect(duplicate.user.status).toBe(first.user.status);
+
+    const account = await accountRouter
+      .createCaller(await createContextWithToken(duplicate.token))
+      .createAccount({ accountType: 'checking' });
+    expect(account.status).toBe('pending');
+    const [review] = await db.select().from(kycReviews).where(eq(kycReviews.accountId, account.id)).all();
+    expect(JSON.parse(review.checks!)).toContainEqual(expect.objectContaining({ check: 'duplicate_ssn', passed: false }));
+  });
 });
 
 describe("auth.logout - Logout Issues (PERF-402)", () => {
@@ -388,3 +411,331 @@ describe("auth.login - Prevent duplicate sessions when user has active session (
 });
 
 
+
+describe("auth.signup - Sanctions Screening", () => {
+  it("holds signups that match the SDN list for review and blocks account creation", async () => {
+    const ctx = await createTestContext();
+    const result = await authRouter.createCaller(ctx).signup(
+      createTestUserData({ firstName: "Dmitriy", lastName: "Kovalenko", dateOfBirth: "1968-03-12" })
+    );
+
+    expect(result.user.status).toBe("pending_review");
+    const matches = await db.select().from(sanctionsMatches).where(eq(sanctionsMatches.userId, result.user.id)).all();
+    expect(matches).toMatchObject([{ listEntryUid: "9001", matchedName: "KOVALENKO, Dmitri Ivanovich", status: "pending" }]);
+
+    const accountCaller = accountRouter.createCaller(await createContextWithToken(result.token));
+    await expect(accountCaller.createAccount({ accountType: "checking" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: expect.stringMatching(/under review/),
+    });
+
+    resolveSanctionsReview(db, result.user.id, "cleared");
+    const clearedCaller = accountRouter.createCaller(await createContextWithToken(result.token));
+    await expect(clearedCaller.createAccount({ accountType: "checking" })).resolves.toMatchObject({ status: "active" });
+  });
+
+  it("lets a namesake with a different date of birth through", async () => {
+    const ctx = await createTestContext();
+    const result = await authRouter.createCaller(ctx).signup(
+      createTestUserData({ firstName: "Dmitri", lastName: "Kovalenko", dateOfBirth: "1990-03-12" })
+    );
+
+    expect(result.user.status).toBe("active");
+  });
+
+  it("refuses signups when the SDN list cannot be read", async () => {
+    const listPath = process.env.OFAC_SDN_PATH;
+    process.env.OFAC_SDN_PATH = "tests/fixtures/missing.csv";
+    const userData = createTestUserData();
+
+    try {
+      await expect(authRouter.createCaller(await createTestContext()).signup(userData)).rejects.toMatchObject({
+        code: "INTERNAL_SERVER_ERROR",
+      });
+    } finally {
+      process.env.OFAC_SDN_PATH = listPath;
+    }
+    expect(await db.select().from(users).where(eq(users.email, userData.email)).get()).toBeUndefined();
+  });
+});
+
+describe("auth - Session Management", () => {
+  // Signs in from a device with the given user agent and IP, returning that device's caller.
+  const signInFrom = async (userData: ReturnType<typeof createTestUserData>, userAgent: string, ip: string) => {
+    const ctx = await createTestContext({
+      req: { headers: { cookie: '', 'user-agent': userAgent }, socket: { remoteAddress: ip } },
+    } as any);
+    const { token } = await authRouter.createCaller(ctx).login({ email: userData.email, password: userData.password });
+    return { token: token!, caller: authRouter.createCaller(await createContextWithToken(token!)) };
+  };
+
+  it("should list the user's sessions with device details and the current one flagged", async () => {
+    const userData = createTestUserData();
+    await authRouter.createCaller(await createTestContext()).signup(userData);
+    await signInFrom(userData, 'Mozilla/5.0 (iPhone) Safari/604.1', '203.0.113.5');
+    const laptop = await signInFrom(userData, 'Mozilla/5.0 (Macintosh) Chrome/120.0', '198.51.100.7');
+
+    const list = await laptop.caller.listSessions();
+
+    expect(list).toHaveLength(3);
+    expect(list.filter((session) => session.current)).toEqual([
+      expect.objectContaining({ userAgent: 'Mozilla/5.0 (Macintosh) Chrome/120.0', ipAddress: '198.51.100.7' }),
+    ]);
+    expect(list).toContainEqual(
+      expect.objectContaining({ current: false, userAgent: 'Mozilla/5.0 (iPhone) Safari/604.1', ipAddress: '203.0.113.5' })
+    );
+    list.forEach((session) => {
+      expect(session.createdAt).toBeTruthy();
+      expect(session.lastSeenAt).toBeTruthy();
+      expect(session).not.toHaveProperty('token');
+    });
+  });
+
+  it("should sign out another device and leave the current session alone", async () => {
+    const userData = createTestUserData();
+    await authRouter.createCaller(await createTestContext()).signup(userData);
+    const phone = await signInFrom(userData, 'phone', '203.0.113.5');
+    const laptop = await signInFrom(userData, 'laptop', '198.51.100.7');
+
+    const phoneSession = (await laptop.caller.listSessions()).find((session) => session.userAgent === 'phone')!;
+    await laptop.caller.revokeSession({ id: phoneSession.id });
+
+    expect((await createContextWithToken(phone.token)).user).toBeNull();
+    expect((await createContextWithToken(laptop.token)).user).not.toBeNull();
+    await expect(laptop.caller.revokeSession({ id: phoneSession.id })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const current = (await laptop.caller.listSessions()).find((session) => session.current)!;
+    await expect(laptop.caller.revokeSession({ id: current.id })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it("should not let users sign out other users' sessions", async () => {
+    const victim = createTestUserData();
+    await authRouter.createCaller(await createTestContext()).signup(victim);
+    const victimDevice = await signInFrom(victim, 'phone', '203.0.113.5');
+    const victimSessionId = (await victimDevice.caller.listSessions()).find((session) => session.current)!.id;
+
+    const attacker = authRouter.createCaller(await createAuthenticatedContext());
+    await expect(attacker.revokeSession({ id: victimSessionId })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect((await createContextWithToken(victimDevice.token)).user).not.toBeNull();
+  });
+
+  it("should sign out every other session", async () => {
+    const userData = createTestUserData();
+    const { user } = await authRouter.createCaller(await createTestContext()).signup(userData);
+    const phone = await signInFrom(userData, 'phone', '203.0.113.5');
+    const laptop = await signInFrom(userData, 'laptop', '198.51.100.7');
+
+    expect(await laptop.caller.revokeAllOtherSessions()).toEqual({ revoked: 2 });
+
+    const remaining = await getUserSessions(user.id);
+    expect(remaining.map((session) => session.token)).toEqual([laptop.token]);
+    expect((await createContextWithToken(phone.token)).user).toBeNull();
+  });
+
+  it("should require a session", async () => {
+    const caller = authRouter.createCaller(await createTestContext());
+
+    await expect(caller.listSessions()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(caller.revokeAllOtherSessions()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
+
+describe("auth.login - Brute-force Protection", () => {
+  const { account } = LOGIN_THROTTLE_POLICIES;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const signUp = async () => {
+    const userData = createTestUserData();
+    const { user } = await authRouter.createCaller(await createTestContext()).signup(userData);
+    return { userData, userId: user.id };
+  };
+
+  const attemptLogin = async (email: string, password: string) =>
+    authRouter.createCaller(await createTestContext()).login({ email, password });
+
+  // Fails `times` sign-ins in a row, waiting out each backoff in between.
+  const failLogins = async (email: string, times: number) => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (let i = 0; i < times; i++) {
+      vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+      await expect(attemptLogin(email, 'WrongPassword1!')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+  };
+
+  const unlockLinkFor = (email: string) => {
+    const messages = new OutboxMailer(getMailConfig().outboxDir, '').readMessages(email);
+    return messages.at(-1)?.text.match(/\/unlock-account\?token=(\S+)/)?.[1];
+  };
+
+  it("should answer unknown emails exactly like wrong passwords", async () => {
+    const { userData } = await signUp();
+
+    const wrongPassword = await attemptLogin(userData.email, 'WrongPassword1!').catch((error) => error);
+    const unknownEmail = await attemptLogin(`nobody-${crypto.randomUUID()}@example.com`, 'WrongPassword1!').catch(
+      (error) => error
+    );
+
+    expect(wrongPassword).toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid credentials' });
+    expect(unknownEmail).toMatchObject({ code: wrongPassword.code, message: wrongPassword.message });
+  });
+
+  it("should slow down repeated failures for an account, known or not", async () => {
+    for (const email of [(await signUp()).userData.email, `nobody-${crypto.randomUUID()}@example.com`]) {
+      for (let i = 0; i < account.freeAttempts; i++) {
+        await expect(attemptLogin(email, 'WrongPassword1!')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      }
+      await expect(attemptLogin(email, 'WrongPassword1!')).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        message: expect.stringContaining('Too many failed sign-in attempts'),
+      });
+    }
+  });
+
+  it("should lock the account, refuse the right password and email an unlock link", async () => {
+    const { userData } = await signUp();
+
+    await failLogins(userData.email, account.lockAfter);
+
+    await expect(attemptLogin(userData.email, userData.password)).rejects.toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+      message: expect.stringContaining('unlock link'),
+    });
+    // The email is sent in the background, so wait for it to land in the outbox.
+    const token = await vi.waitFor(() => {
+      const link = unlockLinkFor(userData.email);
+      if (!link) throw new Error(`No unlock email for ${userData.email}`);
+      return link;
+    });
+
+    const caller = authRouter.createCaller(await createTestContext());
+    expect(await caller.unlockAccount({ token: token! })).toEqual({ success: true });
+    await expect(caller.unlockAccount({ token: token! })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    const result = await attemptLogin(userData.email, userData.password);
+    expect(result.user?.email).toBe(userData.email);
+  });
+
+  it("should not email anyone when an unknown address is locked", async () => {
+    const email = `nobody-${crypto.randomUUID()}@example.com`;
+
+    await failLogins(email, account.lockAfter);
+
+    await expect(attemptLogin(email, 'WrongPassword1!')).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    expect(unlockLinkFor(email)).toBeUndefined();
+  });
+
+  it("should not lock everybody out when requests come without a client IP", async () => {
+    // The fetch adapter has no socket, so without trusted proxies the client IP is unknown.
+    const withoutSocket = async () =>
+      authRouter.createCaller(await createTestContext({ req: { headers: { cookie: '' }, socket: undefined } } as any));
+
+    for (let i = 0; i < LOGIN_THROTTLE_POLICIES.ip.freeAttempts; i++) {
+      await expect(
+        (await withoutSocket()).login({ email: `nobody-${crypto.randomUUID()}@example.com`, password: 'WrongPassword1!' })
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+
+    const { userData } = await signUp();
+    expect((await (await withoutSocket()).login({ email: userData.email, password: userData.password })).user?.email).toBe(
+      userData.email
+    );
+  });
+
+  it("should throttle an IP guessing across accounts, whatever it puts in X-Forwarded-For", async () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    const ip = `198.51.100.${crypto.randomInt(1, 255)}`;
+    // The proxy appends the address it saw; everything before it is up to the client.
+    const fromIp = async () =>
+      authRouter.createCaller(
+        await createTestContext({
+          req: { headers: { cookie: '', 'x-forwarded-for': `203.0.113.${crypto.randomInt(1, 255)}, ${ip}` } },
+        } as any)
+      );
+
+    try {
+      for (let i = 0; i < LOGIN_THROTTLE_POLICIES.ip.freeAttempts; i++) {
+        await expect(
+          (await fromIp()).login({ email: `nobody-${crypto.randomUUID()}@example.com`, password: 'WrongPassword1!' })
+        ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      }
+
+      const { userData } = await signUp();
+      await expect((await fromIp()).login({ email: userData.email, password: userData.password })).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+      });
+      expect((await attemptLogin(userData.email, userData.password)).user?.email).toBe(userData.email);
+    } finally {
+      delete process.env.TRUSTED_PROXY_COUNT;
+    }
+  });
+});
+
+describe("auth - Password Reset", () => {
+  const requestReset = async (email: string) =>
+    authRouter.createCaller(await createTestContext()).requestPasswordReset({ email });
+
+  // The email is sent in the background, so wait for it to land in the outbox.
+  const resetLinkFor = async (email: string) =>
+    vi.waitFor(() => {
+      const messages = new OutboxMailer(getMailConfig().outboxDir, '').readMessages(email);
+      const token = messages
+        .filter((message) => message.subject === 'Reset your SecureBank password')
+        .at(-1)
+        ?.text.match(/\/reset-password\?token=(\S+)/)?.[1];
+      if (!token) throw new Error(`No reset email for ${email}`);
+      return decodeURIComponent(token);
+    });
+
+  it("should respond the same way whether or not the email has an account", async () => {
+    const userData = createTestUserData();
+    await authRouter.createCaller(await createTestContext()).signup(userData);
+    const unknown = `nobody-${crypto.randomUUID()}@example.com`;
+
+    expect(await requestReset(unknown)).toEqual(await requestReset(userData.email));
+    await resetLinkFor(userData.email);
+    expect(new OutboxMailer(getMailConfig().outboxDir, '').readMessages(unknown)).toEqual([]);
+  });
+
+  it("should set a new password with the emailed link and sign out every device", async () => {
+    const userData = createTestUserData();
+    const { user, token: sessionToken } = await authRouter.createCaller(await createTestContext()).signup(userData);
+
+    await requestReset(userData.email.toUpperCase());
+    const token = await resetLinkFor(userData.email);
+    const caller = authRouter.createCaller(await createTestContext());
+    expect(await caller.resetPassword({ token, password: 'BrandNew456$' })).toEqual({ success: true });
+
+    expect(await getUserSessions(user.id)).toEqual([]);
+    expect((await createContextWithToken(sessionToken)).user).toBeNull();
+    await expect(
+      authRouter.createCaller(await createTestContext()).login({ email: userData.email, password: userData.password })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    const result = await authRouter
+      .createCaller(await createTestContext())
+      .login({ email: userData.email, password: 'BrandNew456$' });
+    expect(result.user?.id).toBe(user.id);
+
+    await expect(caller.resetPassword({ token, password: 'Another789%' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'This password reset link is invalid or has expired',
+    });
+  });
+
+  it("should hold new passwords to the signup rules", async () => {
+    const userData = createTestUserData();
+    await authRouter.createCaller(await createTestContext()).signup(userData);
+    await requestReset(userData.email);
+    const token = await resetLinkFor(userData.email);
+    const caller = authRouter.createCaller(await createTestContext());
+
+    await expect(caller.resetPassword({ token, password: 'alllowercase1!' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: expect.stringContaining('uppercase'),
+    });
+    // The token survives a rejected password.
+    expect(await caller.resetPassword({ token, password: 'BrandNew456$' })).toEqual({ success: true });
+  });
+});
@@ -1,16 +1,40 @@
-import crypto from "crypto";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { publicProcedure, router } from "../trpc";
+import { protectedProcedure, publicProcedure, router, type Context } from "../trpc";
 import { db } from "@/lib/db";
-import { users, sessions } from "@/lib/db/schema";
+import { users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { encryptSSN } from "@/lib/encryption";
-import { getSessionTokenFromContext } from "../utils/session-token";
+import { encryptSSN, ssnBlindIndex } from "@/lib/encryption";
+import {
+  LoginChallengeInvalidError,
+  PasswordResetTokenInvalidError,
+  SessionNotFoundError,
+  TwoFactorNotEnabledError,
+  buildPasswordChangedEmail,
+  buildPasswordResetEmail,
+  createLoginChallenge,
+  createPasswordResetToken,
+  createSession,
+  endSession,
+  isTwoFactorEnabled,
+  listActiveSessions,
+  recordLoginSuccess,
+  redeemLoginChallenge,
+  resetPasswordWithToken,
+  revokeOtherSessions,
+  revokeSession,
+  unlockWithToken,
+  type LoginChallengeResult,
+} from "@/lib/auth";
+import { SanctionsListUnavailableError, recordSanctionsMatches, screenPerson } from "@/lib/sanctions";
+import { sendEmail } from "../utils/account-email";
+import { getClientInfo } from "../utils/request-info";
+import { clearSessionCookies, setSessionCookies } from "../utils/session-cookies";
+import { assertNotThrottled, recordFailedSignIn } from "../utils/sign-in-throttle";
 import {
   emailValidationSchema,
+  passwordFieldSchema,
   signupInputSchema,
   validateEmailField,
 } from "@/lib/validation/signup";
@@ -63,24 +87,33 @@ export const authRouter = router({
         });
       }
 
+      // Screen against the OFAC SDN list. Possible matches still get a user, but one held in
+      // pending_review (no accounts can be opened) until compliance clears them.
+      const sanctionsHits = screenSignup(input);
+
       const hashedPassword = await bcrypt.hash(input.password, 10);
       // Encrypt the SSN before storing it so it is not kept in plain text in the database.
       const encryptedSSN = encryptSSN(input.ssn);
 
-      await db.insert(users).values({
-        ...input,
-        email: normalizedEmail,
-        ssn: encryptedSSN,
-        password: hashedPassword,
+      const user = db.transaction((tx) => {
+        const created = tx
+          .insert(users)
+          .values({
+            ...input,
+            email: normalizedEmail,
+            ssn: encryptedSSN,
+            // Lets KYC flag an SSN that is already on file without decrypting every user. Such signups are
+            // not refused, which would tell anyone whether an SSN is on file; their accounts wait for review.
+            ssnIndex: ssnBlindIndex(input.ssn),
+            password: hashedPassword,
+            status: sanctionsHits.length > 0 ? "pending_review" : "active",
+          })
+          .returning()
+          .get();
+        recordSanctionsMatches(tx, created.id, sanctionsHits);
+        return created;
       });
 
-      // Fetch the created user
-      const user = await db
-        .select()
-        .from(users)
-        .where(eq(users.email, normalizedEmail))
-        .get();
-
       if (!user) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -88,30 +121,8 @@ export const authRouter = router({
         });
       }
 
-      // Create session
-      const token = createSessionToken(user.id);
-
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-
-      await db.insert(sessions).values({
-        userId: user.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      });
+      const token = startSession(ctx, user.id);
 
-      // Set cookie
-      if ("setHeader" in ctx.res) {
-        ctx.res.setHeader(
-          "Set-Cookie",
-          `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`
-        );
-      } else {
-        (ctx.res as Headers).set(
-          "Set-Cookie",
-          `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`
-        );
-      }
       const response: {
         user: ReturnType<typeof sanitizeUser>;
         token: string;
@@ -143,6 +154,9 @@ export const authRouter = router({
           message: "Cannot login while already logged in. Please logout first.",
         });
       }
+      const attempt = { email: input.email, ipAddress: getClientInfo(ctx).ipAddress };
+      assertNotThrottled(attempt);
+
       // Check if user exists
       const user = await db
         .select()
@@ -150,45 +164,86 @@ export const authRouter = router({
         .where(eq(users.email, input.email))
         .get();
 
-      if (!user) {
+      // Unknown emails still cost a bcrypt comparison, so response times do not reveal which emails exist.
+      const validPassword = await bcrypt.compare(input.password, user?.password ?? UNKNOWN_USER_PASSWORD_HASH);
+
+      if (!user || !validPassword) {
+        recordFailedSignIn(attempt, user);
         throw new TRPCError({
           code: "UNAUTHORIZED",
           message: "Invalid credentials",
         });
       }
 
-      const validPassword = await bcrypt.compare(input.password, user.password);
+      // With 2FA on, the password only earns a short-lived challenge; the session is created by
+      // verifyLoginCode once the code checks out.
+      if (isTwoFactorEnabled(db, user.id)) {
+        const challenge = createLoginChallenge(db, user.id);
+        return {
+          twoFactorRequired: true as const,
+          challengeToken: challenge.token,
+          expiresAt: challenge.expiresAt,
+        };
+      }
 
-      if (!validPassword) {
+      recordLoginSuccess(db, user.email);
+      const token = startSession(ctx, user.id);
+      return { user: sanitizeUser(user), token };
+    }),
+
+  // Second login step for users with 2FA: exchange the challenge from login and a code for a session.
+  verifyLoginCode: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().trim().min(1, "Enter the code from your authenticator app or a recovery code"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.user) {
         throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid credentials",
+          code: "FORBIDDEN",
+          message: "Cannot login while already logged in. Please logout first.",
         });
       }
 
-      // Create a new session token for this user and persist it with an expiry.
-      const token = createSessionToken(user.id);
-
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+      let result: LoginChallengeResult;
+      try {
+        result = redeemLoginChallenge(db, input.challengeToken, input.code);
+      } catch (error) {
+        if (error instanceof LoginChallengeInvalidError || error instanceof TwoFactorNotEnabledError) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: new LoginChallengeInvalidError().message, cause: error });
+        }
+        throw error;
+      }
 
-      await db.insert(sessions).values({
-        userId: user.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      });
+      // A wrong code can be retried with the same challenge (BAD_REQUEST) until the attempts run out,
+      // after which the user has to start over with their password (UNAUTHORIZED).
+      if (!result.verified) {
+        // Wrong codes count against the account like wrong passwords, so the code cannot be guessed by
+        // starting over with a fresh challenge.
+        const owner = await db.select().from(users).where(eq(users.id, result.userId)).get();
+        if (owner) {
+          recordFailedSignIn({ email: owner.email, ipAddress: getClientInfo(ctx).ipAddress }, owner);
+        }
+        throw result.attemptsRemaining > 0
+          ? new TRPCError({
+              code: "BAD_REQUEST",
+              message: `Invalid authentication code. ${result.attemptsRemaining} attempt(s) remaining.`,
+            })
+          : new TRPCError({
+              code: "UNAUTHORIZED",
+              message: "Too many invalid codes. Please sign in again.",
+            });
+      }
 
-      if ("setHeader" in ctx.res) {
-        ctx.res.setHeader(
-          "Set-Cookie",
-          `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`
-        );
-      } else {
-        (ctx.res as Headers).set(
-          "Set-Cookie",
-          `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`
-        );
+      const user = await db.select().from(users).where(eq(users.id, result.userId)).get();
+      if (!user) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid credentials" });
       }
+
+      recordLoginSuccess(db, user.email);
+      const token = startSession(ctx, user.id);
       return { user: sanitizeUser(user), token };
     }),
   // Get the current authenticated user.
@@ -197,28 +252,126 @@ export const authRouter = router({
     return ctx.user ? sanitizeUser(ctx.user) : null;
   }),
 
+  // Lifts a sign-in lockout with the token from the unlock email.
+  unlockAccount: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+      })
+    )
+    .mutation(({ input }) => {
+      if (!unlockWithToken(db, input.token)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This unlock link is invalid or has expired",
+        });
+      }
+      return { success: true };
+    }),
+
+  // Emails a link for choosing a new password. The response is the same whether or not the email has an
+  // account, so it cannot be used to find out who banks here.
+  requestPasswordReset: publicProcedure
+    .input(
+      z.object({
+        email: z.string().trim().toLowerCase().email(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const user = await db.select().from(users).where(eq(users.email, input.email)).get();
+      const reset = user ? createPasswordResetToken(db, user.id) : null;
+      if (user && reset) {
+        // Not awaited, so the response takes as long for unknown emails as for real ones.
+        void sendEmail(buildPasswordResetEmail(user.email, reset.token));
+      }
+
+      return {
+        success: true,
+        message: "If an account exists for that email, we have sent it a link to reset the password.",
+      };
+    }),
+
+  // Sets a new password with the token from the reset email and signs out every device.
+  resetPassword: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        password: passwordFieldSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const passwordHash = await bcrypt.hash(input.password, 10);
+
+      let user: typeof users.$inferSelect;
+      try {
+        user = resetPasswordWithToken(db, input.token, passwordHash);
+      } catch (error) {
+        if (error instanceof PasswordResetTokenInvalidError) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message,
+            cause: error,
+          });
+        }
+        throw error;
+      }
+
+      // The session of this request (if any) was revoked along with the others.
+      clearSessionCookies(ctx.res);
+      void sendEmail(buildPasswordChangedEmail(user.email));
+
+      return { success: true };
+    }),
+
+  // The user's signed-in devices, so they can spot one they do not recognise.
+  listSessions: protectedProcedure.query(({ ctx }) => {
+    return listActiveSessions(db, ctx.user.id).map((session) => ({
+      ...session,
+      current: session.id === ctx.sessionId,
+    }));
+  }),
+
+  // Remote sign-out of another device. The current session is ended with logout instead.
+  revokeSession: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      if (input.id === ctx.sessionId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Use sign out to end the current session",
+        });
+      }
+
+      try {
+        revokeSession(db, ctx.user.id, input.id);
+      } catch (error) {
+        if (error instanceof SessionNotFoundError) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+      return { success: true };
+    }),
+
+  revokeAllOtherSessions: protectedProcedure.mutation(({ ctx }) => {
+    return { revoked: revokeOtherSessions(db, ctx.user.id, ctx.sessionId) };
+  }),
+
   // Log the user out by deleting the current session and clearing the cookie.
   logout: publicProcedure.mutation(async ({ ctx }) => {
-    if (ctx.user) {
-      // Delete session from database using shared token extraction
-      const token = getSessionTokenFromContext(ctx);
-      
-      if (token) {
-        await db.delete(sessions).where(eq(sessions.token, token));
-      }
+    // The session comes from the context rather than the cookie: the request may have renewed it.
+    if (ctx.user && ctx.sessionId !== null) {
+      endSession(db, ctx.sessionId);
     }
 
-    if ("setHeader" in ctx.res) {
-      ctx.res.setHeader(
-        "Set-Cookie",
-        `session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`
-      );
-    } else {
-      (ctx.res as Headers).set(
-        "Set-Cookie",
-        `session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`
-      );
-    }
+    clearSessionCookies(ctx.res);
 
     return {
       success: true,
@@ -227,18 +380,34 @@ export const authRouter = router({
   }),
 });
 
+// Signups fail closed: without a readable sanctions list nobody can be screened, so nobody is let in.
+function screenSignup(person: { firstName: string; lastName: string; dateOfBirth: string }) {
+  try {
+    return screenPerson(person);
+  } catch (error) {
+    if (error instanceof SanctionsListUnavailableError) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Signup is temporarily unavailable. Please try again later.",
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
 function sanitizeUser(user: typeof users.$inferSelect) {
   // 11/27/25: strip sensitive fields from responses (SEC-301).
-  const { password, ssn, ...rest } = user;
+  const { password, ssn, ssnIndex, ...rest } = user;
   return rest;
 }
 
-function createSessionToken(userId: number) {
-  return jwt.sign(
-    { userId, sessionId: crypto.randomUUID() },
-    process.env.JWT_SECRET || "temporary-secret-for-interview",
-    {
-      expiresIn: "7d",
-    }
-  );
+// Compared against when the email is unknown; no password matches it.
+const UNKNOWN_USER_PASSWORD_HASH = "$2b$10$V8gZMW0bXADWV3a53th8b.DgVuwTJzIdAxPU6cEw98zfuJ9.Rl2V6";
+
+// Starts a session for the user and sends its tokens as cookies.
+function startSession(ctx: Context, userId: number) {
+  const session = createSession(db, userId, getClientInfo(ctx));
+  setSessionCookies(ctx.res, session);
+  return session.accessToken;
 }
@@ -1,10 +1,16 @@
 import { router } from "../trpc";
 import { authRouter } from "./auth";
 import { accountRouter } from "./account";
+import { paymentMethodsRouter } from "./payment-methods";
+import { adminRouter } from "./admin";
+import { twoFactorRouter } from "./two-factor";
 
 export const appRouter = router({
   auth: authRouter,
   account: accountRouter,
+  paymentMethods: paymentMethodsRouter,
+  admin: adminRouter,
+  twoFactor: twoFactorRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { paymentMethodsRouter } from './payment-methods';
+import { createAuthenticatedContext, createTestCardSource } from '../test-utils';
+import { db } from '@/lib/db';
+import { achEntries, bankVerifications, fundingSources, postings } from '@/lib/db/schema';
+import { MAX_FAILED_VERIFICATIONS } from '@/lib/ach/verification';
+
+const bankSource = { type: 'bank' as const, accountNumber: '000123456789', routingNumber: '021000021' };
+
+describe('paymentMethods', () => {
+  let caller: ReturnType<typeof paymentMethodsRouter.createCaller>;
+
+  beforeEach(async () => {
+    caller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  it('should save cards and bank accounts with masked details only', async () => {
+    const cardSource = createTestCardSource();
+    const card = await caller.add({ fundingSource: cardSource });
+    const bank = await caller.add({ fundingSource: bankSource, nickname: 'Payroll account' });
+
+    expect(card).toMatchObject({ type: 'card', nickname: 'Visa •••• 1111', brand: 'Visa', last4: '1111', isDefault: true });
+    expect(bank).toMatchObject({ type: 'bank', nickname: 'Payroll account', bankName: 'Chase Bank, N.A.', isDefault: false });
+    expect(JSON.stringify(await caller.list())).not.toMatch(new RegExp(`${cardSource.accountNumber}|000123456789|tok_`));
+
+    const [stored] = await db.select().from(fundingSources).where(eq(fundingSources.id, bank.id)).all();
+    expect(stored.accountNumber).not.toContain('000123456789');
+  });
+
+  it('should validate details before saving', async () => {
+    await expect(caller.add({ fundingSource: createTestCardSource({ cvv: '12' }) })).rejects.toThrow(/CVV/);
+    await expect(
+      caller.add({ fundingSource: { ...bankSource, routingNumber: '123456789' } })
+    ).rejects.toThrow(/routing number/i);
+
+    expect(await caller.list()).toHaveLength(0);
+  });
+
+  it('should refuse to save the same source twice', async () => {
+    await caller.add({ fundingSource: bankSource });
+
+    await expect(caller.add({ fundingSource: bankSource })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should rename, set default and delete sources', async () => {
+    const card = await caller.add({ fundingSource: createTestCardSource() });
+    const bank = await caller.add({ fundingSource: bankSource });
+
+    await caller.rename({ id: card.id, nickname: 'Travel card' });
+    await caller.setDefault({ id: bank.id });
+    expect(await caller.list()).toMatchObject([
+      { id: bank.id, isDefault: true },
+      { id: card.id, nickname: 'Travel card', isDefault: false },
+    ]);
+
+    await caller.delete({ id: bank.id });
+    expect(await caller.list()).toMatchObject([{ id: card.id, isDefault: true }]);
+  });
+
+  it("should not expose another user's sources", async () => {
+    const otherCaller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+    const source = await otherCaller.add({ fundingSource: bankSource });
+
+    expect(await caller.list()).toHaveLength(0);
+    await expect(caller.rename({ id: source.id, nickname: 'Mine now' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.delete({ id: source.id })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('paymentMethods - Bank Account Verification', () => {
+  let caller: ReturnType<typeof paymentMethodsRouter.createCaller>;
+
+  beforeEach(async () => {
+    caller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+  });
+
+  const microDepositAmounts = async (verificationId: number) => {
+    const verification = await db.select().from(bankVerifications).where(eq(bankVerifications.id, verificationId)).get();
+    return [verification!.firstAmount / 100, verification!.secondAmount / 100] as [number, number];
+  };
+
+  it('should send two micro-deposits without revealing their amounts', async () => {
+    const verification = await caller.startBankVerification(bankSource);
+
+    expect(verification).toEqual({
+      id: verification.id,
+      routingNumber: '021000021',
+      last4: '6789',
+      status: 'pending',
+      attemptsRemaining: 3,
+    });
+    const entries = await db.select().from(achEntries).where(eq(achEntries.bankVerificationId, verification.id)).all();
+    expect(entries).toHaveLength(2);
+    entries.forEach((entry) => {
+      expect(entry).toMatchObject({ direction: 'credit', transactionId: null, routingNumber: '021000021' });
+      expect(entry.amount).toBeGreaterThanOrEqual(1);
+      expect(entry.amount).toBeLessThanOrEqual(99);
+    });
+
+    const { journalEntryId } = (await db.select().from(bankVerifications).where(eq(bankVerifications.id, verification.id)).get())!;
+    const posted = await db.select().from(postings).where(eq(postings.journalEntryId, journalEntryId!)).all();
+    const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    expect(posted).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ systemAccount: 'verification_expense', amount: -total }),
+        expect.objectContaining({ systemAccount: 'ach_clearing', amount: total }),
+      ])
+    );
+
+    // Asking again while the deposits are outstanding does not send more.
+    expect((await caller.startBankVerification(bankSource)).id).toBe(verification.id);
+  });
+
+  it('should verify the account when the amounts match in either order', async () => {
+    const source = await caller.add({ fundingSource: bankSource });
+    const verification = await caller.startBankVerification(bankSource);
+    const [first, second] = await microDepositAmounts(verification.id);
+
+    await expect(
+      caller.verifyBankAccount({ verificationId: verification.id, amounts: [second, first] })
+    ).resolves.toMatchObject({ status: 'verified' });
+    expect(await caller.list()).toMatchObject([{ id: source.id, isVerified: true }]);
+    await expect(caller.startBankVerification(bankSource)).rejects.toThrow(/already verified/);
+  });
+
+  it('should fail the verification after too many wrong guesses', async () => {
+    const verification = await caller.startBankVerification(bankSource);
+    const [first, second] = await microDepositAmounts(verification.id);
+    const wrong: [number, number] = [first, second === 0.99 ? 0.98 : second + 0.01];
+
+    await expect(caller.verifyBankAccount({ verificationId: verification.id, amounts: wrong })).rejects.toThrow(/2 attempt/);
+    await expect(caller.verifyBankAccount({ verificationId: verification.id, amounts: wrong })).rejects.toThrow(/1 attempt/);
+    await expect(caller.verifyBankAccount({ verificationId: verification.id, amounts: wrong })).rejects.toThrow(/Too many/);
+    await expect(
+      caller.verifyBankAccount({ verificationId: verification.id, amounts: [first, second] })
+    ).rejects.toThrow(/Too many/);
+
+    const retry = await caller.startBankVerification(bankSource);
+    expect(retry.id).not.toBe(verification.id);
+  });
+
+  it('should stop sending a user micro-deposits to an account after repeated failed verifications', async () => {
+    const guessedSource = { accountNumber: '000987654321', routingNumber: '021000021' };
+    for (let round = 0; round < MAX_FAILED_VERIFICATIONS; round++) {
+      const verification = await caller.startBankVerification(guessedSource);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await caller.verifyBankAccount({ verificationId: verification.id, amounts: [0.01, 0.01] }).catch(() => undefined);
+      }
+    }
+
+    await expect(caller.startBankVerification(guessedSource)).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: expect.stringMatching(/contact support/),
+    });
+    // The account's owner is not locked out by someone else's failures.
+    const otherCaller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+    await expect(otherCaller.startBankVerification(guessedSource)).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it("should not accept guesses for another user's verification", async () => {
+    const otherCaller = paymentMethodsRouter.createCaller(await createAuthenticatedContext());
+    const verification = await otherCaller.startBankVerification(bankSource);
+
+    await expect(
+      caller.verifyBankAccount({ verificationId: verification.id, amounts: [0.01, 0.02] })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
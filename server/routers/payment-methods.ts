@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import {
+  DuplicateFundingSourceError,
+  FundingSourceNotFoundError,
+  deleteFundingSource,
+  getVaultedCard,
+  listFundingSources,
+  renameFundingSource,
+  saveBankAccount,
+  saveCard,
+  setDefaultFundingSource,
+  type FundingSourceRecord,
+} from "@/lib/payments";
+import {
+  BankVerificationClosedError,
+  BankVerificationLimitError,
+  BankVerificationNotFoundError,
+  MAX_VERIFICATION_ATTEMPTS,
+  confirmBankVerification,
+  isBankAccountVerified,
+  startBankVerification,
+  type BankVerificationRecord,
+} from "@/lib/ach/verification";
+import { lookupBankName } from "@/lib/validation/payment";
+import { assertValidCard, bankFundingSourceSchema, fundingSourceSchema } from "../utils/funding-source";
+
+const nicknameSchema = z.string().trim().min(1, "Nickname is required").max(50);
+
+// Only masked details leave the server: no vault token, no encrypted account number.
+const serializeFundingSource = (source: FundingSourceRecord) => {
+  const card = source.cardToken ? getVaultedCard(db, source.cardToken) : undefined;
+
+  return {
+    id: source.id,
+    type: source.type as "card" | "bank",
+    nickname: source.nickname,
+    isDefault: source.isDefault,
+    last4: source.last4,
+    brand: source.brand,
+    expirationMonth: card?.expirationMonth ?? null,
+    expirationYear: card?.expirationYear ?? null,
+    bankName: source.bankName,
+    isVerified: source.type === "bank" && isBankAccountVerified(db, source.userId, source.fingerprint),
+    createdAt: source.createdAt,
+  };
+};
+
+// The micro-deposit amounts are the secret being verified, so they are never returned.
+const serializeVerification = (verification: BankVerificationRecord) => ({
+  id: verification.id,
+  routingNumber: verification.routingNumber,
+  last4: verification.last4,
+  status: verification.status,
+  attemptsRemaining: MAX_VERIFICATION_ATTEMPTS - verification.attempts,
+});
+
+// Run a funding source operation, surfacing missing, duplicate and closed records as client errors.
+function withFundingSourceErrors<T>(operation: () => T): T {
+  try {
+    return operation();
+  } catch (error) {
+    if (error instanceof FundingSourceNotFoundError) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Funding source not found",
+      });
+    }
+    if (error instanceof DuplicateFundingSourceError) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: error.message,
+      });
+    }
+    if (error instanceof BankVerificationNotFoundError) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Bank verification not found",
+      });
+    }
+    if (error instanceof BankVerificationLimitError) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: error.message,
+      });
+    }
+    if (error instanceof BankVerificationClosedError) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+// Cards and bank accounts a user saved so deposits do not need the details retyped.
+export const paymentMethodsRouter = router({
+  add: protectedProcedure
+    .input(
+      z.object({
+        fundingSource: fundingSourceSchema,
+        nickname: nicknameSchema.optional(),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      const { fundingSource, nickname } = input;
+
+      const source = withFundingSourceErrors(() => {
+        if (fundingSource.type === "card") {
+          assertValidCard(fundingSource);
+          return saveCard(db, ctx.user.id, {
+            number: fundingSource.accountNumber,
+            expirationMonth: fundingSource.expirationMonth,
+            expirationYear: fundingSource.expirationYear,
+            postalCode: fundingSource.postalCode,
+            nickname,
+          });
+        }
+
+        return saveBankAccount(db, ctx.user.id, {
+          routingNumber: fundingSource.routingNumber,
+          accountNumber: fundingSource.accountNumber,
+          bankName: lookupBankName(fundingSource.routingNumber)!,
+          nickname,
+        });
+      });
+
+      return serializeFundingSource(source);
+    }),
+
+  list: protectedProcedure.query(({ ctx }) => {
+    return listFundingSources(db, ctx.user.id).map(serializeFundingSource);
+  }),
+
+  rename: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        nickname: nicknameSchema,
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      const source = withFundingSourceErrors(() => renameFundingSource(db, ctx.user.id, input.id, input.nickname));
+      return serializeFundingSource(source);
+    }),
+
+  setDefault: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      const source = withFundingSourceErrors(() => setDefaultFundingSource(db, ctx.user.id, input.id));
+      return serializeFundingSource(source);
+    }),
+
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      withFundingSourceErrors(() => deleteFundingSource(db, ctx.user.id, input.id));
+      return { success: true };
+    }),
+
+  // Send two micro-deposits to a bank account; confirming their amounts lifts the unverified funding limit.
+  startBankVerification: protectedProcedure
+    .input(bankFundingSourceSchema.omit({ type: true }))
+    .mutation(({ input, ctx }) => {
+      const verification = withFundingSourceErrors(() =>
+        startBankVerification(db, {
+          userId: ctx.user.id,
+          routingNumber: input.routingNumber,
+          accountNumber: input.accountNumber,
+          individualName: `${ctx.user.firstName} ${ctx.user.lastName}`,
+        })
+      );
+
+      return serializeVerification(verification);
+    }),
+
+  verifyBankAccount: protectedProcedure
+    .input(
+      z.object({
+        verificationId: z.number(),
+        // The two micro-deposit amounts in dollars, in any order.
+        amounts: z.tuple([z.number().positive().max(0.99), z.number().positive().max(0.99)]),
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      const [first, second] = input.amounts.map((amount) => Math.round(amount * 100));
+      const result = withFundingSourceErrors(() =>
+        confirmBankVerification(db, ctx.user.id, input.verificationId, [first, second])
+      );
+
+      if (!result.verified) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            result.attemptsRemaining > 0
+              ? `Amounts do not match, ${result.attemptsRemaining} attempt(s) remaining`
+              : "Amounts do not match. Too many incorrect attempts, request new micro-deposits",
+        });
+      }
+
+      return serializeVerification(result.verification);
+    }),
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { authRouter } from './auth';
+import { twoFactorRouter } from './two-factor';
+import { createContextWithToken, createTestContext, createTestUserData, getUserSessions } from '../test-utils';
+import { db } from '@/lib/db';
+import { twoFactorCredentials } from '@/lib/db/schema';
+import { decryptField } from '@/lib/encryption';
+import { generateTotp, MAX_LOGIN_CHALLENGE_ATTEMPTS } from '@/lib/auth';
+
+describe('two-factor authentication', () => {
+  // A TOTP code is only accepted once, so each step of a test moves the clock to a fresh 30s window.
+  let now = Date.UTC(2026, 0, 1);
+  const nextStep = () => {
+    now += 30_000;
+    vi.setSystemTime(now);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    nextStep();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const enroll = async () => {
+    const userData = createTestUserData();
+    const { user, token } = await authRouter.createCaller(await createTestContext()).signup(userData);
+    const caller = twoFactorRouter.createCaller(await createContextWithToken(token));
+
+    const { secret, otpauthUri } = await caller.startEnrollment();
+    const { recoveryCodes } = await caller.confirmEnrollment({ code: generateTotp(secret) });
+    return { userData, userId: user.id, caller, secret, otpauthUri, recoveryCodes };
+  };
+
+  const login = async ({ email, password }: { email: string; password: string }) => {
+    const result = await authRouter.createCaller(await createTestContext()).login({ email, password });
+    if (!result.twoFactorRequired) {
+      throw new Error('Expected a two-factor challenge');
+    }
+    return result;
+  };
+
+  const verifyLoginCode = async (challengeToken: string, code: string) =>
+    authRouter.createCaller(await createTestContext()).verifyLoginCode({ challengeToken, code });
+
+  it('should enroll with a confirmed code and store the secret encrypted', async () => {
+    const { userId, caller, secret, otpauthUri, recoveryCodes } = await enroll();
+
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(new Set(recoveryCodes).size).toBe(10);
+    recoveryCodes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+    const credential = db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).get()!;
+    expect(credential.secret).toMatch(/^v2:/);
+    expect(decryptField(credential.secret, '2FA secret')).toBe(secret);
+    expect(await caller.status()).toEqual({ enabled: true, recoveryCodesRemaining: 10 });
+    await expect(caller.startEnrollment()).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should not turn 2FA on for a wrong confirmation code', async () => {
+    const { token } = await authRouter.createCaller(await createTestContext()).signup(createTestUserData());
+    const caller = twoFactorRouter.createCaller(await createContextWithToken(token));
+
+    await caller.startEnrollment();
+    await expect(caller.confirmEnrollment({ code: '000000' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(await caller.status()).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+  });
+
+  it('should only create a session once the login challenge is answered', async () => {
+    const { userData, userId, secret } = await enroll();
+    const sessionsBefore = (await getUserSessions(userId)).length;
+
+    nextStep();
+    const challenge = await login(userData);
+    expect(challenge.challengeToken).toBeTruthy();
+    expect((await getUserSessions(userId)).length).toBe(sessionsBefore);
+
+    const result = await verifyLoginCode(challenge.challengeToken, generateTotp(secret));
+    expect(result.user.id).toBe(userId);
+    expect((result.user as any).ssn).toBeUndefined();
+    expect((await getUserSessions(userId)).length).toBe(sessionsBefore + 1);
+
+    // The challenge is used up.
+    await expect(verifyLoginCode(challenge.challengeToken, generateTotp(secret))).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+  });
+
+  it('should reject a code that was already used', async () => {
+    const { userData, secret } = await enroll();
+
+    nextStep();
+    const code = generateTotp(secret);
+    await verifyLoginCode((await login(userData)).challengeToken, code);
+
+    const replay = await login(userData);
+    await expect(verifyLoginCode(replay.challengeToken, code)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should accept each recovery code once', async () => {
+    const { userData, userId, caller, recoveryCodes } = await enroll();
+
+    const first = await login(userData);
+    const result = await verifyLoginCode(first.challengeToken, recoveryCodes[0].toUpperCase());
+    expect(result.user.id).toBe(userId);
+    expect(await caller.status()).toEqual({ enabled: true, recoveryCodesRemaining: 9 });
+
+    const second = await login(userData);
+    await expect(verifyLoginCode(second.challengeToken, recoveryCodes[0])).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+  });
+
+  it('should give up on a challenge after too many wrong codes', async () => {
+    const { userData, secret } = await enroll();
+    const challenge = await login(userData);
+
+    for (let attempt = 1; attempt < MAX_LOGIN_CHALLENGE_ATTEMPTS; attempt++) {
+      await expect(verifyLoginCode(challenge.challengeToken, '000000')).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: `Invalid authentication code. ${MAX_LOGIN_CHALLENGE_ATTEMPTS - attempt} attempt(s) remaining.`,
+      });
+    }
+    await expect(verifyLoginCode(challenge.challengeToken, '000000')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    nextStep();
+    await expect(verifyLoginCode(challenge.challengeToken, generateTotp(secret))).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+  });
+
+  it('should expire challenges', async () => {
+    const { userData, secret } = await enroll();
+    const challenge = await login(userData);
+
+    now += 5 * 60 * 1000;
+    vi.setSystemTime(now);
+    await expect(verifyLoginCode(challenge.challengeToken, generateTotp(secret))).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+  });
+
+  it('should require the password and a code to disable 2FA', async () => {
+    const { userData, userId, caller, secret } = await enroll();
+
+    nextStep();
+    await expect(caller.disable({ password: 'WrongPassword1!', code: generateTotp(secret) })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    await expect(caller.disable({ password: userData.password, code: '000000' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+    expect(await caller.status()).toMatchObject({ enabled: true });
+
+    await caller.disable({ password: userData.password, code: generateTotp(secret) });
+    expect(await caller.status()).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+
+    const result = await authRouter.createCaller(await createTestContext()).login(userData);
+    expect(result.twoFactorRequired).toBeUndefined();
+    expect(result.user?.id).toBe(userId);
+  });
+
+  it('should throttle wrong answers to disable 2FA like failed sign-ins', async () => {
+    const { userData, caller, secret } = await enroll();
+
+    nextStep();
+    for (let i = 0; i < 3; i++) {
+      await expect(caller.disable({ password: userData.password, code: '000000' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    }
+    await expect(caller.disable({ password: userData.password, code: generateTotp(secret) })).rejects.toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+    });
+    expect(await caller.status()).toMatchObject({ enabled: true });
+  });
+
+  it('should replace the recovery codes when asked with the password and a code', async () => {
+    const { userData, caller, secret, recoveryCodes } = await enroll();
+    await expect(caller.regenerateRecoveryCodes({ password: 'WrongPassword1!', code: generateTotp(secret) })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+
+    nextStep();
+    const { recoveryCodes: replacements } = await caller.regenerateRecoveryCodes({
+      password: userData.password,
+      code: generateTotp(secret),
+    });
+    expect(replacements).toHaveLength(10);
+    expect(replacements.filter((code) => recoveryCodes.includes(code))).toEqual([]);
+    expect(await caller.status()).toEqual({ enabled: true, recoveryCodesRemaining: 10 });
+
+    const challenge = await login(userData);
+    await expect(verifyLoginCode(challenge.challengeToken, recoveryCodes[0])).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    const { user } = await verifyLoginCode(challenge.challengeToken, replacements[0]);
+    expect(user.email).toBe(userData.email.toLowerCase());
+  });
+});
@@ -0,0 +1,115 @@
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { protectedProcedure, router, type Context } from "../trpc";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import {
+  InvalidTwoFactorCodeError,
+  TwoFactorAlreadyEnabledError,
+  TwoFactorNotEnabledError,
+  confirmTotpEnrollment,
+  countUnusedRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from "@/lib/auth";
+import { getClientInfo } from "../utils/request-info";
+import { assertNotThrottled, recordFailedSignIn } from "../utils/sign-in-throttle";
+
+const codeSchema = z.string().trim().min(1, "Enter the code from your authenticator app");
+
+// Surface 2FA state errors as client errors.
+function mapTwoFactorError(error: unknown): never {
+  if (error instanceof TwoFactorAlreadyEnabledError) {
+    throw new TRPCError({ code: "CONFLICT", message: error.message });
+  }
+  if (error instanceof TwoFactorNotEnabledError) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  if (error instanceof InvalidTwoFactorCodeError) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  throw error;
+}
+
+const reauthenticationSchema = z.object({
+  password: z.string().min(1),
+  code: codeSchema,
+});
+
+// Changes that weaken 2FA need the password and a current code (or recovery code), not just a session.
+// Wrong answers count against the sign-in throttle, so a stolen session cannot be used to guess them.
+async function reauthenticate(
+  ctx: Context & { user: NonNullable<Context["user"]> },
+  input: z.infer<typeof reauthenticationSchema>) {
+  const attempt = { email: ctx.user.email, ipAddress: getClientInfo(ctx).ipAddress };
+  assertNotThrottled(attempt);
+
+  const user = await db.select().from(users).where(eq(users.id, ctx.user.id)).get();
+  if (!user || !(await bcrypt.compare(input.password, user.password))) {
+    recordFailedSignIn(attempt, user);
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Invalid credentials",
+    });
+  }
+
+  try {
+    if (!verifySecondFactor(db, user.id, input.code)) {
+      recordFailedSignIn(attempt, user);
+      throw new InvalidTwoFactorCodeError();
+    }
+  } catch (error) {
+    mapTwoFactorError(error);
+  }
+  return user;
+}
+
+export const twoFactorRouter = router({
+  status: protectedProcedure.query(({ ctx }) => {
+    const enabled = isTwoFactorEnabled(db, ctx.user.id);
+    return {
+      enabled,
+      recoveryCodesRemaining: enabled ? countUnusedRecoveryCodes(db, ctx.user.id) : 0,
+    };
+  }),
+
+  // Returns the secret and otpauth URI for the authenticator app; 2FA stays off until confirmed.
+  startEnrollment: protectedProcedure.mutation(({ ctx }) => {
+    try {
+      return startTotpEnrollment(db, ctx.user.id, ctx.user.email);
+    } catch (error) {
+      mapTwoFactorError(error);
+    }
+  }),
+
+  confirmEnrollment: protectedProcedure
+    .input(
+      z.object({
+        code: codeSchema,
+      })
+    )
+    .mutation(({ input, ctx }) => {
+      try {
+        return { recoveryCodes: confirmTotpEnrollment(db, ctx.user.id, input.code) };
+      } catch (error) {
+        mapTwoFactorError(error);
+      }
+    }),
+
+  disable: protectedProcedure.input(reauthenticationSchema).mutation(async ({ input, ctx }) => {
+    const user = await reauthenticate(ctx, input);
+    disableTwoFactor(db, user.id);
+    return { success: true };
+  }),
+
+  // The old codes stop working; the new ones are only returned this once.
+  regenerateRecoveryCodes: protectedProcedure.input(reauthenticationSchema).mutation(async ({ input, ctx }) => {
+    const user = await reauthenticate(ctx, input);
+    return { recoveryCodes: regenerateRecoveryCodes(db, user.id) };
+  }),
+});
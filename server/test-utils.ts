@@ -9,6 +9,10 @@ import { eq } from "drizzle-orm";
 import jwt from "jsonwebtoken";
 import { getSessionTokenFromContext } from "./utils/session-token";
 
+// Every test context comes from its own client address, so failed sign-ins in one test do not count
+// against the next one's IP.
+const createTestIp = () => `10.${crypto.randomInt(256)}.${crypto.randomInt(256)}.${crypto.randomInt(1, 255)}`;
+
 // Create test context
 // Accepts either: string (cookie) or object
 export async function createTestContext(
@@ -23,7 +27,7 @@ export async function createTestContext(
     };
 
     return createContext({
-      req: { headers } as any,
+      req: { headers, socket: { remoteAddress: createTestIp() } } as any,
       res: { setHeader: () => {} } as any,
     } as CreateNextContextOptions);
   }
@@ -37,6 +41,7 @@ export async function createTestContext(
         return undefined;
       },
     },
+    socket: { remoteAddress: createTestIp() },
     ...(cookieOrOverrides && 'req' in cookieOrOverrides ? cookieOrOverrides.req : {}),
   } as any;
 
@@ -66,6 +71,13 @@ export type TestUserData = {
   zipCode: string;
 };
 
+// Random SSN the SSA could have issued. KYC flags an SSN already on file for another user, so test
+// users must not share one.
+export const createTestSsn = () =>
+  `${crypto.randomInt(1, 666)}`.padStart(3, '0') +
+  `${crypto.randomInt(1, 100)}`.padStart(2, '0') +
+  `${crypto.randomInt(1, 10_000)}`.padStart(4, '0');
+
 // Generate unique test user data
 export const createTestUserData = (overrides?: Partial<TestUserData>): TestUserData => ({
   email: `test-${crypto.randomUUID()}@example.com`,
@@ -74,7 +86,7 @@ export const createTestUserData = (overrides?: Partial<TestUserData>): TestUserD
   lastName: 'User',
   phoneNumber: '+1234567890',
   dateOfBirth: '1990-01-01',
-  ssn: '123456789',
+  ssn: createTestSsn(),
   address: '123 Main St',
   city: 'City',
   state: 'NY',
@@ -82,6 +94,37 @@ export const createTestUserData = (overrides?: Partial<TestUserData>): TestUserD
   ...overrides,
 });
 
+// Random Visa number ending in 1111. Fraud screening flags a card that funded another user's account,
+// so test users must not share one.
+export const createTestCardNumber = () => {
+  const prefix = `4${Array.from({ length: 10 }, () => crypto.randomInt(10)).join('')}`;
+  for (let digit = 0; digit < 10; digit++) {
+    const number = `${prefix}${digit}1111`;
+    const sum = [...number].reverse().reduce((total, char, index) => {
+      const value = Number(char) * (index % 2 === 1 ? 2 : 1);
+      return total + (value > 9 ? value - 9 : value);
+    }, 0);
+    if (sum % 10 === 0) {
+      return number;
+    }
+  }
+  throw new Error('unreachable');
+};
+
+// Card funding source that passes every card check; the expiry is always a few years out. Each call
+// returns a different card number.
+export const createTestCardSource = (
+  overrides?: Partial<{ accountNumber: string; expirationMonth: number; expirationYear: number; cvv: string; postalCode: string }>
+) => ({
+  type: 'card' as const,
+  accountNumber: createTestCardNumber(),
+  expirationMonth: 12,
+  expirationYear: new Date().getFullYear() + 3,
+  cvv: '123',
+  postalCode: '12345',
+  ...overrides,
+});
+
 // Create authenticated context (signs up user)
 export async function createAuthenticatedContext(
   userData?: TestUserData
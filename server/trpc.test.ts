@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { createTestUserData, createTestContext } from "./test-utils";
 import { authRouter } from "./routers/auth";
 import { db } from '@/lib/db';
@@ -184,4 +184,55 @@ describe('createContext - Session Expiry Timing Bug (PERF-403)', () => {
     expect(testCtx.user).toBeNull();
   });
 
-});
\ No newline at end of file
+});
+
+describe('createContext - Session Renewal', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A request carrying the given cookies; Set-Cookie values written to the response are collected.
+  const requestWith = async (cookie: string) => {
+    const setCookies: string[] = [];
+    const ctx = await createTestContext({
+      req: { headers: { cookie } },
+      res: { setHeader: (_name: string, value: string[]) => setCookies.push(...value) },
+    } as any);
+    return { ctx, setCookies };
+  };
+  const cookieValue = (setCookies: string[], name: string) =>
+    setCookies.find((cookie) => cookie.startsWith(`${name}=`))?.split(';')[0].slice(name.length + 1);
+
+  it('should set access and refresh cookies on sign-in and renew them transparently', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const signIn = await requestWith('');
+    await authRouter.createCaller(signIn.ctx).signup(createTestUserData());
+
+    const access = cookieValue(signIn.setCookies, 'session')!;
+    const refresh = cookieValue(signIn.setCookies, 'refresh')!;
+    expect(signIn.setCookies.find((cookie) => cookie.startsWith('session='))).toContain('Max-Age=900');
+    expect(signIn.setCookies.find((cookie) => cookie.startsWith('refresh='))).toContain('Path=/api/trpc; HttpOnly');
+
+    // Well before expiry nothing changes.
+    const early = await requestWith(`session=${access}; refresh=${refresh}`);
+    expect(early.ctx.user).not.toBeNull();
+    expect(early.setCookies).toEqual([]);
+
+    // Close to expiry the request is still authenticated and carries new tokens back.
+    vi.setSystemTime(Date.now() + 12 * 60 * 1000);
+    const renewal = await requestWith(`session=${access}; refresh=${refresh}`);
+    expect(renewal.ctx.user).not.toBeNull();
+    expect(cookieValue(renewal.setCookies, 'session')).not.toBe(access);
+    expect(cookieValue(renewal.setCookies, 'refresh')).not.toBe(refresh);
+
+    const next = await requestWith(
+      `session=${cookieValue(renewal.setCookies, 'session')}; refresh=${cookieValue(renewal.setCookies, 'refresh')}`
+    );
+    expect(next.ctx.sessionId).toBe(renewal.ctx.sessionId);
+
+    // Replaying the first refresh token later on signs everybody holding this session out.
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    expect((await requestWith(`refresh=${refresh}`)).ctx.user).toBeNull();
+    expect((await requestWith(`session=${cookieValue(renewal.setCookies, 'session')}`)).ctx.user).toBeNull();
+  });
+});
@@ -1,11 +1,13 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import { CreateNextContextOptions } from "@trpc/server/adapters/next";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import jwt from "jsonwebtoken";
 import { db } from "@/lib/db";
-import { sessions, users } from "@/lib/db/schema";
+import { users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { getSessionToken } from "./utils/session-token";
+import { getRefreshToken, getSessionToken } from "./utils/session-token";
+import { setSessionCookies } from "./utils/session-cookies";
+import { authenticateSession } from "@/lib/auth";
+import { FundingLimitExceededError } from "@/lib/limits";
 
 export async function createContext(opts: CreateNextContextOptions | FetchCreateContextFnOptions) {
   // Handle different adapter types
@@ -22,43 +24,44 @@ export async function createContext(opts: CreateNextContextOptions | FetchCreate
     res = opts.resHeaders;
   }
 
-  // Get the session token using shared utility
-  const token = getSessionToken(req);
+  // PERF-403: Capture current time once to avoid timing precision issues
+  // This ensures consistent timestamp comparison and prevents expired sessions
+  // from being considered valid due to race conditions between multiple new Date() calls
+  const now = new Date();
 
   let user = null;
-  if (token) {
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || "temporary-secret-for-interview") as {
-        userId: number;
-      };
+  let sessionId: number | null = null;
+  try {
+    // Access token and refresh token via the shared cookie utilities; near expiry the session is renewed.
+    const { session, revokedSessionId } = authenticateSession(
+      db,
+      { accessToken: getSessionToken(req), refreshToken: getRefreshToken(req) },
+      now
+    );
+    if (revokedSessionId !== null) {
+      console.warn(`Refresh token reuse detected, revoked session ${revokedSessionId}`);
+    }
 
-      const session = await db.select().from(sessions).where(eq(sessions.token, token)).get();
-      
-      // PERF-403: Capture current time once to avoid timing precision issues
-      // This ensures consistent timestamp comparison and prevents expired sessions
-      // from being considered valid due to race conditions between multiple new Date() calls
-      const now = new Date();
-      const expiresAt = session ? new Date(session.expiresAt) : null;
-      
-      if (session && expiresAt && expiresAt > now) {
-        const dbUser = await db.select().from(users).where(eq(users.id, decoded.userId)).get();
-        if (dbUser) {
-          const { password, ssn, ...safeUser } = dbUser;
-          // 11/27/25: prevent SSN/password from leaking via context (SEC-301).
-          user = safeUser as typeof dbUser;
-        }
-        const expiresIn = expiresAt.getTime() - now.getTime();
-        if (expiresIn < 60000) {
-          console.warn("Session about to expire");
-        }
+    if (session) {
+      const dbUser = await db.select().from(users).where(eq(users.id, session.userId)).get();
+      if (dbUser) {
+        const { password, ssn, ssnIndex, ...safeUser } = dbUser;
+        // 11/27/25: prevent SSN/password from leaking via context (SEC-301).
+        user = safeUser as typeof dbUser;
+        sessionId = session.sessionId;
+      }
+      if (session.renewed) {
+        setSessionCookies(res, session.renewed, now);
       }
-    } catch (error) {
-      // Invalid token
     }
+  } catch (error) {
+    // Invalid token
   }
 
   return {
     user,
+    // The sessions row behind the cookie, for marking and sparing the current session.
+    sessionId,
     req,
     res,
   };
@@ -66,12 +69,31 @@ export async function createContext(opts: CreateNextContextOptions | FetchCreate
 
 export type Context = Awaited<ReturnType<typeof createContext>>;
 
-const t = initTRPC.context<Context>().create();
+// Funding limit breaches carry the limit that was hit and the remaining headroom (in dollars, or attempts
+// for the hourly limit) so the client can tell the user how much they can still deposit.
+const t = initTRPC.context<Context>().create({
+  errorFormatter({ shape, error }) {
+    const cause = error.cause;
+    if (!(cause instanceof FundingLimitExceededError)) {
+      return shape;
+    }
+
+    const { limit, fundingType, maximum, remaining } = cause.details;
+    const toDollars = (value: number) => (limit === "attempts_per_hour" ? value : value / 100);
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        fundingLimit: { limit, fundingType, maximum: toDollars(maximum), remaining: toDollars(remaining) },
+      },
+    };
+  },
+});
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
 export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
-  if (!ctx.user) {
+  if (!ctx.user || ctx.sessionId === null) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
 
@@ -79,6 +101,16 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
     ctx: {
       ...ctx,
       user: ctx.user,
+      sessionId: ctx.sessionId,
     },
   });
 });
+
+// Back-office procedures (KYC review and the like) for users with the admin role.
+export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+
+  return next();
+});
@@ -0,0 +1,11 @@
+import { getMailer, type MailMessage } from "@/lib/mail";
+
+// Account emails are best effort: a failed send never fails the request that triggered it, so it is
+// only logged.
+export async function sendEmail(message: MailMessage) {
+  try {
+    await getMailer().send(message);
+  } catch (error) {
+    console.error(`Failed to send "${message.subject}" email`, error);
+  }
+}
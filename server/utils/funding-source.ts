@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { validateCardDetails, validateRoutingNumber } from "@/lib/validation/payment";
+
+// The card number is swapped for a vault token as soon as it is validated; the CVV is never stored.
+export const cardFundingSourceSchema = z.object({
+  type: z.literal("card"),
+  accountNumber: z.string(),
+  expirationMonth: z.number().int(),
+  expirationYear: z.number().int(),
+  cvv: z.string(),
+  postalCode: z.string(),
+});
+
+// External bank account shape shared by bank funding, withdrawals and saved funding sources. The routing
+// number must pass the ABA checksum and belong to a bank in the routing directory.
+export const bankFundingSourceSchema = z.object({
+  type: z.literal("bank"),
+  accountNumber: z.string(),
+  routingNumber: z
+    .string()
+    .regex(/^\d{9}$/, "Routing number must be 9 digits")
+    .superRefine((value, refinement) => {
+      const validation = validateRoutingNumber(value);
+      if (!validation.isValid) {
+        refinement.addIssue({ code: z.ZodIssueCode.custom, message: validation.message });
+      }
+    }),
+});
+
+export const fundingSourceSchema = z.discriminatedUnion("type", [cardFundingSourceSchema, bankFundingSourceSchema]);
+
+// Reject a card that could not be charged, reporting the first invalid field.
+export function assertValidCard(card: z.infer<typeof cardFundingSourceSchema>) {
+  const { accountNumber, ...details } = card;
+  const cardValidation = validateCardDetails({ number: accountNumber, ...details });
+  if (!cardValidation.isValid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: Object.values(cardValidation.errors)[0],
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { idempotencyKeys } from "@/lib/db/schema";
+import { fingerprintField } from "@/lib/encryption";
+
+type IdempotencyOptions = {
+  userId: number;
+  /** Procedure path; part of the fingerprint so one key cannot be replayed against another mutation. */
+  scope: string;
+  key?: string;
+  /** Request payload without the key itself. */
+  payload: unknown;
+};
+
+/**
+ * Serializes a value with object keys sorted so logically equal payloads fingerprint the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Keyed fingerprint of a request. Payloads can carry card and bank account numbers, so a plain hash
+ * stored next to the key could be brute-forced back into them.
+ */
+export function fingerprintRequest(scope: string, payload: unknown): string {
+  return fingerprintField(`${scope}:${stableStringify(payload)}`);
+}
+
+/**
+ * Runs a mutation at most once per (user, key).
+ *
+ * The key is reserved before the mutation runs so a concurrent duplicate is rejected instead of
+ * executing twice. A replay with the same payload returns the stored response; a replay with a
+ * different payload fails with CONFLICT. If the mutation throws, the reservation is released so
+ * the client can retry with the same key.
+ *
+ * @returns The mutation result, or the cached result of the first successful call
+ */
+export async function withIdempotency<T>(options: IdempotencyOptions, run: () => Promise<T>): Promise<T> {
+  if (!options.key) {
+    return run();
+  }
+
+  const fingerprint = fingerprintRequest(options.scope, options.payload);
+  const match = and(eq(idempotencyKeys.userId, options.userId), eq(idempotencyKeys.key, options.key));
+
+  const reserved = await db
+    .insert(idempotencyKeys)
+    .values({
+      userId: options.userId,
+      key: options.key,
+      scope: options.scope,
+      fingerprint,
+    })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  if (!reserved) {
+    const existing = await db.select().from(idempotencyKeys).where(match).get();
+
+    if (!existing || existing.fingerprint !== fingerprint) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "Idempotency key was already used for a different request",
+      });
+    }
+
+    if (existing.response === null) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "A request with this idempotency key is still being processed",
+      });
+    }
+
+    return JSON.parse(existing.response) as T;
+  }
+
+  try {
+    const result = await run();
+    await db
+      .update(idempotencyKeys)
+      .set({ response: JSON.stringify(result) })
+      .where(eq(idempotencyKeys.id, reserved.id));
+    return result;
+  } catch (error) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, reserved.id));
+    throw error;
+  }
+}
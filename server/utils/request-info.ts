@@ -0,0 +1,64 @@
+import type { Context } from "../trpc";
+
+type RequestLike = {
+  headers: {
+    get?: (key: string) => string | null | undefined;
+    [key: string]: unknown;
+  };
+  socket?: { remoteAddress?: string };
+};
+
+/**
+ * Reads a request header from either a Next.js request (plain header object) or a Fetch Request.
+ */
+export function getRequestHeader(req: RequestLike, name: string): string | undefined {
+  if (typeof req.headers.get === "function") {
+    return req.headers.get(name) ?? undefined;
+  }
+
+  const value = req.headers[name];
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * How many reverse proxies sit in front of the app (TRUSTED_PROXY_COUNT, default 0). Each one appends
+ * the address it received the request from to X-Forwarded-For, so only that many entries at the end
+ * of the header were written by our own infrastructure; anything before them came from the client.
+ */
+export function getTrustedProxyCount(): number {
+  const value = process.env.TRUSTED_PROXY_COUNT;
+  if (!value) {
+    return 0;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error("TRUSTED_PROXY_COUNT must be a whole number");
+  }
+  return count;
+}
+
+/**
+ * User agent and client IP for a request. X-Forwarded-For is only read when trusted proxies are
+ * configured, and then only the entry the outermost of them added; without them the socket address
+ * is used. The IP is null when neither is available (the fetch adapter has no socket).
+ */
+export function getClientInfo(ctx: Context): { userAgent: string | null; ipAddress: string | null } {
+  const req = ctx.req as RequestLike;
+  const proxies = getTrustedProxyCount();
+  const forwardedFor =
+    proxies > 0
+      ? (getRequestHeader(req, "x-forwarded-for") ?? "")
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : [];
+
+  return {
+    userAgent: getRequestHeader(req, "user-agent") ?? null,
+    ipAddress: forwardedFor[Math.max(0, forwardedFor.length - proxies)] || req.socket?.remoteAddress || null,
+  };
+}
@@ -0,0 +1,39 @@
+import type { IssuedSession } from "@/lib/auth";
+
+type ResponseLike = { setHeader: (name: string, value: string[]) => void } | Headers;
+
+// The refresh token is only needed by the API, so the browser does not send it anywhere else.
+const REFRESH_COOKIE_PATH = "/api/trpc";
+
+function writeCookies(res: unknown, cookies: string[]) {
+  const target = res as ResponseLike;
+  if ("setHeader" in target) {
+    target.setHeader("Set-Cookie", cookies);
+  } else {
+    for (const cookie of cookies) {
+      target.append("Set-Cookie", cookie);
+    }
+  }
+}
+
+const secondsUntil = (date: Date, now: Date) => Math.max(0, Math.floor((date.getTime() - now.getTime()) / 1000));
+
+/**
+ * Sends the access token and refresh token of a new or renewed session to the browser.
+ */
+export function setSessionCookies(res: unknown, session: IssuedSession, now = new Date()) {
+  writeCookies(res, [
+    `session=${session.accessToken}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${secondsUntil(session.accessExpiresAt, now)}`,
+    `refresh=${session.refreshToken}; Path=${REFRESH_COOKIE_PATH}; HttpOnly; SameSite=Strict; Max-Age=${secondsUntil(
+      session.absoluteExpiresAt,
+      now
+    )}`,
+  ]);
+}
+
+export function clearSessionCookies(res: unknown) {
+  writeCookies(res, [
+    `session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`,
+    `refresh=; Path=${REFRESH_COOKIE_PATH}; HttpOnly; SameSite=Strict; Max-Age=0`,
+  ]);
+}
@@ -16,19 +16,16 @@ type RequestLike = {
 };
 
 /**
- * Extracts the session token from a request object.
+ * Reads a cookie from a request object.
  * Handles multiple cookie formats:
- * - cookies.session (Next.js parsed cookies)
+ * - cookies[name] (Next.js parsed cookies)
  * - Cookie header (raw header string)
  * - Headers.get("cookie") (Fetch API style)
- * 
- * @param req - Request object from context
- * @returns Session token if found, undefined otherwise
  */
-export function getSessionToken(req: RequestLike): string | undefined {
-  // First, try to get token from parsed cookies.session
-  if (req.cookies?.session) {
-    return req.cookies.session;
+function getCookie(req: RequestLike, name: string): string | undefined {
+  // First, try the parsed cookies
+  if (req.cookies?.[name]) {
+    return req.cookies[name];
   }
 
   // Fall back to parsing Cookie header
@@ -47,16 +44,32 @@ export function getSessionToken(req: RequestLike): string | undefined {
     return undefined;
   }
 
-  // Parse cookie string to find session token
-  const sessionCookie = cookieHeader
+  const cookie = cookieHeader
     .split("; ")
-    .find((c: string) => c.startsWith("session="));
+    .find((c: string) => c.startsWith(`${name}=`));
 
-  if (!sessionCookie) {
+  if (!cookie) {
     return undefined;
   }
 
-  return sessionCookie.split("=")[1];
+  return cookie.split("=")[1];
+}
+
+/**
+ * Extracts the session (access) token from a request object.
+ *
+ * @param req - Request object from context
+ * @returns Session token if found, undefined otherwise
+ */
+export function getSessionToken(req: RequestLike): string | undefined {
+  return getCookie(req, "session");
+}
+
+/**
+ * Extracts the refresh token used to renew the session from a request object.
+ */
+export function getRefreshToken(req: RequestLike): string | undefined {
+  return getCookie(req, "refresh");
 }
 
 /**
@@ -0,0 +1,40 @@
+import { TRPCError } from "@trpc/server";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import {
+  LoginThrottledError,
+  assertLoginAllowed,
+  buildUnlockEmail,
+  issueUnlockToken,
+  recordLoginFailure,
+  type LoginAttempt,
+} from "@/lib/auth";
+import { sendEmail } from "./account-email";
+
+// Sign-in throttling shared by every procedure that checks a password or second factor.
+
+export function assertNotThrottled(attempt: LoginAttempt) {
+  try {
+    assertLoginAllowed(db, attempt);
+  } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+// Counts the failure and, when it locks a real account, emails its owner an unlock link.
+export function recordFailedSignIn(attempt: LoginAttempt, user: typeof users.$inferSelect | undefined) {
+  const { accountLocked } = recordLoginFailure(db, attempt);
+  if (!accountLocked || !user) {
+    return;
+  }
+
+  // Not awaited, so the locking attempt takes as long for unknown emails as for real ones.
+  void sendEmail(buildUnlockEmail(user.email, issueUnlockToken(db, user.email)));
+}
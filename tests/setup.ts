@@ -1,10 +1,39 @@
 import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { beforeAll, afterEach } from "vitest";
 
 // Import db - it will read DATABASE_PATH and NODE_ENV from .env file
 // (loaded by vitest.config.ts)
 import { db } from "@/lib/db";
-import { users, sessions, accounts, transactions } from "@/lib/db/schema";
+import {
+  users,
+  sessions,
+  refreshTokens,
+  accounts,
+  transactions,
+  journalEntries,
+  postings,
+  idempotencyKeys,
+  achEntries,
+  achFiles,
+  cardTokens,
+  fundingSources,
+  bankVerifications,
+  fundingAttempts,
+  fundingLimitOverrides,
+  fraudScreenings,
+  amlAlerts,
+  amlAlertTransactions,
+  sanctionsMatches,
+  kycReviews,
+  twoFactorCredentials,
+  recoveryCodes,
+  loginChallenges,
+  loginThrottles,
+  passwordResetTokens,
+} from "@/lib/db/schema";
 
 /**
  * Clean all test data from the database
@@ -13,9 +42,30 @@ import { users, sessions, accounts, transactions } from "@/lib/db/schema";
 export async function cleanDatabase() {
   // Delete in order to respect foreign key constraints
   // Add .execute() to ensure the queries actually run
+  await db.delete(idempotencyKeys).execute();
+  await db.delete(fundingAttempts).execute();
+  await db.delete(fraudScreenings).execute();
+  await db.delete(amlAlertTransactions).execute();
+  await db.delete(amlAlerts).execute();
+  await db.delete(fundingLimitOverrides).execute();
+  await db.delete(achEntries).execute();
+  await db.delete(bankVerifications).execute();
+  await db.delete(achFiles).execute();
+  await db.delete(fundingSources).execute();
+  await db.delete(cardTokens).execute();
+  await db.delete(postings).execute();
   await db.delete(transactions).execute();
+  await db.delete(journalEntries).execute();
+  await db.delete(kycReviews).execute();
   await db.delete(accounts).execute();
+  await db.delete(refreshTokens).execute();
   await db.delete(sessions).execute();
+  await db.delete(loginChallenges).execute();
+  await db.delete(loginThrottles).execute();
+  await db.delete(passwordResetTokens).execute();
+  await db.delete(recoveryCodes).execute();
+  await db.delete(twoFactorCredentials).execute();
+  await db.delete(sanctionsMatches).execute();
   await db.delete(users).execute();
 }
 
@@ -23,6 +73,21 @@ process.env.VITE_CSS = "false";
 if (!process.env.ENCRYPTION_KEY) {
   process.env.ENCRYPTION_KEY = crypto.randomBytes(32).toString("hex");
 }
+if (!process.env.FINGERPRINT_KEY) {
+  process.env.FINGERPRINT_KEY = crypto.randomBytes(32).toString("hex");
+}
+if (!process.env.CARD_VAULT_KEY) {
+  process.env.CARD_VAULT_KEY = crypto.randomBytes(32).toString("hex");
+}
+if (!process.env.SSN_INDEX_KEY) {
+  process.env.SSN_INDEX_KEY = crypto.randomBytes(32).toString("hex");
+}
+if (!process.env.OFAC_SDN_PATH) {
+  process.env.OFAC_SDN_PATH = "tests/fixtures/sdn.csv";
+}
+if (!process.env.MAIL_OUTBOX_DIR) {
+  process.env.MAIL_OUTBOX_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "securebank-mail-"));
+}
 if (!process.env.JWT_SECRET) {
   process.env.JWT_SECRET = "test-jwt-secret-for-testing-only";
 }